@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Header from './components/Header.tsx';
 import Auth from './components/Auth.tsx';
 import ApiKeyGate from './components/ApiKeyGate.tsx';
@@ -8,21 +8,50 @@ import LeadsTable from './components/LeadsTable.tsx';
 import AdminDashboard from './components/AdminDashboard.tsx';
 import UpgradeSection from './components/UpgradeSection.tsx';
 import EmailOutreach from './components/EmailOutreach.tsx';
-import { SearchState, User } from './types.ts';
-import { performSEOLeadGen } from './geminiService.ts';
+import LeadLibrary from './components/LeadLibrary.tsx';
+import PipelineBoard from './components/PipelineBoard.tsx';
+import SavedSearches from './components/SavedSearches.tsx';
+import BatchGrid from './components/BatchGrid.tsx';
+import { SearchState, SearchQuery, User, LeadGenStage, SearchNotification, SEOAudit, CampaignHandoff } from './types.ts';
+import { performSEOLeadGen, LEAD_GEN_NEEDS_SEARCH } from './geminiService.ts';
 import { backendService } from './services/backendService.ts';
+import { schemaValidator } from './services/schemaValidator.ts';
+import { llmAdapter } from './services/llmAdapter.ts';
+import { credentialService } from './services/credentialService.ts';
+import { planService } from './services/planService.ts';
+import { mergeUniqueLeads, leadKey, toOutreachLead } from './services/leadUtils.ts';
+import { savedSearchService } from './services/savedSearchService.ts';
+import { batchSearchService } from './services/batchSearchService.ts';
+
+const LEAD_GEN_STAGES: { id: LeadGenStage; label: string }[] = [
+  { id: 'searching', label: 'Searching' },
+  { id: 'extracting', label: 'Extracting' },
+  { id: 'validating', label: 'Validating' },
+  { id: 'verifying', label: 'Verifying' },
+  { id: 'auditing', label: 'Auditing Sites' },
+  { id: 'contacts', label: 'Finding Contacts' },
+  { id: 'scoring', label: 'Scoring' },
+];
+
+const SCHEDULER_INTERVAL_MS = 60000;
 
 export default function App(): React.ReactElement {
   const [user, setUser] = useState<User | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
-  const [activeTab, setActiveTab] = useState<'SEARCH' | 'OUTREACH' | 'ADMIN' | 'AI_GATE'>('AI_GATE');
+  const [activeTab, setActiveTab] = useState<'SEARCH' | 'LIBRARY' | 'PIPELINE' | 'OUTREACH' | 'ADMIN' | 'AI_GATE'>('AI_GATE');
   const [searchState, setSearchState] = useState<SearchState>({
     status: 'idle',
     progress: 0,
     results: [],
   });
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [notifications, setNotifications] = useState<SearchNotification[]>([]);
+  const [savedSearchVersion, setSavedSearchVersion] = useState(0);
+  const [campaignHandoff, setCampaignHandoff] = useState<CampaignHandoff | null>(null);
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
 
-  const isVerified = user?.geminiKeyStatus === 'VERIFIED';
+  const isVerified = !!user && llmAdapter.getKeyStatus(user) === 'VERIFIED';
 
   // Force AI_GATE if not verified
   useEffect(() => {
@@ -44,6 +73,42 @@ export default function App(): React.ReactElement {
     }
   }, []);
 
+  // Saved-search scheduler: checks for due runs every minute while the app is open
+  useEffect(() => {
+    if (!user || !isVerified) return;
+    const controller = new AbortController();
+    let ticking = false;
+
+    const tick = async () => {
+      const current = userRef.current;
+      if (ticking || !current) return;
+      ticking = true;
+      try {
+        const updated = await savedSearchService.runDue(current, {
+          signal: controller.signal,
+          onRun: () => setSavedSearchVersion(v => v + 1)
+        });
+        if (updated !== current && !controller.signal.aborted) setUser(updated);
+      } finally {
+        ticking = false;
+        setNotifications(backendService.getNotifications(current.id).filter(n => !n.read));
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [user?.id, isVerified]);
+
+  const handleDismissNotifications = () => {
+    if (!user) return;
+    backendService.markNotificationsRead(user.id);
+    setNotifications([]);
+  };
+
   const handleAuth = (userData: User, adminStatus: boolean) => {
     setUser(userData);
     setIsAdmin(adminStatus);
@@ -54,19 +119,51 @@ export default function App(): React.ReactElement {
     setUser(updatedUser);
   };
 
-  const handleSearch = async (niche: string, location: string, targetEmail: string) => {
-    if (!user || !isVerified) return;
+  const runSearch = async (query: SearchQuery, append: boolean) => {
+    if (!user || !isVerified || planService.isLocked(user)) return;
     
-    setSearchState((prev) => ({ ...prev, status: 'searching', progress: 5 }));
+    setSearchState((prev) => ({
+      ...prev,
+      status: 'searching',
+      progress: 5,
+      stage: 'searching',
+      query,
+      isAppending: append,
+      batch: undefined,
+      ...(append ? {} : { results: [], groundingSources: [], rejectedRows: [] })
+    }));
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      const { leads, groundingSources } = await performSEOLeadGen(niche, location);
+      const existing = append ? searchState.results : [];
+      const { leads, groundingSources, rejected, cancelled } = await performSEOLeadGen(user, query.niche, query.location, {
+        count: query.count,
+        excludeDomains: existing.map(l => l.websiteUrl),
+        signal: controller.signal,
+        onProgress: ({ stage, progress, leads: partial }) => {
+          setSearchState((prev) => ({ ...prev, stage, progress, results: mergeUniqueLeads(existing, partial) }));
+        }
+      });
+      const results = mergeUniqueLeads(existing, leads);
+      // The run already cost a query, so a full library must not throw the results away
+      let libraryNotice: string | undefined;
+      try {
+        libraryNotice = backendService.upsertLeads(user.id, leads, { niche: query.niche, location: query.location }).notice;
+      } catch (err: any) {
+        libraryNotice = err.message;
+      }
       
       setSearchState({
         status: 'completed',
         progress: 100,
-        results: leads,
-        groundingSources
+        query,
+        results,
+        groundingSources: append ? [...(searchState.groundingSources || []), ...(groundingSources || [])] : groundingSources,
+        rejectedRows: rejected,
+        cancelled,
+        libraryNotice
       });
 
       backendService.logActivity({
@@ -76,24 +173,127 @@ export default function App(): React.ReactElement {
         userEmail: user.email,
         accountStatus: user.status,
         type: 'LEAD_GEN',
-        input: { niche, location },
-        output: { rowCount: leads.length, success: true }
+        input: { niche: query.niche, location: query.location, status: append ? 'FIND_MORE' : undefined },
+        output: {
+          rowCount: results.length - existing.length,
+          success: true,
+          rejectedCount: rejected.length,
+          rejectionReasons: schemaValidator.summarizeRejections(rejected),
+          cancelled
+        }
       });
 
-      const updatedUser = { ...user, totalQueriesUsed: user.totalQueriesUsed + 1 };
-      if (user.status === 'TRIAL') {
-        updatedUser.trialQueriesRemaining = Math.max(0, user.trialQueriesRemaining - 1);
+      setUser(planService.chargeQuery(user));
+
+    } catch (err: any) {
+      setSearchState((prev) => ({ ...prev, status: 'error', isAppending: false, error: err.message }));
+      // Auth failures mean this user's key is no longer good; send them back to the gate
+      if (credentialService.isAuthError(err)) {
+        handleUpdateUser(credentialService.markFailed(user));
       }
-      setUser(updatedUser);
-      backendService.updateUser(updatedUser);
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancelSearch = () => {
+    abortControllerRef.current?.abort();
+  };
 
+  const handleSearch = (niche: string, location: string, targetEmail: string, count: number) => {
+    if (!user) return;
+    runSearch({ niche, location, count: planService.clampResultCount(user, count) }, false);
+  };
+
+  const handleBatchSearch = async (niches: string[], locations: string[], count: number) => {
+    if (!user || !isVerified || planService.isLocked(user)) return;
+    let cells;
+    try {
+      cells = batchSearchService.expand(niches, locations);
     } catch (err: any) {
-      setSearchState((prev) => ({ ...prev, status: 'error', error: err.message }));
-      // If error suggests API issue, reset verification
-      if (err.message.includes('401') || err.message.includes('Unauthorized')) {
-        handleUpdateUser({ ...user, geminiKeyStatus: 'UNSET' });
+      setSearchState({ status: 'error', progress: 0, results: [], error: err.message });
+      return;
+    }
+
+    setSearchState({ status: 'searching', progress: 0, results: [], groundingSources: [], batch: cells });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const result = await batchSearchService.run(user, cells, {
+        count,
+        signal: controller.signal,
+        onCellUpdate: (cell) => setSearchState((prev) => {
+          const batch = (prev.batch || []).map(c => c.id === cell.id ? cell : c);
+          const finished = batch.filter(c => c.status !== 'QUEUED' && c.status !== 'RUNNING').length;
+          return { ...prev, batch, progress: Math.round((finished / batch.length) * 100) };
+        }),
+        onResults: (leads, groundingSources) => setSearchState((prev) => ({ ...prev, results: leads, groundingSources })),
+        onUserUpdate: setUser
+      });
+
+      setSearchState({
+        status: 'completed',
+        progress: 100,
+        results: result.leads,
+        groundingSources: result.groundingSources,
+        batch: result.cells,
+        cancelled: controller.signal.aborted,
+        libraryNotice: result.libraryNotice
+      });
+      setUser(result.user);
+    } catch (err: any) {
+      setSearchState((prev) => ({ ...prev, status: 'error', isAppending: false, error: err.message }));
+      if (credentialService.isAuthError(err)) {
+        handleUpdateUser(credentialService.markFailed(user));
       }
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleRemoveLeads = (removed: SEOAudit[]) => {
+    const keys = new Set(removed.map(leadKey));
+    setSearchState((prev) => ({ ...prev, results: prev.results.filter(l => !keys.has(leadKey(l))) }));
+  };
+
+  const handleUpdateLead = (updated: SEOAudit) => {
+    if (!user) return;
+    const key = leadKey(updated);
+    setSearchState((prev) => ({ ...prev, results: prev.results.map(l => leadKey(l) === key ? updated : l) }));
+    try {
+      backendService.updateStoredAudit(user.id, updated);
+    } catch (err: any) {
+      setSearchState((prev) => ({ ...prev, libraryNotice: err.message }));
+    }
+  };
+
+  const handleStartCampaign = (selected: SEOAudit[]) => {
+    const location = searchState.query?.location;
+    // Mailing businesses whose site does not exist hurts sender reputation
+    const live = selected.filter(audit => audit.verification?.status !== 'FAILED');
+    const leads = live.map(audit => toOutreachLead(audit, location)).filter((l): l is NonNullable<typeof l> => l !== null);
+    const unverified = selected.length - live.length;
+    const noEmail = live.length - leads.length;
+    if (leads.length === 0) {
+      alert('None of the selected leads has an email address and a verified website.');
+      return;
     }
+    const skippedReasons = [
+      noEmail > 0 && `${noEmail} without an email address`,
+      unverified > 0 && `${unverified} that failed website verification`,
+    ].filter(Boolean).join(' and ');
+    if (skippedReasons && !confirm(`Leaving out ${skippedReasons}. Continue with ${leads.length}?`)) return;
+
+    const niche = searchState.query?.niche;
+    const name = [niche, location].filter(Boolean).join(' - ') || 'Selected Leads';
+    setCampaignHandoff({ name: `${name} (${new Date().toLocaleDateString()})`, leads });
+    setActiveTab('OUTREACH');
+  };
+
+  const handleFindMore = () => {
+    if (!searchState.query) return;
+    runSearch(searchState.query, true);
   };
 
   if (!user) {
@@ -114,6 +314,20 @@ export default function App(): React.ReactElement {
             >
               Intelligence
             </button>
+            <button 
+              onClick={() => isVerified && setActiveTab('LIBRARY')}
+              disabled={!isVerified}
+              className={`px-8 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${!isVerified ? 'opacity-30 cursor-not-allowed' : ''} ${activeTab === 'LIBRARY' ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/20' : 'text-slate-500 hover:text-slate-800'}`}
+            >
+              Library
+            </button>
+            <button 
+              onClick={() => isVerified && setActiveTab('PIPELINE')}
+              disabled={!isVerified}
+              className={`px-8 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${!isVerified ? 'opacity-30 cursor-not-allowed' : ''} ${activeTab === 'PIPELINE' ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/20' : 'text-slate-500 hover:text-slate-800'}`}
+            >
+              Pipeline
+            </button>
             <button 
               onClick={() => isVerified && setActiveTab('OUTREACH')}
               disabled={!isVerified}
@@ -159,17 +373,85 @@ export default function App(): React.ReactElement {
             {activeTab === 'SEARCH' && (
               <div className="space-y-8">
                 <UpgradeSection user={user} onUpgrade={setUser} />
+                {notifications.length > 0 && (
+                  <div className="bg-emerald-50 border border-emerald-200 p-6 rounded-3xl flex items-start justify-between gap-6">
+                    <div>
+                      <h4 className="font-black text-emerald-700 uppercase tracking-widest text-xs mb-2">
+                        {notifications.reduce((sum, n) => sum + n.netNew.length, 0)} Net-New Businesses From Scheduled Runs
+                      </h4>
+                      <ul className="space-y-1">
+                        {notifications.map(n => (
+                          <li key={n.id} className="text-emerald-700 text-xs font-bold italic">
+                            • {n.searchName}: {n.netNew.slice(0, 5).map(l => l.businessName).join(', ')}{n.netNew.length > 5 ? ` +${n.netNew.length - 5} more` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <button onClick={handleDismissNotifications} className="text-[10px] font-black text-emerald-600 uppercase tracking-widest hover:text-emerald-800">Dismiss</button>
+                  </div>
+                )}
                 <InputSection 
                   onSearch={handleSearch} 
+                  onBatchSearch={handleBatchSearch}
                   isLoading={searchState.status === 'searching'} 
-                  isLocked={user.status === 'TRIAL' && user.trialQueriesRemaining <= 0}
+                  isLocked={planService.isLocked(user)}
+                  maxResults={planService.maxResultsPerRun(user)}
+                  unavailableReason={llmAdapter.supportsSearch(user) ? undefined : LEAD_GEN_NEEDS_SEARCH}
+                />
+                <SavedSearches
+                  user={user}
+                  lastQuery={searchState.query}
+                  version={savedSearchVersion}
+                  onUserUpdate={handleUpdateUser}
                 />
                 
-                {searchState.status === 'searching' && (
-                  <div className="py-32 text-center animate-pulse">
+                {searchState.batch && (
+                  <BatchGrid
+                    cells={searchState.batch}
+                    isRunning={searchState.status === 'searching'}
+                    onCancel={handleCancelSearch}
+                  />
+                )}
+
+                {searchState.status === 'searching' && !searchState.batch && (
+                  <div className={`text-center ${searchState.results.length > 0 || searchState.isAppending ? 'py-10' : 'py-32'}`}>
                     <div className="w-20 h-20 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-10 shadow-3xl shadow-blue-500/20"></div>
                     <h3 className="text-4xl font-black text-slate-900 uppercase italic tracking-tighter mb-4 leading-none">Mapping Nodes</h3>
-                    <p className="text-slate-500 font-mono text-[10px] uppercase tracking-[0.6em] italic">Accessing SERP Matrix • {searchState.progress}% SYNC</p>
+                    <p className="text-slate-500 font-mono text-[10px] uppercase tracking-[0.6em] italic mb-8">Accessing SERP Matrix • {searchState.progress}% SYNC</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {LEAD_GEN_STAGES.map((stage, i) => {
+                        const currentIdx = LEAD_GEN_STAGES.findIndex(s => s.id === searchState.stage);
+                        return (
+                          <span key={stage.id} className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${
+                            i < currentIdx ? 'bg-emerald-100 text-emerald-700' :
+                            i === currentIdx ? 'bg-blue-600 text-white animate-pulse' :
+                            'bg-slate-100 text-slate-400'
+                          }`}>
+                            {stage.label}
+                          </span>
+                        );
+                      })}
+                    </div>
+                    <button
+                      onClick={handleCancelSearch}
+                      className="mt-8 px-8 py-3 rounded-2xl border border-slate-200 bg-white text-[10px] font-black uppercase tracking-widest italic text-slate-500 hover:text-red-600 hover:border-red-200 transition-all"
+                    >
+                      Cancel Run
+                    </button>
+                  </div>
+                )}
+
+                {searchState.status === 'completed' && searchState.cancelled && (
+                  <div className="bg-slate-100 border border-slate-200 p-6 rounded-3xl flex items-center gap-6">
+                    <div className="bg-slate-700 text-white px-4 py-2 rounded-2xl font-black text-[10px] uppercase tracking-widest italic">Cancelled</div>
+                    <p className="text-slate-600 text-xs font-bold italic">Run stopped early. Rows gathered before cancelling were kept.</p>
+                  </div>
+                )}
+
+                {searchState.status === 'completed' && searchState.libraryNotice && (
+                  <div className="bg-amber-50 border border-amber-200 p-6 rounded-3xl flex items-center gap-6">
+                    <div className="bg-amber-500 text-white px-4 py-2 rounded-2xl font-black text-[10px] uppercase tracking-widest italic">Library</div>
+                    <p className="text-amber-700 text-xs font-bold italic">{searchState.libraryNotice}</p>
                   </div>
                 )}
 
@@ -185,14 +467,51 @@ export default function App(): React.ReactElement {
                   </div>
                 )}
 
+                {searchState.status === 'completed' && searchState.rejectedRows && searchState.rejectedRows.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 p-6 rounded-3xl flex items-start gap-6">
+                    <div className="bg-amber-500 text-white px-4 py-2 rounded-2xl font-black text-lg">{searchState.rejectedRows.length}</div>
+                    <div>
+                      <h4 className="font-black text-amber-700 uppercase tracking-widest text-xs mb-2">Rows Quarantined</h4>
+                      <ul className="space-y-1">
+                        {schemaValidator.summarizeRejections(searchState.rejectedRows).map((reason, i) => (
+                          <li key={i} className="text-amber-700 text-xs font-bold italic">• {reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+
                 {searchState.results.length > 0 && (
-                  <LeadsTable leads={searchState.results} groundingSources={searchState.groundingSources} />
+                  <LeadsTable
+                    userId={user.id}
+                    leads={searchState.results}
+                    groundingSources={searchState.groundingSources}
+                    location={searchState.query?.location}
+                    onFindMore={searchState.query && !planService.isLocked(user) ? handleFindMore : undefined}
+                    isFindingMore={searchState.status === 'searching' && !!searchState.isAppending}
+                    onRemoveLeads={handleRemoveLeads}
+                    onUpdateLead={handleUpdateLead}
+                    onStartCampaign={handleStartCampaign}
+                  />
                 )}
               </div>
             )}
 
+            {activeTab === 'LIBRARY' && (
+              <LeadLibrary user={user} />
+            )}
+
+            {activeTab === 'PIPELINE' && (
+              <PipelineBoard user={user} />
+            )}
+
             {activeTab === 'OUTREACH' && (
-              <EmailOutreach user={user} onUserUpdate={handleUpdateUser} />
+              <EmailOutreach
+                user={user}
+                onUserUpdate={handleUpdateUser}
+                handoff={campaignHandoff}
+                onHandoffConsumed={() => setCampaignHandoff(null)}
+              />
             )}
             
             {activeTab === 'ADMIN' && isAdmin && (
@@ -0,0 +1,185 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { FETCH_PROXY_PATH } from '../services/siteAuditor';
+
+/**
+ * Site Fetch Proxy
+ * Browsers cannot read third-party pages because of CORS, so the auditor,
+ * contact discovery and homepage snapshots fetch through this endpoint.
+ * Runs as a Vercel function in production and as Vite middleware in dev.
+ * Only the app's own pages may call it, and every host is resolved and
+ * refused when any of its addresses is private, on each redirect hop.
+ *
+ *   GET /api/fetch?url=https://example.com/
+ *   200 { url, finalUrl, status, ok, body, elapsedMs }  upstream answered (any HTTP status)
+ *   400 { error }                                       URL missing, malformed or not public
+ *   403 { error }                                       request did not come from the app
+ *   502 { error }                                       upstream could not be reached
+ */
+
+export { FETCH_PROXY_PATH };
+
+/** All addresses a hostname resolves to */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const USER_AGENT = 'Mozilla/5.0 (compatible; ClientEngineAuditor/1.0)';
+
+export interface ProxiedResource {
+  url: string;
+  finalUrl: string;
+  status: number;
+  ok: boolean;
+  body: string;
+  elapsedMs: number;
+}
+
+/** Hosts on the local network are refused so the proxy cannot reach internal services */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return true;
+  const v4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  return host === '::1' || host === '::' || /^f[cd][0-9a-f]{2}:/.test(host) || /^fe80:/.test(host) || host.startsWith('::ffff:');
+}
+
+const resolveHost: HostResolver = async hostname => (await lookup(hostname, { all: true, verbatim: true })).map(a => a.address);
+
+/** Error the handler answers with 400: the URL itself is not allowed */
+function refused(message: string): Error {
+  const error: any = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function publicUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw refused('Invalid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw refused('Only http and https URLs can be fetched');
+  if (isPrivateHost(url.hostname)) throw refused('Private network addresses cannot be fetched');
+  return url;
+}
+
+/**
+ * Public DNS names can point at internal addresses, so the name is resolved
+ * and refused if any answer is private. fetch() resolves again, which leaves
+ * a short rebinding window; the redirect loop re-checks every hop.
+ */
+async function publicAddressUrl(raw: string, resolve: HostResolver): Promise<URL> {
+  const url = publicUrl(raw);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return url;
+  let addresses: string[];
+  try {
+    addresses = await resolve(host);
+  } catch (err: any) {
+    throw new Error(err?.code || 'DNS lookup failed');
+  }
+  if (addresses.length === 0) throw new Error('ENOTFOUND');
+  if (addresses.some(isPrivateHost)) throw refused('Private network addresses cannot be fetched');
+  return url;
+}
+
+/**
+ * Browsers mark every request with Sec-Fetch-Site (older ones with Origin
+ * or Referer on cross-site calls), and another site's scripts cannot forge
+ * them, so third-party pages cannot drive the proxy.
+ */
+function fromApp(request: Request): boolean {
+  const own = new URL(request.url).origin;
+  const site = request.headers.get('sec-fetch-site');
+  if (site) return site === 'same-origin';
+  const caller = request.headers.get('origin') || request.headers.get('referer');
+  if (!caller) return false;
+  try {
+    return new URL(caller).origin === own;
+  } catch {
+    return false;
+  }
+}
+
+async function readCapped(response: Response): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_BODY_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+  const bytes = new Uint8Array(Math.min(size, MAX_BODY_BYTES));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Fetches a public URL, following redirects by hand so every hop is checked.
+ * Refused URLs ("Invalid URL", "…cannot be fetched") throw with status 400;
+ * network failures throw without one.
+ */
+export async function fetchPublicUrl(target: string, resolve: HostResolver = resolveHost): Promise<ProxiedResource> {
+  let url = await publicAddressUrl(target, resolve);
+  const started = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    for (let hop = 0; ; hop++) {
+      const response = await fetch(url, { redirect: 'manual', signal: controller.signal, headers: { 'User-Agent': USER_AGENT } });
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (hop >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+        url = await publicAddressUrl(new URL(location, url).href, resolve);
+        continue;
+      }
+      return {
+        url: target,
+        finalUrl: url.href,
+        status: response.status,
+        ok: response.ok,
+        body: await readCapped(response),
+        elapsedMs: Date.now() - started,
+      };
+    }
+  } catch (err: any) {
+    if (err?.status) throw err;
+    if (controller.signal.aborted) throw new Error(`Timed out after ${TIMEOUT_MS / 1000}s`);
+    throw new Error(err?.cause?.code || err?.message || 'Request failed');
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function json(status: number, payload: unknown): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+export async function GET(request: Request): Promise<Response> {
+  if (!fromApp(request)) return json(403, { error: 'The fetch proxy only serves this app' });
+  const target = new URL(request.url).searchParams.get('url') || '';
+  if (!target) return json(400, { error: 'Missing url parameter' });
+  try {
+    return json(200, await fetchPublicUrl(target));
+  } catch (err: any) {
+    return json(err.status || 502, { error: err.message });
+  }
+}
@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { backendService } from '../services/backendService';
-import { ActivityLog, User, SentEmail, Campaign } from '../types';
+import { ActivityLog, User, SentEmail, Campaign, ScoringWeights } from '../types';
+import { DEFAULT_SCORING_WEIGHTS, SCORING_WEIGHT_LABELS } from '../services/scoringService';
 
 interface Props {
   onExit: () => void;
@@ -12,7 +13,9 @@ const AdminDashboard: React.FC<Props> = ({ onExit }) => {
   const [users, setUsers] = useState<User[]>([]);
   const [sentEmails, setSentEmails] = useState<SentEmail[]>([]);
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
-  const [view, setView] = useState<'LOGS' | 'USERS' | 'SENT' | 'CAMPAIGNS' | 'USER_DETAIL'>('LOGS');
+  const [view, setView] = useState<'LOGS' | 'USERS' | 'SENT' | 'CAMPAIGNS' | 'USER_DETAIL' | 'SCORING'>('LOGS');
+  const [weights, setWeights] = useState<ScoringWeights>(DEFAULT_SCORING_WEIGHTS);
+  const [weightsSaved, setWeightsSaved] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -26,6 +29,7 @@ const AdminDashboard: React.FC<Props> = ({ onExit }) => {
     setUsers(fetchedUsers || []);
     setSentEmails(fetchedSent || []);
     setCampaigns(fetchedCampaigns || []);
+    setWeights(backendService.getScoringWeights());
     setTimeout(() => setLoading(false), 500);
   }, []);
 
@@ -51,6 +55,12 @@ const AdminDashboard: React.FC<Props> = ({ onExit }) => {
     return { user, campaigns: userCampaigns, emails: userEmails, logs: userLogs };
   }, [selectedUserId, users, campaigns, sentEmails, logs]);
 
+  const handleSaveWeights = () => {
+    backendService.saveScoringWeights(weights);
+    setWeightsSaved(true);
+    setTimeout(() => setWeightsSaved(false), 2000);
+  };
+
   if (loading) {
     return (
       <div className="min-h-[700px] flex flex-col items-center justify-center bg-slate-950 rounded-[3rem] text-slate-600">
@@ -77,6 +87,7 @@ const AdminDashboard: React.FC<Props> = ({ onExit }) => {
           <button onClick={() => setView('USERS')} className={`px-6 py-3 rounded-2xl text-[9px] font-black tracking-widest uppercase transition-all ${view === 'USERS' || view === 'USER_DETAIL' ? 'bg-blue-600 text-white shadow-2xl' : 'text-slate-500 hover:text-slate-300'}`}>Subscribers</button>
           <button onClick={() => setView('CAMPAIGNS')} className={`px-6 py-3 rounded-2xl text-[9px] font-black tracking-widest uppercase transition-all ${view === 'CAMPAIGNS' ? 'bg-blue-600 text-white shadow-2xl' : 'text-slate-500 hover:text-slate-300'}`}>Missions</button>
           <button onClick={() => setView('SENT')} className={`px-6 py-3 rounded-2xl text-[9px] font-black tracking-widest uppercase transition-all ${view === 'SENT' ? 'bg-blue-600 text-white shadow-2xl' : 'text-slate-500 hover:text-slate-300'}`}>Dispatch Logs</button>
+          <button onClick={() => setView('SCORING')} className={`px-6 py-3 rounded-2xl text-[9px] font-black tracking-widest uppercase transition-all ${view === 'SCORING' ? 'bg-blue-600 text-white shadow-2xl' : 'text-slate-500 hover:text-slate-300'}`}>Scoring</button>
           <button onClick={onExit} className="px-6 py-3 text-slate-400 hover:text-red-500 transition-colors text-[9px] font-black uppercase tracking-widest">Logout</button>
         </div>
       </div>
@@ -122,9 +133,21 @@ const AdminDashboard: React.FC<Props> = ({ onExit }) => {
                       }`}>
                         {log.type}
                       </span>
+                      {log.input.status && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-[8px] font-black tracking-widest bg-slate-800 text-slate-400" title={log.input.batchId}>{log.input.status}</span>
+                      )}
+                      {log.type === 'LEAD_GEN' && log.input.niche && (
+                        <div className="text-[9px] font-bold text-slate-500 italic mt-1">{log.input.niche} • {log.input.location}</div>
+                      )}
                     </td>
                     <td className="py-6 px-8 text-right rounded-r-[2rem] border-r border-slate-800">
                       <div className="text-xs font-black text-blue-500">{log.output.sentCount || log.output.rowCount || (log.output.success ? 'OK' : 'ERR')}</div>
+                      {!!log.output.rejectedCount && (
+                        <div className="text-[8px] font-black text-amber-500 uppercase tracking-widest mt-1" title={log.output.rejectionReasons?.join('\n')}>{log.output.rejectedCount} Rejected</div>
+                      )}
+                      {log.output.cancelled && (
+                        <div className="text-[8px] font-black text-slate-500 uppercase tracking-widest mt-1">Cancelled</div>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -276,6 +299,36 @@ const AdminDashboard: React.FC<Props> = ({ onExit }) => {
            </div>
         )}
 
+        {view === 'SCORING' && (
+           <div className="bg-slate-900 rounded-[3rem] border border-slate-800 p-10">
+              <div className="flex flex-col md:flex-row justify-between md:items-center gap-6 mb-10 border-b border-slate-800 pb-8">
+                 <div>
+                    <h4 className="text-[11px] font-black text-white uppercase tracking-widest italic mb-2">Opportunity Scoring Weights</h4>
+                    <p className="text-[10px] text-slate-500 font-bold">Applied to every new search. Scores are clamped to 0–100.</p>
+                 </div>
+                 <div className="flex gap-3">
+                    <button onClick={() => setWeights(DEFAULT_SCORING_WEIGHTS)} className="px-6 py-3 rounded-2xl text-[9px] font-black tracking-widest uppercase text-slate-400 border border-slate-700 hover:text-white">Reset Defaults</button>
+                    <button onClick={handleSaveWeights} className="px-6 py-3 rounded-2xl text-[9px] font-black tracking-widest uppercase bg-blue-600 text-white hover:bg-blue-500">{weightsSaved ? 'Saved' : 'Save Weights'}</button>
+                 </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                 {(Object.keys(SCORING_WEIGHT_LABELS) as (keyof ScoringWeights)[]).map(key => (
+                    <label key={key} className="flex items-center justify-between gap-4 bg-slate-950/50 p-5 rounded-2xl border border-slate-800">
+                       <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{SCORING_WEIGHT_LABELS[key]}</span>
+                       <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={weights[key]}
+                          onChange={e => setWeights({ ...weights, [key]: Math.max(0, Number(e.target.value) || 0) })}
+                          className="w-20 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-white font-mono text-xs text-right outline-none focus:border-blue-500"
+                       />
+                    </label>
+                 ))}
+              </div>
+           </div>
+        )}
+
         {view === 'CAMPAIGNS' && (
            <div className="overflow-x-auto">
               <table className="w-full text-left border-separate border-spacing-y-3">
@@ -78,6 +78,7 @@ const ApiKeyGate: React.FC<Props> = ({ user, onSuccess }) => {
       ...user,
       activeAiProvider: isAdvanced ? 'CUSTOM' : 'GEMINI',
       geminiApiKey: key,
+      geminiKeySource: key ? 'USER' : 'PLATFORM',
       geminiKeyStatus: 'VERIFIED',
       apiKeyVerifiedAt: new Date().toISOString(),
     };
@@ -2,7 +2,14 @@
 import React, { useState } from 'react';
 import { User, ApiConfig } from '../types';
 import { backendService } from '../services/backendService';
-import { verifyGenericApi } from '../geminiService';
+import { verifyGenericApi, verifyOpenAiCompatible } from '../geminiService';
+
+type Protocol = 'OPENAI' | 'CUSTOM';
+
+const PROTOCOL_DEFAULTS: Record<Protocol, Partial<ApiConfig>> = {
+  OPENAI: { baseUrl: 'https://api.openai.com/v1', authType: 'Bearer', testEndpoint: '/models', model: 'gpt-4o-mini' },
+  CUSTOM: { baseUrl: '', authType: 'API-Key', testEndpoint: '', completionEndpoint: '' },
+};
 
 interface Props {
   user: User;
@@ -14,20 +21,27 @@ const ApiKeyInput: React.FC<Props> = ({ user, onSuccess, onBack }) => {
   const [isVerifying, setIsVerifying] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [statusMsg, setStatusMsg] = useState<string | null>(null);
+  const [protocol, setProtocol] = useState<Protocol>('CUSTOM');
   
   const [config, setConfig] = useState<ApiConfig>({
     providerName: 'Custom AI Node',
     apiKey: '',
-    baseUrl: 'https://generativelanguage.googleapis.com',
+    baseUrl: '',
     authType: 'API-Key',
-    testEndpoint: '/v1beta/models'
+    testEndpoint: '',
+    completionEndpoint: ''
   });
 
   const isFormComplete = 
     config.providerName.trim() !== '' &&
     config.apiKey.trim() !== '' && 
     config.baseUrl.trim() !== '' && 
-    config.testEndpoint.trim() !== '';
+    (protocol === 'OPENAI' || (config.completionEndpoint || '').trim() !== '');
+
+  const switchProtocol = (next: Protocol) => {
+    setProtocol(next);
+    setConfig({ ...config, ...PROTOCOL_DEFAULTS[next] });
+  };
 
   const handleVerify = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,18 +53,29 @@ const ApiKeyInput: React.FC<Props> = ({ user, onSuccess, onBack }) => {
 
     try {
       // Execute REAL-TIME HTTP handshake via geminiService
-      const result = await verifyGenericApi(config);
+      const result = protocol === 'OPENAI'
+        ? await verifyOpenAiCompatible(config)
+        : await verifyGenericApi(config);
 
       if (result.valid) {
         setStatusMsg(`UPLINK ESTABLISHED (HTTP ${result.status})`);
         
-        const updatedUser: User = {
-          ...user,
-          activeAiProvider: 'CUSTOM',
-          geminiKeyStatus: 'VERIFIED',
-          apiConfig: config,
-          apiKeyVerifiedAt: new Date().toISOString(),
-        };
+        const updatedUser: User = protocol === 'OPENAI'
+          ? {
+              ...user,
+              activeAiProvider: 'OPENAI',
+              openaiApiKey: config.apiKey,
+              openaiKeyStatus: 'VERIFIED',
+              apiConfig: config,
+              apiKeyVerifiedAt: new Date().toISOString(),
+            }
+          : {
+              ...user,
+              activeAiProvider: 'CUSTOM',
+              geminiKeyStatus: 'VERIFIED',
+              apiConfig: config,
+              apiKeyVerifiedAt: new Date().toISOString(),
+            };
         
         backendService.updateUser(updatedUser);
         
@@ -101,6 +126,20 @@ const ApiKeyInput: React.FC<Props> = ({ user, onSuccess, onBack }) => {
         )}
 
         <form onSubmit={handleVerify} className="p-10 space-y-6">
+          <div className="grid grid-cols-2 gap-2 bg-[#151B26] p-1.5 rounded-2xl border border-slate-800">
+            {(['OPENAI', 'CUSTOM'] as Protocol[]).map(p => (
+              <button
+                key={p}
+                type="button"
+                onClick={() => switchProtocol(p)}
+                className={`py-3 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${protocol === p ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {p === 'OPENAI' ? 'OpenAI-Compatible' : 'Generic HTTP'}
+              </button>
+            ))}
+          </div>
+          <p className="text-amber-500 text-[9px] font-black uppercase tracking-widest text-center">Lead generation is disabled on this provider: it needs Gemini search grounding • drafting and validation still work</p>
+
           <div className="space-y-2">
             <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-4">Provider Label</label>
             <input 
@@ -116,13 +155,14 @@ const ApiKeyInput: React.FC<Props> = ({ user, onSuccess, onBack }) => {
             <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-4">Base Infrastructure URL</label>
             <input 
               type="url"
+              placeholder="https://llm.your-agency.com"
               className="w-full bg-[#151B26] border border-slate-800 rounded-2xl px-6 py-4 text-blue-400 font-mono text-xs outline-none focus:border-blue-500 transition-all"
               value={config.baseUrl}
               onChange={e => setConfig({...config, baseUrl: e.target.value})}
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-6">
+          {protocol === 'CUSTOM' && (
             <div className="space-y-2">
               <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-4">Auth Type</label>
               <select 
@@ -134,15 +174,30 @@ const ApiKeyInput: React.FC<Props> = ({ user, onSuccess, onBack }) => {
                 <option value="Bearer">Bearer Token</option>
               </select>
             </div>
+          )}
+
+          {protocol === 'CUSTOM' && (
             <div className="space-y-2">
-              <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-4">Ping Endpoint</label>
+              <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-4">Completion Endpoint (verified with a test completion)</label>
               <input 
                 type="text"
+                placeholder="e.g. /v1/generate"
                 className="w-full bg-[#151B26] border border-slate-800 rounded-2xl px-6 py-4 text-slate-300 font-mono text-xs outline-none"
-                value={config.testEndpoint}
-                onChange={e => setConfig({...config, testEndpoint: e.target.value})}
+                value={config.completionEndpoint || ''}
+                onChange={e => setConfig({...config, completionEndpoint: e.target.value})}
               />
             </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest ml-4">Model</label>
+            <input 
+              type="text"
+              className="w-full bg-[#151B26] border border-slate-800 rounded-2xl px-6 py-4 text-slate-300 font-mono text-xs outline-none"
+              placeholder={protocol === 'OPENAI' ? 'gpt-4o-mini' : 'Optional'}
+              value={config.model || ''}
+              onChange={e => setConfig({...config, model: e.target.value})}
+            />
           </div>
 
           <div className="space-y-2">
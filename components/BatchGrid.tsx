@@ -0,0 +1,82 @@
+import React from 'react';
+import { BatchCell, BatchCellStatus } from '../types';
+
+interface Props {
+  cells: BatchCell[];
+  isRunning: boolean;
+  onCancel?: () => void;
+}
+
+const STATUS_STYLES: Record<BatchCellStatus, string> = {
+  QUEUED: 'bg-slate-50 text-slate-400 border-slate-100',
+  RUNNING: 'bg-blue-600 text-white border-blue-600 animate-pulse',
+  DONE: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  ERROR: 'bg-red-50 text-red-600 border-red-200',
+  SKIPPED: 'bg-amber-50 text-amber-700 border-amber-200',
+  CANCELLED: 'bg-slate-100 text-slate-500 border-slate-200',
+};
+
+const BatchGrid: React.FC<Props> = ({ cells, isRunning, onCancel }) => {
+  const niches = cells.map(c => c.niche).filter((n, i, all) => all.indexOf(n) === i);
+  const locations = cells.map(c => c.location).filter((l, i, all) => all.indexOf(l) === i);
+  const finished = cells.filter(c => c.status !== 'QUEUED' && c.status !== 'RUNNING').length;
+  // Every cell that returned results was billed, including ones stopped part-way
+  const charged = cells.filter(c => c.leadCount !== undefined).length;
+
+  const cellAt = (niche: string, location: string) => cells.find(c => c.niche === niche && c.location === location);
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="font-black text-slate-900 uppercase italic tracking-tighter">Batch Grid</h3>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            {finished}/{cells.length} jobs finished • {charged} {charged === 1 ? 'query' : 'queries'} charged
+          </p>
+        </div>
+        {isRunning && onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-6 py-2 rounded-2xl border border-slate-200 bg-white text-[10px] font-black uppercase tracking-widest italic text-slate-500 hover:text-red-600 hover:border-red-200 transition-all"
+          >
+            Cancel Batch
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto p-6">
+        <table className="text-xs border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th></th>
+              {locations.map(location => (
+                <th key={location} className="px-2 pb-2 text-[10px] font-black text-slate-500 uppercase tracking-widest text-left whitespace-nowrap">{location}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {niches.map(niche => (
+              <tr key={niche}>
+                <th className="pr-4 text-[10px] font-black text-slate-700 uppercase tracking-widest text-left whitespace-nowrap">{niche}</th>
+                {locations.map(location => {
+                  const cell = cellAt(niche, location);
+                  if (!cell) return <td key={location}></td>;
+                  return (
+                    <td key={location} title={cell.error || ''} className={`min-w-[110px] px-3 py-2 rounded-xl border font-bold ${STATUS_STYLES[cell.status]}`}>
+                      <div className="text-[9px] uppercase tracking-widest">{cell.status}</div>
+                      {cell.leadCount !== undefined && (
+                        <div className="text-[10px] font-mono">{cell.leadCount} found • {cell.newCount ?? 0} new</div>
+                      )}
+                      {cell.error && <div className="text-[9px] truncate max-w-[140px]">{cell.error}</div>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchGrid;
@@ -1,18 +1,48 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { User, OutreachLead, SentEmail, Campaign, DraftEmail } from '../types.ts';
+import { User, OutreachLead, SentEmail, Campaign, DraftEmail, RejectedRow, CampaignHandoff, ValidationStatus } from '../types.ts';
 import { backendService } from '../services/backendService.ts';
+import { schemaValidator } from '../services/schemaValidator.ts';
 import { processOutreachWithAgent, validateEmailsAgent } from '../geminiService.ts';
 import { smtpService } from '../services/smtpService.ts';
+import { credentialService } from '../services/credentialService.ts';
+import { isAbortError } from '../services/abortUtils.ts';
+import { reportService } from '../services/reportService.ts';
+import IntakeMapper from './IntakeMapper.tsx';
+import { leadImport, IntakePreview } from '../services/leadImport.ts';
+import { pipelineService } from '../services/pipelineService.ts';
+import { emailVerifier } from '../services/emailVerifier.ts';
+import { templateEngine, TemplateIssue } from '../services/templateEngine.ts';
+import { personalizationService, PersonalizationSettings, SenderIdentity, DEFAULT_PERSONALIZATION, TONE_PRESETS, LENGTH_PRESETS, CTA_PRESETS } from '../services/personalizationService.ts';
 
 interface Props {
   user: User;
   onUserUpdate: (user: User) => void;
+  /** Leads sent over from the results table; opens a new campaign at validation */
+  handoff?: CampaignHandoff | null;
+  onHandoffConsumed?: () => void;
 }
 
-type OutreachStep = 'HISTORY' | 'AUTH_GATE' | 'INTAKE' | 'VALIDATION' | 'OPTIONS' | 'CONFIG' | 'GENERATING' | 'REVIEW' | 'SENDING' | 'SUMMARY' | 'CAMPAIGN_DETAIL';
+const VALIDATION_ROWS: { status: ValidationStatus; label: string; color: string }[] = [
+  { status: 'VALID', label: 'Valid', color: 'text-emerald-500' },
+  { status: 'RISKY', label: 'Risky', color: 'text-amber-500' },
+  { status: 'INVALID', label: 'Invalid', color: 'text-red-500' },
+  { status: 'UNCHECKED', label: 'Unchecked', color: 'text-slate-400' },
+];
 
-const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
+/** First clause of the reason most leads in the group share */
+function topReason(leads: OutreachLead[]): string | undefined {
+  const counts = new Map<string, number>();
+  leads.forEach(l => {
+    const reason = (l.validationReason || '').split(';')[0].trim();
+    if (reason) counts.set(reason, (counts.get(reason) || 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+type OutreachStep = 'HISTORY' | 'AUTH_GATE' | 'INTAKE' | 'MAPPING' | 'VALIDATION' | 'OPTIONS' | 'CONFIG' | 'GENERATING' | 'REVIEW' | 'SENDING' | 'SUMMARY' | 'CAMPAIGN_DETAIL';
+
+const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate, handoff, onHandoffConsumed }) => {
   const isVerified = user.emailConnection?.status === 'VERIFIED';
   
   const [step, setStep] = useState<OutreachStep>('HISTORY');
@@ -22,7 +52,7 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
   const [leads, setLeads] = useState< OutreachLead[]>([]);
   const [drafts, setDrafts] = useState<DraftEmail[]>([]);
   const [subject, setSubject] = useState('Personalized SEO Strategy for {Business_Name}');
-  const [body, setBody] = useState('Hi {Business_Name},\n\nI was reviewing {Website} and noticed a few SEO issues that are likely holding back your rankings.\n\nWould you be open to a quick chat about fixing these?\n\nBest,\n[Your Name]');
+  const [body, setBody] = useState('Hi {Business_Name|there},\n\nI was reviewing {Website|your website} and noticed a few SEO issues that are likely holding back your rankings.{#if SEO_Errors} The biggest one: {Top_Issue}.{/if}\n\nWould you be open to a quick chat about fixing these?\n\nBest,\n[Your Name]');
   
   const [isScheduled, setIsScheduled] = useState(false);
   const [scheduledDateTime, setScheduledDateTime] = useState('');
@@ -31,18 +61,67 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
   const [results, setResults] = useState<any>(null);
   const [errorDetail, setErrorDetail] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [validationProgress, setValidationProgress] = useState({ done: 0, total: 0 });
+  const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([]);
+  const [intakeRejected, setIntakeRejected] = useState<RejectedRow[]>([]);
+  const [intakeFile, setIntakeFile] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const [draftRepairCount, setDraftRepairCount] = useState(0);
   const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [attachReport, setAttachReport] = useState(false);
+  const [aiTieBreak, setAiTieBreak] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [personalization, setPersonalization] = useState<PersonalizationSettings>(DEFAULT_PERSONALIZATION);
+  // Bumped to re-read campaign stats after an open is recorded by hand
+  const [, setDetailVersion] = useState(0);
 
-  const isAbortedRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const logEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
   const REQUIRED_SCOPE = "https://www.googleapis.com/auth/gmail.send";
 
   useEffect(() => {
     logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [transmissionLogs]);
 
+  // Only read the library on the screens that show report availability
+  const storedAudits = useMemo(() => {
+    return step === 'CONFIG' || step === 'REVIEW' ? reportService.auditsByDomain(user.id) : new Map();
+  }, [step, user.id]);
+  const reportableCount = leads.filter(l => reportService.findAudit(storedAudits, l.website)).length;
+
+  /* ===== Template preview ===== */
+
+  const senderEmail = user.emailConnection?.email || user.email;
+  const sender = useMemo<SenderIdentity>(() => {
+    const branding = reportService.getBranding(user.id);
+    return { name: branding.senderName || user.name, email: senderEmail, agency: branding.agencyName };
+  }, [user.id, user.name, senderEmail]);
+  const recipients = useMemo(() => leads.filter(l => l.validationStatus !== 'INVALID'), [leads]);
+  const previewLead = recipients[Math.min(previewIndex, recipients.length - 1)];
+  const availableTags = useMemo(() => templateEngine.availableTags(recipients), [recipients]);
+
+  const templateIssues = useMemo(() => {
+    if (step !== 'CONFIG') return [];
+    const prefixed = (label: string, template: string): TemplateIssue[] =>
+      templateEngine.check(template, recipients, { senderEmail }).map(i => ({ ...i, message: `${label}: ${i.message}` }));
+    return [...prefixed('Subject', subject), ...prefixed('Body', body)];
+  }, [step, subject, body, recipients, senderEmail]);
+  const hasTemplateErrors = templateIssues.some(i => i.severity === 'error');
+  const previewBrief = useMemo(() => {
+    if (step !== 'CONFIG' || mode !== 'AI_CUSTOM' || !previewLead) return null;
+    return personalizationService.buildBrief(previewLead, sender, reportService.findAudit(storedAudits, previewLead.website));
+  }, [step, mode, previewLead, sender, storedAudits]);
+
+  // Inserts at the cursor so tags land where the user is typing
+  const insertTag = (tag: string) => {
+    const el = bodyRef.current;
+    const start = el ? el.selectionStart : body.length;
+    const end = el ? el.selectionEnd : body.length;
+    setBody(body.slice(0, start) + `{${tag}}` + body.slice(end));
+  };
+
   const historicalCampaigns = useMemo(() => {
     return backendService.getCampaigns(user.id).filter(c => 
       c.name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -50,10 +129,15 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
   }, [user.id, searchQuery]);
 
   const resetFlow = () => {
-    isAbortedRef.current = false;
+    abortControllerRef.current?.abort();
     setCampaignName('');
     setLeads([]);
     setDrafts([]);
+    setRejectedRows([]);
+    setIntakeRejected([]);
+    setIntakeFile(null);
+    setPreviewIndex(0);
+    setDraftRepairCount(0);
     setProgress(0);
     setTransmissionLogs([]);
     setErrorDetail(null);
@@ -90,57 +174,192 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
       };
       backendService.updateUser(updatedUser);
       onUserUpdate(updatedUser);
-      setStep('INTAKE');
+      // Handed-off leads are already loaded, so skip the upload step
+      if (leads.length > 0) {
+        runMailValidator();
+      } else {
+        setStep('INTAKE');
+      }
     } catch (err: any) {
       setErrorDetail(err.message);
     }
   };
 
-  const runMailValidator = async () => {
-    if (leads.length === 0) return;
+  const handleIntakeFile = async (file: File) => {
+    try {
+      const rows = await leadImport.readFile(file);
+      if (rows.length === 0) throw new Error('The file has no rows.');
+      setIntakeFile({ fileName: file.name, rows });
+      setStep('MAPPING');
+    } catch (err: any) {
+      alert("Intake Fault: " + err.message);
+    }
+  };
+
+  const handleIntakeImport = (preview: IntakePreview) => {
+    setLeads(preview.leads);
+    setIntakeRejected(preview.invalid);
+    setStep('INTAKE');
+  };
+
+  // Swaps in the suggested spelling and re-checks just that address
+  const applySuggestion = async (lead: OutreachLead) => {
+    if (!lead.suggestedEmail) return;
+    const [fixed] = await emailVerifier.verifyLeads([{ ...lead, email: lead.suggestedEmail, suggestedEmail: undefined }]);
+    setLeads(prev => prev.map(l => l.email === lead.email ? fixed : l));
+  };
+
+  const beginOperation = (): AbortSignal => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const cancelOperation = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const logCancelled = (status: string, rowCount: number, sentCount?: number) => {
+    backendService.logActivity({
+      id: `LOG-${Date.now()}`,
+      timestamp: new Date().toISOString(),
+      userId: user.id,
+      userEmail: user.email,
+      accountStatus: user.status,
+      type: 'CAMPAIGN',
+      input: { campaignName, mode, status },
+      output: { rowCount, sentCount, success: true, cancelled: true }
+    });
+  };
+
+  const runMailValidator = async (target: OutreachLead[] = leads) => {
+    if (target.length === 0) return;
     setIsValidating(true);
     setStep('VALIDATION');
+    setValidationProgress({ done: 0, total: target.length });
+    const signal = beginOperation();
+    let checked = 0;
     try {
-      const validated = await validateEmailsAgent(leads);
+      // Partial results land as each chunk finishes, so a cancel keeps them
+      const { leads: validated, rejected } = await validateEmailsAgent(user, target, signal, {
+        aiTieBreak,
+        onChunk: (merged, done, total) => {
+          checked = done;
+          setLeads(merged);
+          setValidationProgress({ done, total });
+        }
+      });
       setLeads(validated);
+      setRejectedRows(rejected);
+      backendService.logActivity({
+        id: `LOG-${Date.now()}`,
+        timestamp: new Date().toISOString(),
+        userId: user.id,
+        userEmail: user.email,
+        accountStatus: user.status,
+        type: 'VALIDATION',
+        input: { campaignName, emailCount: target.length },
+        output: {
+          rowCount: validated.length,
+          success: true,
+          validCount: validated.filter(l => l.validationStatus === 'VALID').length,
+          rejectedCount: rejected.length,
+          rejectionReasons: schemaValidator.summarizeRejections(rejected)
+        }
+      });
     } catch (err: any) { 
+      if (isAbortError(err, signal)) {
+        logCancelled('VALIDATING', checked);
+        return;
+      }
       console.error(err);
+      if (credentialService.isAuthError(err)) {
+        onUserUpdate(credentialService.markFailed(user));
+        return;
+      }
       alert("AI Validation Node Fault: " + err.message);
     }
     finally { setIsValidating(false); }
   };
 
+  // Picks up leads handed over from the results table. Validation runs on the
+  // next render so the log entry sees the new campaign name.
+  const validateHandoffRef = useRef(false);
+  useEffect(() => {
+    if (!handoff) return;
+    abortControllerRef.current?.abort();
+    setCampaignName(handoff.name);
+    setLeads(handoff.leads);
+    setDrafts([]);
+    setRejectedRows([]);
+    setIntakeRejected([]);
+    setErrorDetail(null);
+    if (isVerified) {
+      validateHandoffRef.current = true;
+    } else {
+      setStep('AUTH_GATE');
+    }
+    onHandoffConsumed?.();
+  }, [handoff]);
+
+  useEffect(() => {
+    if (!validateHandoffRef.current) return;
+    validateHandoffRef.current = false;
+    runMailValidator();
+  }, [leads]);
+
   const generateDrafts = async () => {
-    isAbortedRef.current = false;
+    const signal = beginOperation();
     setStep('GENERATING');
     setProgress(0);
+    setDraftRepairCount(0);
     const newDrafts: DraftEmail[] = [];
-    const validLeads = leads.filter(l => l.validationStatus !== 'INVALID');
+    const validLeads = recipients;
+    const audits = mode === 'AI_CUSTOM' ? reportService.auditsByDomain(user.id) : new Map();
 
     for (let i = 0; i < validLeads.length; i++) {
-      if (isAbortedRef.current) break;
+      if (signal.aborted) break;
       const lead = validLeads[i];
       try {
-        const res = await processOutreachWithAgent(lead, user.emailConnection?.email || user.email, subject, body, mode);
+        const res = await processOutreachWithAgent(user, lead, subject, body, {
+          mode,
+          sender,
+          settings: personalization,
+          audit: reportService.findAudit(audits, lead.website),
+        }, signal);
+        if (res.snapshotError) {
+          setTransmissionLogs(prev => [...prev, `⚠️ Homepage not read for ${lead.email}: ${res.snapshotError}`]);
+        }
+        if (res.repairError) {
+          setDraftRepairCount(prev => prev + 1);
+          setTransmissionLogs(prev => [...prev, `⚠️ Draft repaired for ${lead.email}: ${res.repairError}`]);
+        }
         newDrafts.push({
           id: `DFT-${i}-${Date.now()}`,
           recipient: lead.email,
           businessName: lead.businessName || 'Owner',
+          website: lead.website,
           subject: res.args.subject,
           body: res.args.body
         });
       } catch (err: any) { 
+        if (isAbortError(err, signal)) break;
         console.error("Drafting Failed", err); 
+        if (credentialService.isAuthError(err)) {
+          onUserUpdate(credentialService.markFailed(user));
+          return;
+        }
         setTransmissionLogs(prev => [...prev, `⚠️ Drafting Error for ${lead.email}: ${err.message}`]);
       }
       setProgress(Math.round(((i + 1) / validLeads.length) * 100));
     }
-    if (!isAbortedRef.current) {
-      setDrafts(newDrafts);
-      setStep('REVIEW');
-    } else {
-      setStep('OPTIONS');
+    // Drafts finished before a cancel are kept for review
+    if (signal.aborted) {
+      logCancelled('DRAFTING', newDrafts.length);
+      setTransmissionLogs(prev => [...prev, `⏹ Drafting cancelled after ${newDrafts.length} of ${validLeads.length}`]);
     }
+    setDrafts(newDrafts);
+    setStep(newDrafts.length > 0 ? 'REVIEW' : 'CONFIG');
   };
 
   const executeDispatch = async () => {
@@ -156,7 +375,7 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
         userId: user.id,
         name: campaignName,
         mode,
-        fileName: 'manual_ingest.csv',
+        fileName: intakeFile?.fileName || 'manual_ingest.csv',
         senderEmail: user.emailConnection?.email || user.email,
         scheduledTime: scheduledDateTime,
         stats: { total: drafts.length, sent: 0, failed: 0, pending: drafts.length, opened: 0 },
@@ -171,6 +390,7 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
             campaignId,
             recipient: draft.recipient,
             businessName: draft.businessName,
+            website: draft.website,
             subject: draft.subject,
             body: draft.body,
             status: 'SCHEDULED',
@@ -187,60 +407,74 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
     setStep('SENDING');
     setProgress(0);
     setTransmissionLogs([`Broadcasting mission: ${campaignName}`]);
-    isAbortedRef.current = false;
+    const signal = beginOperation();
     let sentCount = 0;
     let failedCount = 0;
+    const branding = reportService.getBranding(user.id);
+    const audits = attachReport ? reportService.auditsByDomain(user.id) : new Map();
 
     for (let i = 0; i < drafts.length; i++) {
-      if (isAbortedRef.current) break;
+      if (signal.aborted) break;
       const draft = drafts[i];
       try {
+        const audit = reportService.findAudit(audits, draft.website);
         const res = await smtpService.dispatch({
           to: draft.recipient,
           subject: draft.subject,
           body: draft.body,
           sender: user.emailConnection?.email || user.email,
-          accessToken: accessToken
-        });
+          accessToken: accessToken,
+          attachments: audit ? [{ fileName: reportService.fileName(audit), mimeType: 'text/html', content: reportService.buildHtml(audit, branding) }] : undefined
+        }, signal);
         if (res.success) {
           sentCount++;
-          backendService.logSentEmail({
+          const sent: SentEmail = {
             id: res.messageId!,
             campaignId,
             recipient: draft.recipient,
             businessName: draft.businessName,
+            website: draft.website,
             subject: draft.subject,
             body: draft.body,
             status: 'SENT',
             opened: false,
             timestamp: new Date().toISOString()
-          });
+          };
+          backendService.logSentEmail(sent);
           setTransmissionLogs(prev => [...prev, `🚀 ACK: ${draft.recipient}`]);
+          // The mail is out either way, so a full library only costs the pipeline move
+          try {
+            pipelineService.recordEmailEvent(user.id, sent, 'EMAIL_SENT');
+          } catch (err: any) {
+            setTransmissionLogs(prev => [...prev, `⚠️ Pipeline not updated for ${draft.recipient}: ${err.message}`]);
+          }
         } else { throw new Error(res.error); }
       } catch (err: any) {
+        if (isAbortError(err, signal)) break;
         failedCount++;
         setTransmissionLogs(prev => [...prev, `❌ FAIL: ${draft.recipient} - ${err.message}`]);
       }
       setProgress(Math.round(((i + 1) / drafts.length) * 100));
     }
 
-    if (!isAbortedRef.current) {
-      const campaign: Campaign = {
-        id: campaignId,
-        userId: user.id,
-        name: campaignName,
-        mode,
-        fileName: 'broadcast.csv',
-        senderEmail: user.emailConnection?.email || user.email,
-        stats: { total: drafts.length, sent: sentCount, failed: failedCount, pending: 0, opened: 0 },
-        verificationHash: 'V-' + Math.random().toString(36).substr(2, 6),
-        createdAt: new Date().toISOString(),
-        status: 'COMPLETED'
-      };
-      backendService.saveCampaign(campaign);
-      setResults(backendService.getCampaignStats(campaignId));
-      setStep('SUMMARY');
-    }
+    // A cancelled broadcast is still recorded so already-sent mail stays tracked
+    const cancelled = signal.aborted;
+    const campaign: Campaign = {
+      id: campaignId,
+      userId: user.id,
+      name: campaignName,
+      mode,
+      fileName: 'broadcast.csv',
+      senderEmail: user.emailConnection?.email || user.email,
+      stats: { total: drafts.length, sent: sentCount, failed: failedCount, pending: drafts.length - sentCount - failedCount, opened: 0 },
+      verificationHash: 'V-' + Math.random().toString(36).substr(2, 6),
+      createdAt: new Date().toISOString(),
+      status: cancelled ? 'CANCELLED' : 'COMPLETED'
+    };
+    backendService.saveCampaign(campaign);
+    if (cancelled) logCancelled('DISPATCHING', drafts.length, sentCount);
+    setResults({ ...backendService.getCampaignStats(campaignId), cancelled });
+    setStep('SUMMARY');
   };
 
   const renderHistory = () => (
@@ -256,7 +490,7 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
         {historicalCampaigns.map(c => {
           const stats = backendService.getCampaignStats(c.id);
           return (
-            <div key={c.id} onClick={() => { setSelectedCampaignId(c.id); setStep('CAMPAIGN_DETAIL'); }} className="bg-slate-900 p-10 rounded-[3rem] border border-slate-800 hover:border-blue-600 transition-all cursor-pointer group">
+            <div key={c.id} onClick={() => { setSelectedCampaignId(c.id); setErrorDetail(null); setStep('CAMPAIGN_DETAIL'); }} className="bg-slate-900 p-10 rounded-[3rem] border border-slate-800 hover:border-blue-600 transition-all cursor-pointer group">
                <h3 className="text-2xl font-black text-white uppercase italic tracking-tighter mb-8 truncate group-hover:text-blue-500">{c.name}</h3>
                <div className="grid grid-cols-2 gap-4 font-mono text-[10px]">
                  <div className="text-emerald-500">{stats.openRate}% Opened</div>
@@ -277,6 +511,7 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
       <div className="animate-in fade-in py-12 px-6 text-white">
         <button onClick={() => setStep('HISTORY')} className="text-slate-500 hover:text-white mb-12 text-[10px] font-black uppercase tracking-widest">← Back</button>
         <h2 className="text-7xl font-black uppercase italic tracking-tighter mb-8">{campaign.name}</h2>
+        {errorDetail && <p className="text-red-500 text-[10px] font-black uppercase tracking-widest mb-8">{errorDetail}</p>}
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-8 mb-16">
           <div className="bg-slate-900 p-8 rounded-3xl border border-slate-800">
              <div className="text-[10px] text-slate-500 uppercase mb-2">Sent</div>
@@ -287,6 +522,38 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
              <div className="text-4xl font-black text-emerald-500">{stats.opened}</div>
           </div>
         </div>
+        <div className="space-y-3">
+          {stats.emails.map(email => (
+            <div key={email.id} className="flex items-center justify-between gap-6 bg-slate-900 px-8 py-5 rounded-2xl border border-slate-800">
+              <div className="min-w-0">
+                <div className="font-black italic truncate">{email.businessName || email.recipient}</div>
+                <div className="text-[10px] text-slate-500 font-mono truncate">{email.recipient}</div>
+              </div>
+              <div className="flex items-center gap-4 shrink-0">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{email.status}</span>
+                {email.opened ? (
+                  <span className="text-[10px] font-black uppercase tracking-widest text-emerald-500">Opened</span>
+                ) : email.status === 'SENT' && (
+                  <button
+                    onClick={() => {
+                      try {
+                        pipelineService.recordOpen(user.id, email.id);
+                        setErrorDetail(null);
+                      } catch (err: any) {
+                        setErrorDetail(err.message);
+                      }
+                      setDetailVersion(v => v + 1);
+                    }}
+                    title="Record an open you saw yourself, such as a read receipt. The lead moves to the stage that listens for opens."
+                    className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-emerald-500"
+                  >
+                    Mark Opened
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
       </div>
     );
   };
@@ -308,31 +575,81 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
                <button onClick={handleVerifyConnection} className="w-full bg-blue-600 text-white py-8 rounded-[2rem] font-black uppercase tracking-widest shadow-xl">Initialize Socket</button>
             </div>
           )}
+          {step === 'MAPPING' && intakeFile && (
+            <IntakeMapper fileName={intakeFile.fileName} rows={intakeFile.rows} onImport={handleIntakeImport} onCancel={() => setStep('INTAKE')} />
+          )}
           {step === 'INTAKE' && (
             <div className="max-w-3xl mx-auto py-24 px-6">
               <input type="text" value={campaignName} onChange={e => setCampaignName(e.target.value)} className="w-full bg-slate-900 border border-slate-800 rounded-3xl p-8 text-white font-black italic text-2xl mb-8" placeholder="Mission Name..." />
               <div onClick={() => fileInputRef.current?.click()} className="p-20 border-2 border-dashed border-slate-800 bg-slate-950 rounded-3xl text-center cursor-pointer mb-12">
-                 <input type="file" ref={fileInputRef} className="hidden" onChange={e => {
+                 <input type="file" ref={fileInputRef} accept=".csv,.tsv,.txt,.xlsx,text/csv,text/plain,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" className="hidden" onChange={e => {
                    const file = e.target.files?.[0];
-                   if (file) {
-                     const r = new FileReader();
-                     r.onload = ev => {
-                       const txt = ev.target?.result as string;
-                       const ls = txt.split('\n').filter(l => l.includes('@')).map(l => ({ email: l.trim(), validationStatus: 'UNCHECKED' as const }));
-                       setLeads(ls);
-                     };
-                     r.readAsText(file);
-                   }
+                   if (file) handleIntakeFile(file);
+                   e.target.value = '';
                  }} />
-                 <p className="text-slate-500 font-black uppercase tracking-widest italic">Upload CSV Dataset ({leads.length} leads loaded)</p>
+                 <p className="text-slate-500 font-black uppercase tracking-widest italic">Upload CSV / XLSX Dataset ({leads.length} leads loaded{intakeRejected.length > 0 && ` • ${intakeRejected.length} invalid`})</p>
+                 {intakeFile && <p className="text-slate-600 text-[10px] font-black uppercase tracking-widest mt-2">{intakeFile.fileName}</p>}
               </div>
-              <button onClick={runMailValidator} className="w-full bg-emerald-600 text-white py-8 rounded-[2rem] font-black uppercase tracking-widest">Verify Nodes</button>
+              <label className="flex items-center gap-3 mb-6 text-slate-400 text-[10px] font-black uppercase tracking-widest cursor-pointer">
+                <input type="checkbox" checked={aiTieBreak} onChange={e => setAiTieBreak(e.target.checked)} />
+                AI tie-break for risky addresses (one model call per 25 addresses)
+              </label>
+              <button onClick={() => runMailValidator()} className="w-full bg-emerald-600 text-white py-8 rounded-[2rem] font-black uppercase tracking-widest">Verify Nodes</button>
             </div>
           )}
           {step === 'VALIDATION' && (
             <div className="max-w-3xl mx-auto py-24 text-center">
-               {isValidating ? <p className="text-white animate-pulse">Scanning records...</p> : (
-                 <button onClick={() => setStep('OPTIONS')} className="bg-blue-600 text-white px-20 py-8 rounded-full font-black uppercase tracking-widest">Proceed to Strategy</button>
+               {isValidating ? (
+                 <div className="space-y-6">
+                   <p className="text-white animate-pulse">Scanning records... {validationProgress.done}/{validationProgress.total}</p>
+                   <button onClick={cancelOperation} className="text-slate-500 hover:text-red-500 text-[10px] font-black uppercase tracking-widest">Cancel</button>
+                 </div>
+               ) : (
+                 <>
+                   <table className="w-full mb-12 text-left border-separate border-spacing-y-2">
+                     <thead>
+                       <tr className="text-[10px] text-slate-500 font-black uppercase tracking-widest">
+                         <th className="px-6">Status</th>
+                         <th className="px-6 text-right">Leads</th>
+                         <th className="px-6 text-right">Share</th>
+                         <th className="px-6">Most Common Reason</th>
+                       </tr>
+                     </thead>
+                     <tbody>
+                       {VALIDATION_ROWS.map(row => {
+                         const matching = leads.filter(l => (l.validationStatus || 'UNCHECKED') === row.status);
+                         return (
+                           <tr key={row.status} className="bg-slate-900">
+                             <td className={`px-6 py-4 rounded-l-2xl text-xs font-black uppercase tracking-widest ${row.color}`}>{row.label}</td>
+                             <td className="px-6 py-4 text-right text-white font-black">{matching.length}</td>
+                             <td className="px-6 py-4 text-right text-slate-400 font-mono text-xs">{leads.length > 0 ? Math.round((matching.length / leads.length) * 100) : 0}%</td>
+                             <td className="px-6 py-4 rounded-r-2xl text-slate-400 text-xs italic">{topReason(matching) || '—'}</td>
+                           </tr>
+                         );
+                       })}
+                     </tbody>
+                   </table>
+                   {intakeRejected.length + rejectedRows.length > 0 && (
+                     <div className="mb-12 p-8 bg-amber-500/10 border border-amber-500/40 rounded-3xl text-left">
+                       <h4 className="text-amber-500 text-[10px] font-black uppercase tracking-widest mb-4">{intakeRejected.length + rejectedRows.length} Records Quarantined</h4>
+                       {schemaValidator.summarizeRejections([...intakeRejected, ...rejectedRows]).map((reason, i) => (
+                         <p key={i} className="text-amber-400 text-xs font-bold italic">• {reason}</p>
+                       ))}
+                     </div>
+                   )}
+                   {leads.some(l => l.suggestedEmail) && (
+                     <div className="mb-12 p-8 bg-blue-500/10 border border-blue-500/40 rounded-3xl text-left space-y-3">
+                       <h4 className="text-blue-400 text-[10px] font-black uppercase tracking-widest">Possible Typos</h4>
+                       {leads.filter(l => l.suggestedEmail).map(lead => (
+                         <div key={lead.email} className="flex items-center justify-between gap-6 text-xs font-bold">
+                           <span className="text-slate-400 font-mono">{lead.email} → <span className="text-white">{lead.suggestedEmail}</span></span>
+                           <button onClick={() => applySuggestion(lead)} className="text-[10px] font-black uppercase tracking-widest text-blue-400 hover:text-white">Use Fix</button>
+                         </div>
+                       ))}
+                     </div>
+                   )}
+                   <button onClick={() => setStep('OPTIONS')} className="bg-blue-600 text-white px-20 py-8 rounded-full font-black uppercase tracking-widest">Proceed to Strategy</button>
+                 </>
                )}
             </div>
           )}
@@ -349,23 +666,119 @@ const EmailOutreach: React.FC<Props> = ({ user, onUserUpdate }) => {
           {step === 'CONFIG' && (
              <div className="max-w-3xl mx-auto py-24 px-6 space-y-8">
                <input value={subject} onChange={e => setSubject(e.target.value)} className="w-full bg-slate-900 border border-slate-800 rounded-2xl p-6 text-white font-bold italic" />
-               <textarea value={body} onChange={e => setBody(e.target.value)} className="w-full h-80 bg-slate-900 border border-slate-800 rounded-3xl p-10 text-white" />
-               <button onClick={generateDrafts} className="w-full bg-blue-600 text-white py-8 rounded-[2rem] font-black uppercase tracking-widest">Generate Drafts</button>
+               <textarea ref={bodyRef} value={body} onChange={e => setBody(e.target.value)} className="w-full h-80 bg-slate-900 border border-slate-800 rounded-3xl p-10 text-white" />
+               <div className="flex flex-wrap gap-2">
+                 {availableTags.map(tag => (
+                   <button key={tag} onClick={() => insertTag(tag)} className="px-3 py-1.5 rounded-xl bg-slate-900 border border-slate-800 text-slate-400 hover:text-white hover:border-blue-600 font-mono text-[10px]">{`{${tag}}`}</button>
+                 ))}
+               </div>
+               <p className="text-slate-600 text-[10px] font-black uppercase tracking-widest">{'{Tag|fallback}'} fills empty fields • {'{#if Tag}...{else}...{/if}'} shows a block only when the field has a value</p>
+               {templateIssues.length > 0 && (
+                 <div className="space-y-1">
+                   {templateIssues.map((issue, i) => (
+                     <p key={i} className={`text-xs font-bold italic ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-500'}`}>• {issue.message}</p>
+                   ))}
+                 </div>
+               )}
+               {mode === 'AI_CUSTOM' && (
+                 <div className="bg-slate-900 p-8 rounded-3xl border border-slate-800 space-y-6">
+                   {[
+                     { label: 'Tone', key: 'tone' as const, presets: TONE_PRESETS },
+                     { label: 'Length', key: 'length' as const, presets: LENGTH_PRESETS },
+                     { label: 'Call to Action', key: 'cta' as const, presets: CTA_PRESETS },
+                   ].map(group => (
+                     <div key={group.key} className="flex flex-wrap items-center gap-3">
+                       <span className="w-32 text-slate-500 text-[10px] font-black uppercase tracking-widest">{group.label}</span>
+                       {Object.entries(group.presets).map(([value, preset]) => (
+                         <button
+                           key={value}
+                           onClick={() => setPersonalization({ ...personalization, [group.key]: value })}
+                           className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border ${personalization[group.key] === value ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-800 text-slate-400 hover:text-white'}`}
+                         >
+                           {preset.label}
+                         </button>
+                       ))}
+                     </div>
+                   ))}
+                   <label className="flex items-center gap-4 text-slate-400 text-[10px] font-black uppercase tracking-widest cursor-pointer">
+                     <input type="checkbox" checked={personalization.fetchSite} onChange={e => setPersonalization({ ...personalization, fetchSite: e.target.checked })} className="w-4 h-4 accent-blue-600" />
+                     Read each recipient's homepage before writing
+                   </label>
+                   <p className="text-slate-600 text-[10px] font-black uppercase tracking-widest">The template above is used as a style guide • drafts that state facts outside the brief fall back to the template</p>
+                 </div>
+               )}
+               {previewLead && (
+                 <div className="bg-slate-900/50 p-8 rounded-3xl border border-slate-800">
+                   <div className="flex items-center justify-between gap-4 mb-6">
+                     <span className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Preview{mode === 'AI_CUSTOM' && ' • style guide for the AI draft'}</span>
+                     <select value={recipients.indexOf(previewLead)} onChange={e => setPreviewIndex(Number(e.target.value))} className="bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-xs text-white font-bold max-w-[60%]">
+                       {recipients.map((l, i) => <option key={l.email} value={i}>{l.businessName ? `${l.businessName} <${l.email}>` : l.email}</option>)}
+                     </select>
+                   </div>
+                   <div className="text-white font-bold italic mb-4">{templateEngine.render(subject, previewLead, { senderEmail })}</div>
+                   <div className="text-slate-300 text-sm whitespace-pre-wrap">{templateEngine.render(body, previewLead, { senderEmail })}</div>
+                   {mode === 'AI_CUSTOM' && previewBrief && (
+                     <div className="mt-8 pt-6 border-t border-slate-800 space-y-2 text-xs">
+                       <div className="text-slate-500 text-[10px] font-black uppercase tracking-widest mb-3">Brief the AI may draw on</div>
+                       {[
+                         ['Business', previewBrief.recipient.businessName],
+                         ['Website', previewBrief.recipient.website],
+                         ['Location', previewBrief.recipient.location],
+                         ['Notes', previewBrief.notes],
+                         ...Object.entries(previewBrief.extra),
+                       ].filter(([, value]) => value).map(([label, value]) => (
+                         <div key={label} className="flex gap-4"><span className="w-24 shrink-0 text-slate-500 font-bold">{label}</span><span className="text-slate-300">{value}</span></div>
+                       ))}
+                       <div className="flex gap-4">
+                         <span className="w-24 shrink-0 text-slate-500 font-bold">Issues</span>
+                         <span className="text-slate-300">{previewBrief.issues.length > 0 ? previewBrief.issues.join(' • ') : 'None on record, so the draft stays general'}</span>
+                       </div>
+                       {personalization.fetchSite && <p className="text-slate-600 italic">Homepage snapshot is added when drafts are generated.</p>}
+                     </div>
+                   )}
+                 </div>
+               )}
+               <label className="flex items-center gap-4 text-slate-400 text-[10px] font-black uppercase tracking-widest cursor-pointer">
+                 <input type="checkbox" checked={attachReport} onChange={e => setAttachReport(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+                 Attach branded SEO audit report ({reportableCount} of {leads.length} leads have a stored audit)
+               </label>
+               <button onClick={generateDrafts} disabled={hasTemplateErrors} className="w-full bg-blue-600 text-white py-8 rounded-[2rem] font-black uppercase tracking-widest disabled:opacity-30">{hasTemplateErrors ? 'Fix Template Errors' : mode === 'MANUAL' ? 'Render Drafts' : 'Generate Drafts'}</button>
              </div>
           )}
-          {step === 'GENERATING' && <div className="py-40 text-center text-white animate-pulse">Analyzing profiles... {progress}%</div>}
+          {step === 'GENERATING' && (
+            <div className="py-40 text-center">
+              <div className="text-white animate-pulse mb-10">Analyzing profiles... {progress}%</div>
+              <button onClick={cancelOperation} className="px-10 py-4 rounded-2xl border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/40 font-black uppercase text-[10px] tracking-widest transition-all">Cancel &amp; Keep Drafts</button>
+            </div>
+          )}
           {step === 'REVIEW' && (
              <div className="py-12 px-12 space-y-12">
+               {draftRepairCount > 0 && (
+                 <p className="text-amber-500 text-[10px] font-black uppercase tracking-widest text-center">{draftRepairCount} drafts fell back to the base template</p>
+               )}
                <button onClick={executeDispatch} className="w-full bg-emerald-600 text-white py-10 rounded-full font-black uppercase tracking-[0.5em]">Authorize Broadcast</button>
                <div className="space-y-4 max-h-[500px] overflow-y-auto">
-                 {drafts.map((d, i) => <div key={i} className="bg-slate-900 p-8 rounded-3xl border border-slate-800 text-slate-400 text-xs">{d.recipient}: {d.subject}</div>)}
+                 {drafts.map((d, i) => (
+                   <div key={i} className="bg-slate-900 p-8 rounded-3xl border border-slate-800 text-slate-400 text-xs">
+                     {d.recipient}: {d.subject}
+                     {attachReport && reportService.findAudit(storedAudits, d.website) && <span className="ml-3 text-blue-400 font-black uppercase text-[9px] tracking-widest">+ Audit Report</span>}
+                   </div>
+                 ))}
                </div>
              </div>
           )}
-          {step === 'SENDING' && <div className="py-40 text-center text-white font-black text-4xl italic animate-pulse">Dispatching... {progress}%</div>}
+          {step === 'SENDING' && (
+            <div className="py-40 text-center">
+              <div className="text-white font-black text-4xl italic animate-pulse mb-10">Dispatching... {progress}%</div>
+              <button onClick={cancelOperation} className="px-10 py-4 rounded-2xl border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/40 font-black uppercase text-[10px] tracking-widest transition-all">Stop Broadcast</button>
+            </div>
+          )}
           {step === 'SUMMARY' && results && (
             <div className="py-40 text-center">
-               <h3 className="text-8xl font-black text-white italic uppercase tracking-tighter mb-8">Mission Complete</h3>
+               <h3 className="text-8xl font-black text-white italic uppercase tracking-tighter mb-8">{results.cancelled ? 'Mission Halted' : 'Mission Complete'}</h3>
+               {results.cancelled && (
+                 <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest mb-12">{results.sent} sent before cancel • remaining drafts not dispatched</p>
+               )}
                <button onClick={resetFlow} className="bg-blue-600 text-white px-16 py-8 rounded-full font-black uppercase tracking-widest">Return to Base</button>
             </div>
           )}
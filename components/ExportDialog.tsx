@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { SEOAudit, ExportColumn, ExportFieldId } from '../types';
+import { backendService } from '../services/backendService';
+import { exportService, ExportFormat, EXPORT_FIELD_LABELS, BUILT_IN_PROFILES } from '../services/exportService';
+
+interface Props {
+  userId: string;
+  allLeads: SEOAudit[];
+  filteredLeads: SEOAudit[];
+  selectedLeads: SEOAudit[];
+  /** Search location the leads came from, used to read phones without a country code */
+  location?: string;
+  onClose: () => void;
+}
+
+type Scope = 'SELECTED' | 'FILTERED' | 'ALL';
+
+const FIELD_IDS = Object.keys(EXPORT_FIELD_LABELS) as ExportFieldId[];
+
+const ExportDialog: React.FC<Props> = ({ userId, allLeads, filteredLeads, selectedLeads, location, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('CSV');
+  const [scope, setScope] = useState<Scope>(selectedLeads.length > 0 ? 'SELECTED' : filteredLeads.length !== allLeads.length ? 'FILTERED' : 'ALL');
+  const [profileId, setProfileId] = useState(BUILT_IN_PROFILES[0].id);
+  const [version, setVersion] = useState(0);
+  const [editing, setEditing] = useState<{ id?: string; name: string; columns: ExportColumn[] } | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const profiles = useMemo(() => exportService.getProfiles(userId), [userId, version]);
+  const profile = profiles.find(p => p.id === profileId) || profiles[0];
+  const isCustom = !!profile.userId;
+
+  const scopes: { id: Scope; label: string; leads: SEOAudit[] }[] = [
+    { id: 'SELECTED', label: 'Selected rows', leads: selectedLeads },
+    { id: 'FILTERED', label: 'Current filter', leads: filteredLeads },
+    { id: 'ALL', label: 'All results', leads: allLeads },
+  ];
+  const rowsToExport = scopes.find(s => s.id === scope)!.leads;
+
+  const startEditing = (fromProfile = profile, asCopy = !isCustom) => {
+    setEditError(null);
+    setEditing({
+      id: asCopy ? undefined : fromProfile.id,
+      name: asCopy ? `${fromProfile.name} (copy)` : fromProfile.name,
+      columns: fromProfile.columns.map(c => ({ ...c })),
+    });
+  };
+
+  const updateColumn = (index: number, patch: Partial<ExportColumn>) => {
+    if (!editing) return;
+    setEditing({ ...editing, columns: editing.columns.map((c, i) => i === index ? { ...c, ...patch } : c) });
+  };
+
+  const moveColumn = (index: number, delta: number) => {
+    if (!editing) return;
+    const target = index + delta;
+    if (target < 0 || target >= editing.columns.length) return;
+    const columns = [...editing.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    setEditing({ ...editing, columns });
+  };
+
+  const saveProfile = () => {
+    if (!editing) return;
+    try {
+      const saved = exportService.saveProfile(userId, editing.name, editing.columns, editing.id);
+      setVersion(v => v + 1);
+      setProfileId(saved.id);
+      setEditing(null);
+    } catch (err: any) {
+      setEditError(err.message);
+    }
+  };
+
+  const deleteProfile = () => {
+    if (!isCustom || !confirm(`Delete export profile "${profile.name}"?`)) return;
+    backendService.deleteExportProfile(profile.id);
+    setProfileId(BUILT_IN_PROFILES[0].id);
+    setVersion(v => v + 1);
+  };
+
+  const handleExport = () => {
+    if (rowsToExport.length === 0) return;
+    exportService.export(rowsToExport, format, profile, location);
+    onClose();
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-4 py-2 rounded-xl text-xs font-bold border transition-all ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800 tracking-tight">Export Leads</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-800 text-2xl leading-none font-light">×</button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Rows</div>
+            <div className="flex flex-wrap gap-2">
+              {scopes.map(s => (
+                <button key={s.id} onClick={() => setScope(s.id)} disabled={s.leads.length === 0} className={`${optionClass(scope === s.id)} disabled:opacity-30`}>
+                  {s.label} ({s.leads.length})
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Format</div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => setFormat('CSV')} className={optionClass(format === 'CSV')}>CSV</button>
+              <button onClick={() => setFormat('XLSX')} className={optionClass(format === 'XLSX')}>Excel (.xlsx)</button>
+              <button onClick={() => setFormat('JSON')} className={optionClass(format === 'JSON')}>JSON</button>
+            </div>
+            {format === 'XLSX' && <p className="text-[10px] text-slate-400 mt-2">Leads sheet has one issue per column; Issues sheet has one row per issue.</p>}
+            {format === 'JSON' && <p className="text-[10px] text-slate-400 mt-2">Full audit records including measured findings and score breakdown.</p>}
+          </div>
+
+          {format === 'CSV' && !editing && (
+            <div>
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Column Profile</div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select value={profile.id} onChange={e => setProfileId(e.target.value)} className="px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white">
+                  {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <button onClick={() => startEditing()} className="px-3 py-2 rounded-xl text-xs font-bold border border-slate-200 text-slate-600 hover:bg-slate-50">
+                  {isCustom ? 'Edit' : 'Customize'}
+                </button>
+                {isCustom && <button onClick={deleteProfile} className="px-3 py-2 rounded-xl text-xs font-bold text-slate-400 hover:text-red-500">Delete</button>}
+              </div>
+              <div className="mt-3 flex flex-wrap gap-1">
+                {profile.columns.map((c, i) => (
+                  <span key={i} className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-600" title={EXPORT_FIELD_LABELS[c.field]}>{c.header}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {format === 'CSV' && editing && (
+            <div className="space-y-3">
+              <input value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} placeholder="Profile name" className="w-full px-4 py-2 rounded-xl border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-blue-500" />
+              <div className="space-y-2">
+                {editing.columns.map((column, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input value={column.header} onChange={e => updateColumn(i, { header: e.target.value })} placeholder="CSV header" className="flex-1 px-3 py-1.5 rounded-lg border border-slate-200 text-xs" />
+                    <select value={column.field} onChange={e => updateColumn(i, { field: e.target.value as ExportFieldId })} className="px-2 py-1.5 rounded-lg border border-slate-200 text-xs bg-white">
+                      {FIELD_IDS.map(id => <option key={id} value={id}>{EXPORT_FIELD_LABELS[id]}</option>)}
+                    </select>
+                    {column.field === 'constant' && (
+                      <input value={column.value || ''} onChange={e => updateColumn(i, { value: e.target.value })} placeholder="Value" className="w-28 px-3 py-1.5 rounded-lg border border-slate-200 text-xs" />
+                    )}
+                    <button onClick={() => moveColumn(i, -1)} className="text-slate-400 hover:text-slate-700 text-xs px-1">↑</button>
+                    <button onClick={() => moveColumn(i, 1)} className="text-slate-400 hover:text-slate-700 text-xs px-1">↓</button>
+                    <button onClick={() => setEditing({ ...editing, columns: editing.columns.filter((_, j) => j !== i) })} className="text-slate-300 hover:text-red-500 text-xs px-1">✕</button>
+                  </div>
+                ))}
+              </div>
+              <button onClick={() => setEditing({ ...editing, columns: [...editing.columns, { header: '', field: 'businessName' }] })} className="text-xs font-bold text-blue-600 hover:underline">+ Add column</button>
+              {editError && <p className="text-xs font-bold text-red-500">{editError}</p>}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setEditing(null)} className="px-4 py-2 rounded-xl text-xs font-bold border border-slate-200 text-slate-600 hover:bg-slate-50">Cancel</button>
+                <button onClick={saveProfile} className="px-4 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-700">Save Profile</button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end">
+          <button
+            onClick={handleExport}
+            disabled={rowsToExport.length === 0 || !!editing}
+            className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white px-6 py-2.5 rounded-xl text-sm font-bold transition-all shadow-md active:scale-95"
+          >
+            Export {rowsToExport.length} {rowsToExport.length === 1 ? 'Lead' : 'Leads'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -1,28 +1,141 @@
 import React, { useState } from 'react';
+import { DEFAULT_RESULTS_PER_RUN, MIN_RESULTS_PER_RUN } from '../services/planService';
+import { batchSearchService, MAX_BATCH_CELLS } from '../services/batchSearchService';
 
 interface Props {
-  onSearch: (niche: string, location: string, email: string) => void;
+  onSearch: (niche: string, location: string, email: string, count: number) => void;
+  /** Omit to hide batch mode */
+  onBatchSearch?: (niches: string[], locations: string[], count: number) => void;
   isLoading: boolean;
   isLocked?: boolean;
+  maxResults: number;
+  /** Why the active provider cannot generate leads; disables both forms */
+  unavailableReason?: string;
 }
 
-const InputSection: React.FC<Props> = ({ onSearch, isLoading, isLocked }) => {
+const InputSection: React.FC<Props> = ({ onSearch, onBatchSearch, isLoading, isLocked, maxResults, unavailableReason }) => {
+  const [mode, setMode] = useState<'SINGLE' | 'BATCH'>('SINGLE');
+  const [nicheList, setNicheList] = useState('');
+  const [locationList, setLocationList] = useState('');
   const [niche, setNiche] = useState('');
   const [location, setLocation] = useState('');
   const [email, setEmail] = useState('');
+  const [count, setCount] = useState(Math.min(DEFAULT_RESULTS_PER_RUN, maxResults));
   
-  const isFormValid = niche.trim() !== '' && location.trim() !== '' && email.trim() !== '';
+  const isFormValid = niche.trim() !== '' && location.trim() !== '' && email.trim() !== '' && !unavailableReason;
+  const effectiveCount = Math.max(MIN_RESULTS_PER_RUN, Math.min(maxResults, count || MIN_RESULTS_PER_RUN));
+
+  const niches = batchSearchService.parseList(nicheList);
+  const locations = batchSearchService.parseList(locationList);
+  const cellCount = niches.length * locations.length;
+  const isBatchValid = cellCount > 0 && cellCount <= MAX_BATCH_CELLS && !unavailableReason;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (isFormValid && !isLocked) {
-      onSearch(niche, location, email);
+      onSearch(niche, location, email, effectiveCount);
     }
   };
 
+  const handleBatchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBatchValid && !isLocked && onBatchSearch) {
+      onBatchSearch(niches, locations, effectiveCount);
+    }
+  };
+
+  const loadListFile = (setter: (text: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setter(String(reader.result || ''));
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const countField = (
+    <div className="flex flex-col">
+      <label className="block text-sm font-semibold text-slate-700 mb-1.5">Results <span className="text-slate-400 font-normal">(max {maxResults})</span></label>
+      <input
+        type="number"
+        min={MIN_RESULTS_PER_RUN}
+        max={maxResults}
+        className="w-full px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+        value={count}
+        onChange={(e) => setCount(parseInt(e.target.value, 10))}
+        disabled={isLoading}
+      />
+    </div>
+  );
+
   return (
     <div className={`bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-8 transition-opacity ${isLocked ? 'opacity-50 pointer-events-none' : ''}`}>
-      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+      {onBatchSearch && (
+        <div className="flex gap-2 mb-5">
+          {(['SINGLE', 'BATCH'] as const).map(m => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              disabled={isLoading}
+              className={`px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-800'}`}
+            >
+              {m === 'SINGLE' ? 'Single Search' : 'Batch Grid'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {unavailableReason && (
+        <p className="mb-5 px-4 py-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-700 text-xs font-bold">{unavailableReason}</p>
+      )}
+
+      {mode === 'BATCH' && onBatchSearch ? (
+        <form onSubmit={handleBatchSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'Niches', value: nicheList, setter: setNicheList, items: niches, placeholder: 'Roofers\nDentists\nPlumbers' },
+              { label: 'Locations', value: locationList, setter: setLocationList, items: locations, placeholder: 'Austin, TX\nDenver, CO' },
+            ].map(list => (
+              <div key={list.label} className="flex flex-col">
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="text-sm font-semibold text-slate-700">{list.label} <span className="text-slate-400 font-normal">(one per line • {list.items.length})</span></label>
+                  <label className="text-[10px] font-bold text-blue-600 hover:underline cursor-pointer">
+                    Upload .txt/.csv
+                    <input type="file" accept=".txt,.csv,text/plain,text/csv" onChange={loadListFile(list.setter)} className="hidden" />
+                  </label>
+                </div>
+                <textarea
+                  placeholder={list.placeholder}
+                  className="w-full h-32 px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none transition-all text-sm"
+                  value={list.value}
+                  onChange={(e) => list.setter(e.target.value)}
+                  disabled={isLoading}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+            {countField}
+            <div className={`text-xs font-bold ${cellCount > MAX_BATCH_CELLS ? 'text-red-500' : 'text-slate-500'}`}>
+              {niches.length} × {locations.length} = {cellCount} jobs • {cellCount} {cellCount === 1 ? 'query' : 'queries'}
+              {cellCount > MAX_BATCH_CELLS && ` (limit ${MAX_BATCH_CELLS})`}
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading || !isBatchValid || isLocked}
+              className={`w-full py-2.5 rounded-xl font-bold transition-all shadow-lg ${
+                isLoading || !isBatchValid || isLocked
+                ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+            >
+              {isLocked ? 'Locked' : unavailableReason ? 'Needs Gemini' : isLoading ? 'Processing...' : `Run ${cellCount} Jobs`}
+            </button>
+          </div>
+        </form>
+      ) : (
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
         <div className="flex flex-col">
           <label className="block text-sm font-semibold text-slate-700 mb-1.5">Business Niche</label>
           <input
@@ -59,6 +172,8 @@ const InputSection: React.FC<Props> = ({ onSearch, isLoading, isLocked }) => {
           />
         </div>
 
+        {countField}
+
         <div>
           <button
             type="submit"
@@ -69,10 +184,11 @@ const InputSection: React.FC<Props> = ({ onSearch, isLoading, isLocked }) => {
               : 'bg-blue-600 text-white hover:bg-blue-700'
             }`}
           >
-            {isLocked ? 'Locked' : isLoading ? 'Processing...' : 'Generate 15 Leads'}
+            {isLocked ? 'Locked' : unavailableReason ? 'Needs Gemini' : isLoading ? 'Processing...' : `Generate ${effectiveCount} Leads`}
           </button>
         </div>
       </form>
+      )}
     </div>
   );
 };
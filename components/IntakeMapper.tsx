@@ -0,0 +1,127 @@
+import React, { useState, useMemo } from 'react';
+import { leadImport, ColumnMapping, IntakeField, IntakePreview, INTAKE_FIELD_LABELS, CUSTOM_COLUMN } from '../services/leadImport';
+import { schemaValidator } from '../services/schemaValidator';
+
+interface Props {
+  fileName: string;
+  rows: string[][];
+  onImport: (preview: IntakePreview) => void;
+  onCancel: () => void;
+}
+
+const SAMPLE_ROWS = 3;
+const PREVIEW_LEADS = 5;
+
+const IntakeMapper: React.FC<Props> = ({ fileName, rows, onImport, onCancel }) => {
+  const [hasHeader, setHasHeader] = useState(() => leadImport.detectHeader(rows));
+  const [mapping, setMapping] = useState<ColumnMapping>(() => leadImport.autoMap(rows, leadImport.detectHeader(rows)));
+
+  const width = mapping.length;
+  const body = hasHeader ? rows.slice(1) : rows;
+  const preview = useMemo(() => leadImport.build(rows, mapping, hasHeader), [rows, mapping, hasHeader]);
+  const hasEmail = mapping.includes('email');
+
+  const toggleHeader = () => {
+    setHasHeader(!hasHeader);
+    setMapping(leadImport.autoMap(rows, !hasHeader));
+  };
+
+  const setColumn = (col: number, field: ColumnMapping[number]) => {
+    setMapping(prev => prev.map((f, i) => {
+      if (i === col) return field;
+      // Email drives de-duplication, so only one column can hold it
+      return field === 'email' && f === 'email' ? null : f;
+    }));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto py-16 px-6 text-white">
+      <div className="flex flex-wrap items-end justify-between gap-6 mb-10">
+        <div>
+          <h3 className="text-4xl font-black uppercase italic tracking-tighter">Map Columns</h3>
+          <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest mt-2">{fileName} • {body.length} rows • {width} columns</p>
+        </div>
+        <label className="flex items-center gap-3 text-slate-400 text-[10px] font-black uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={hasHeader} onChange={toggleHeader} />
+          First row is a header
+        </label>
+      </div>
+
+      <div className="overflow-x-auto mb-10">
+        <table className="w-full text-left border-separate border-spacing-y-2">
+          <tbody>
+            {mapping.map((field, col) => (
+              <tr key={col} className="bg-slate-900">
+                <td className="px-6 py-4 rounded-l-2xl">
+                  <div className="text-xs font-black italic">{hasHeader ? rows[0][col] || `Column ${col + 1}` : `Column ${col + 1}`}</div>
+                  <div className="text-[10px] text-slate-500 font-mono truncate max-w-[320px]">
+                    {body.slice(0, SAMPLE_ROWS).map(r => r[col] || '—').join(' • ')}
+                  </div>
+                </td>
+                <td className="px-6 py-4 rounded-r-2xl text-right">
+                  <select
+                    value={field || ''}
+                    onChange={e => setColumn(col, (e.target.value || null) as ColumnMapping[number])}
+                    className={`bg-slate-950 border rounded-xl px-4 py-2 text-xs font-bold ${field ? 'border-blue-600 text-white' : 'border-slate-800 text-slate-500'}`}
+                  >
+                    <option value="">Skip column</option>
+                    {(Object.keys(INTAKE_FIELD_LABELS) as IntakeField[]).map(f => <option key={f} value={f}>{INTAKE_FIELD_LABELS[f]}</option>)}
+                    <option value={CUSTOM_COLUMN}>{`Merge tag {${leadImport.customTag(rows, col, hasHeader)}}`}</option>
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
+        {[
+          { label: 'Ready', value: preview.leads.length, color: 'text-emerald-500' },
+          { label: 'Duplicates', value: preview.duplicates, color: 'text-amber-500' },
+          { label: 'Invalid', value: preview.invalid.length, color: 'text-red-500' },
+          { label: 'Blank Rows', value: preview.blankRows, color: 'text-slate-400' },
+        ].map(stat => (
+          <div key={stat.label} className="bg-slate-900 p-6 rounded-3xl border border-slate-800">
+            <div className="text-[10px] text-slate-500 uppercase font-black tracking-widest mb-2">{stat.label}</div>
+            <div className={`text-3xl font-black ${stat.color}`}>{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {preview.invalid.length > 0 && (
+        <div className="mb-8 p-6 bg-red-500/10 border border-red-500/40 rounded-3xl">
+          {schemaValidator.summarizeRejections(preview.invalid).map((reason, i) => (
+            <p key={i} className="text-red-400 text-xs font-bold italic">• {reason}</p>
+          ))}
+        </div>
+      )}
+
+      {preview.leads.length > 0 && (
+        <div className="mb-10 space-y-2">
+          {preview.leads.slice(0, PREVIEW_LEADS).map(lead => (
+            <div key={lead.email} className="flex flex-wrap gap-x-6 gap-y-1 bg-slate-900/50 px-6 py-3 rounded-2xl text-xs">
+              <span className="font-mono text-blue-400">{lead.email}</span>
+              {lead.businessName && <span className="font-bold">{lead.businessName}</span>}
+              {lead.website && <span className="text-slate-400">{lead.website}</span>}
+              {lead.location && <span className="text-slate-500">{lead.location}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <button onClick={onCancel} className="px-10 py-6 rounded-[2rem] border border-slate-800 text-slate-400 font-black uppercase tracking-widest hover:text-white">Back</button>
+        <button
+          onClick={() => onImport(preview)}
+          disabled={!hasEmail || preview.leads.length === 0}
+          className="flex-1 bg-emerald-600 text-white py-6 rounded-[2rem] font-black uppercase tracking-widest disabled:opacity-30"
+        >
+          {hasEmail ? `Import ${preview.leads.length} Leads` : 'Map an Email Column'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IntakeMapper;
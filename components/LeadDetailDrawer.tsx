@@ -0,0 +1,316 @@
+import React, { useState, useEffect } from 'react';
+import { SEOAudit, OpportunityLevel, AuditSeverity, StoredLead, PipelineStage, StageChange } from '../types';
+import { scoringService } from '../services/scoringService';
+import { backendService } from '../services/backendService';
+import { contactNormalizer } from '../services/contactNormalizer';
+import { pipelineService } from '../services/pipelineService';
+
+interface Props {
+  lead: SEOAudit;
+  onClose: () => void;
+  /** Omit to show the drawer read-only */
+  onUpdate?: (lead: SEOAudit) => void;
+  /** Omit to hide the report button */
+  onOpenReport?: () => void;
+  /** Stage picker and history; only stored leads have a pipeline */
+  pipeline?: {
+    stages: PipelineStage[];
+    lead: StoredLead;
+    onMove: (stageId: string) => void;
+  };
+}
+
+const CHANGE_REASONS: Record<StageChange['reason'], string> = {
+  MANUAL: 'Moved by hand',
+  EMAIL_SENT: 'Email sent',
+  EMAIL_OPENED: 'Email opened',
+};
+
+const SEVERITY_STYLES: Record<AuditSeverity, string> = {
+  CRITICAL: 'bg-red-600 text-white',
+  WARNING: 'bg-amber-100 text-amber-700',
+  NOTICE: 'bg-slate-100 text-slate-500',
+};
+
+const LeadDetailDrawer: React.FC<Props> = ({ lead, onClose, onUpdate, onOpenReport, pipeline }) => {
+  const [notes, setNotes] = useState(lead.notes || '');
+  const [copiedField, setCopiedField] = useState<string | null>(null);
+
+  // Reset the draft when a different lead is opened
+  useEffect(() => { setNotes(lead.notes || ''); }, [lead.websiteUrl, lead.businessName]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const copy = async (field: string, value: string) => {
+    await navigator.clipboard.writeText(value);
+    setCopiedField(field);
+    setTimeout(() => setCopiedField(null), 1500);
+  };
+
+  const saveNotes = () => {
+    if (onUpdate && notes !== (lead.notes || '')) onUpdate({ ...lead, notes });
+  };
+
+  const setLevel = (level: OpportunityLevel) => {
+    onUpdate?.({ ...lead, opportunityLevel: level, opportunityLevelSource: 'MANUAL' });
+  };
+
+  const resetLevel = () => {
+    onUpdate?.(scoringService.score({ ...lead, opportunityLevelSource: 'SCORED' }, backendService.getScoringWeights()));
+  };
+
+  const issueFor = (field: 'email' | 'phone') => lead.contactIssues?.find(i => i.field === field)?.reason;
+  const contactRows = [
+    { field: 'email', label: 'Email', value: lead.email, display: lead.email, issue: issueFor('email') },
+    { field: 'phone', label: 'Phone', value: lead.phone, display: contactNormalizer.formatPhone(lead.phone), issue: issueFor('phone') },
+    { field: 'website', label: 'Website', value: lead.websiteUrl, display: lead.websiteUrl },
+    { field: 'contactPage', label: 'Contact Page', value: lead.contactPageUrl, display: lead.contactPageUrl },
+  ];
+  const phoneRegion = contactNormalizer.regionOf(lead.phone);
+
+  const issueGroups = [
+    { label: 'On-Page Issues', issues: lead.onPageIssues },
+    { label: 'Technical Issues', issues: lead.technicalIssues },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <aside className="relative w-full max-w-xl h-full bg-white shadow-2xl overflow-y-auto animate-in slide-in-from-right duration-300">
+        <div className="sticky top-0 bg-white/95 backdrop-blur px-8 py-6 border-b border-slate-100 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-xl font-black text-slate-900 tracking-tight break-words">{lead.businessName}</h3>
+            <a href={lead.websiteUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:underline break-all">{lead.websiteUrl}</a>
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            {onOpenReport && (
+              <button onClick={onOpenReport} className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest border border-slate-200 text-slate-600 hover:bg-slate-50">Audit Report</button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-800 text-2xl leading-none font-light">×</button>
+          </div>
+        </div>
+
+        <div className="px-8 py-6 space-y-8">
+          <section>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Opportunity</h4>
+            <div className="flex flex-wrap items-center gap-2">
+              {[OpportunityLevel.HIGH, OpportunityLevel.MEDIUM, OpportunityLevel.LOW].map(level => (
+                <button
+                  key={level}
+                  onClick={() => setLevel(level)}
+                  disabled={!onUpdate}
+                  className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-all disabled:cursor-default ${
+                    lead.opportunityLevel === level ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+              {lead.opportunityScore !== undefined && (
+                <span className="text-xs font-black text-slate-500 font-mono ml-2">{lead.opportunityScore}/100</span>
+              )}
+            </div>
+            {lead.opportunityLevelSource === 'MANUAL' && (
+              <div className="mt-2 text-[10px] font-bold text-amber-600 uppercase tracking-widest">
+                Set by hand
+                {onUpdate && <button onClick={resetLevel} className="ml-2 text-slate-400 hover:text-slate-700 underline">Revert to scored level</button>}
+              </div>
+            )}
+          </section>
+
+          {lead.verification && (
+            <section>
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Verification</h4>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {[
+                  { label: 'Grounded', value: lead.verification.grounded },
+                  { label: 'DNS Resolves', value: lead.verification.resolves },
+                  { label: 'Site Responds', value: lead.verification.responds },
+                ].map(check => (
+                  <span key={check.label} className={`text-[9px] px-1.5 py-0.5 rounded font-bold uppercase ${
+                    check.value === undefined ? 'bg-slate-100 text-slate-400' : check.value ? 'bg-green-50 text-green-600' : 'bg-red-50 text-red-600'
+                  }`}>
+                    {check.label}: {check.value === undefined ? 'n/a' : check.value ? 'Yes' : 'No'}
+                  </span>
+                ))}
+              </div>
+              {lead.verification.reasons.length > 0 && (
+                <ul className="space-y-1">
+                  {lead.verification.reasons.map((reason, i) => <li key={i} className="text-xs text-slate-500">• {reason}</li>)}
+                </ul>
+              )}
+            </section>
+          )}
+
+          {pipeline && (
+            <section>
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Pipeline</h4>
+              <div className="flex flex-wrap gap-1.5 mb-3">
+                {pipeline.stages.map(stage => {
+                  const isCurrent = pipelineService.stageOf(pipeline.lead, pipeline.stages).id === stage.id;
+                  return (
+                    <button
+                      key={stage.id}
+                      onClick={() => pipeline.onMove(stage.id)}
+                      style={isCurrent ? { backgroundColor: stage.color, borderColor: stage.color } : undefined}
+                      className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-all ${isCurrent ? 'text-white' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                    >
+                      {stage.name}
+                    </button>
+                  );
+                })}
+              </div>
+              {pipeline.lead.stageHistory && pipeline.lead.stageHistory.length > 0 && (
+                <ul className="space-y-1">
+                  {[...pipeline.lead.stageHistory].reverse().map((change, i) => {
+                    const name = (id: string | null) => pipeline.stages.find(s => s.id === id)?.name || (id ? 'Removed stage' : pipeline.stages[0].name);
+                    return (
+                      <li key={i} className="text-xs text-slate-500">
+                        <span className="font-mono text-[10px] text-slate-400">{new Date(change.at).toLocaleString()}</span>
+                        {' '}• {name(change.fromStageId)} → <span className="font-bold text-slate-700">{name(change.toStageId)}</span>
+                        {' '}• {CHANGE_REASONS[change.reason]}{change.detail && ` (${change.detail})`}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+          )}
+
+          <section>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Contact</h4>
+            <div className="space-y-2">
+              {contactRows.map(row => (
+                <div key={row.field} className="flex items-center justify-between gap-4 px-4 py-2.5 rounded-xl bg-slate-50 border border-slate-100">
+                  <div className="min-w-0">
+                    <div className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{row.label}</div>
+                    <div className="text-sm text-slate-800 font-medium break-all">{row.display || <span className="text-slate-300 italic">Not found</span>}</div>
+                    {row.issue && <div className="text-[10px] font-bold text-amber-600">Malformed: {row.issue}</div>}
+                  </div>
+                  {row.value && (
+                    <button onClick={() => copy(row.field, row.value)} className="shrink-0 px-3 py-1 rounded-lg text-[10px] font-bold border border-slate-200 text-slate-600 hover:bg-white">
+                      {copiedField === row.field ? 'Copied' : 'Copy'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {lead.contactsError && (
+              <p className="mt-4 text-xs font-bold text-amber-600">Contact discovery failed: {lead.contactsError}</p>
+            )}
+            {lead.contactCandidates && lead.contactCandidates.length > 0 && (
+              <div className="mt-4">
+                <div className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">
+                  Discovered Contacts{lead.contactsCheckedAt && ` • ${new Date(lead.contactsCheckedAt).toLocaleDateString()}`}
+                </div>
+                <div className="space-y-1.5">
+                  {lead.contactCandidates.map(c => {
+                    const isPrimary = c.kind === 'EMAIL'
+                      ? c.value === lead.email
+                      : c.value === lead.phone || contactNormalizer.normalizePhone(c.value, phoneRegion).e164 === lead.phone;
+                    return (
+                      <div key={`${c.kind}:${c.value}`} className="flex items-start justify-between gap-3 text-xs">
+                        <div className="min-w-0">
+                          <span className="font-medium text-slate-700 break-all">{c.value}</span>
+                          <span className="ml-2 text-[9px] font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 uppercase">{c.source}</span>
+                          {c.label && <span className="ml-1 text-[10px] text-slate-400">{c.label}</span>}
+                          {c.pageUrls.length > 0 && (
+                            <div className="text-[10px] text-slate-400 truncate" title={c.pageUrls.join('\n')}>{c.pageUrls[0]}{c.pageUrls.length > 1 && ` +${c.pageUrls.length - 1}`}</div>
+                          )}
+                        </div>
+                        <div className="shrink-0 flex items-center gap-2">
+                          <span className={`font-mono font-black ${c.score > 0 ? 'text-blue-600' : 'text-slate-300'}`}>{c.score}</span>
+                          {isPrimary ? (
+                            <span className="text-[9px] font-bold text-emerald-600 uppercase tracking-widest">Primary</span>
+                          ) : onUpdate && (
+                            <button onClick={() => onUpdate(contactNormalizer.normalizeLead(c.kind === 'EMAIL' ? { ...lead, email: c.value } : { ...lead, phone: c.value }))} className="text-[9px] font-bold text-slate-400 hover:text-blue-600 uppercase tracking-widest">Use</button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Local SEO</h4>
+            <div className={`text-[9px] px-1.5 py-0.5 rounded inline-block font-bold uppercase mb-2 ${lead.localSeoIssues.hasIssues ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
+              {lead.localSeoIssues.hasIssues ? 'Issues' : 'Clean'}
+            </div>
+            <p className="text-sm text-slate-600">{lead.localSeoIssues.reason || 'No reason given.'}</p>
+          </section>
+
+          {issueGroups.map(group => (
+            <section key={group.label}>
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">{group.label} • {group.issues.length}</h4>
+              {group.issues.length === 0 ? (
+                <p className="text-sm text-slate-400 italic">None found.</p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {group.issues.map((issue, i) => <li key={i} className="text-sm text-slate-700">• {issue}</li>)}
+                </ul>
+              )}
+            </section>
+          ))}
+
+          {lead.auditFindings && lead.auditFindings.length > 0 && (
+            <section>
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">
+                Measured Findings{lead.auditedAt && ` • ${new Date(lead.auditedAt).toLocaleString()}`}
+              </h4>
+              <div className="space-y-2">
+                {lead.auditFindings.map((f, i) => (
+                  <div key={i} className="flex items-start gap-3">
+                    <span className={`shrink-0 text-[9px] font-bold px-1.5 py-0.5 rounded uppercase ${SEVERITY_STYLES[f.severity]}`}>{f.severity}</span>
+                    <div className="min-w-0">
+                      <div className="text-sm text-slate-700">{f.message}</div>
+                      {f.evidence && <div className="text-[10px] text-slate-400 font-mono break-all">{f.evidence}</div>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+          {lead.auditError && (
+            <p className="text-xs font-bold text-amber-600">Site audit failed: {lead.auditError}</p>
+          )}
+
+          <section>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Sources</h4>
+            {lead.sources && lead.sources.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {lead.sources.map(source => (
+                  <a key={source.uri} href={source.uri} target="_blank" rel="noopener noreferrer" className="text-[10px] font-bold text-blue-600 hover:text-blue-700 bg-white px-3 py-1.5 rounded-xl border border-slate-200 shadow-sm">
+                    {source.title}
+                  </a>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400 italic">No search source mentions this business.</p>
+            )}
+          </section>
+
+          <section>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Notes</h4>
+            <textarea
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              onBlur={saveNotes}
+              disabled={!onUpdate}
+              placeholder="Call prep, objections, who to ask for..."
+              className="w-full h-32 px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </section>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default LeadDetailDrawer;
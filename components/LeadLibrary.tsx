@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { User, StoredLead, OpportunityLevel, SEOAudit } from '../types';
+import { backendService } from '../services/backendService';
+import { contactNormalizer } from '../services/contactNormalizer';
+import { pipelineService } from '../services/pipelineService';
+import { leadQuery } from '../services/leadQuery';
+import LeadDetailDrawer from './LeadDetailDrawer';
+
+interface Props {
+  user: User;
+}
+
+const PAGE_SIZE = 25;
+
+const LeadLibrary: React.FC<Props> = ({ user }) => {
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(0);
+  const [version, setVersion] = useState(0);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const leads = useMemo(() => {
+    return backendService.getLeads(user.id).sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }, [user.id, version]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return leads;
+    return leads.filter(l =>
+      l.domain.includes(q) ||
+      l.audit.businessName.toLowerCase().includes(q) ||
+      l.audit.email.toLowerCase().includes(q) ||
+      l.sightings.some(s => s.niche.toLowerCase().includes(q) || s.location.toLowerCase().includes(q))
+    );
+  }, [leads, query]);
+
+  const detailLead = detailId ? leads.find(l => l.id === detailId) : undefined;
+  const stages = useMemo(() => pipelineService.getStages(user.id), [user.id]);
+
+  const { rows: pageLeads, page: currentPage, pageCount } = leadQuery.page<StoredLead>(filtered, page, PAGE_SIZE);
+
+  // Library writes throw once browser storage is full; show why the change did not stick
+  const persist = (write: () => void) => {
+    try {
+      write();
+      setSaveError(null);
+    } catch (err: any) {
+      setSaveError(err.message);
+    }
+    setVersion(v => v + 1);
+  };
+
+  const handleUpdateAudit = (audit: SEOAudit) => {
+    persist(() => backendService.updateStoredAudit(user.id, audit));
+  };
+
+  const handleMove = (lead: StoredLead, stageId: string) => {
+    persist(() => pipelineService.moveLead(lead, stageId, stages));
+  };
+
+  const handleDelete = (lead: StoredLead) => {
+    if (!confirm(`Remove ${lead.audit.businessName} from the library?`)) return;
+    persist(() => backendService.deleteLead(lead.id));
+  };
+
+  const uniqueSearches = (lead: StoredLead) => {
+    const seen = new Set<string>();
+    return lead.sightings.filter(s => {
+      const key = `${s.niche}|${s.location}`.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-slate-50/50">
+        <div>
+          <h3 className="font-bold text-slate-800 tracking-tight">Lead Library</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{leads.length} unique businesses • deduplicated by domain</p>
+        </div>
+        <input
+          type="text"
+          placeholder="Search business, domain, niche or location..."
+          className="w-full md:w-96 px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none transition-all text-sm"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setPage(0); }}
+        />
+      </div>
+
+      {saveError && <p className="px-6 py-3 border-b border-slate-100 text-xs font-bold text-red-500">{saveError}</p>}
+
+      {filtered.length === 0 ? (
+        <div className="py-24 text-center text-slate-400 text-sm font-bold italic">
+          {leads.length === 0 ? 'No leads stored yet. Run a search on the Intelligence tab.' : 'No leads match your search.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Business / Domain</th>
+                <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Contact</th>
+                <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Found By</th>
+                <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">First / Last Seen</th>
+                <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Stage</th>
+                <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider text-center">Opp.</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {pageLeads.map(lead => (
+                <tr key={lead.id} onClick={() => setDetailId(lead.id)} className="hover:bg-slate-50/80 transition-colors group cursor-pointer">
+                  <td className="px-6 py-4">
+                    <div className="font-bold text-slate-900 text-sm mb-0.5">{lead.audit.businessName}</div>
+                    <a href={lead.audit.websiteUrl} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="text-xs text-blue-600 hover:underline">{lead.domain}</a>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-xs text-slate-600 font-medium">{lead.audit.email}</div>
+                    <div className="text-[10px] text-slate-400">{contactNormalizer.formatPhone(lead.audit.phone)}</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1 max-w-[240px]">
+                      {uniqueSearches(lead).slice(0, 3).map((s, i) => (
+                        <span key={i} className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">{s.niche} • {s.location}</span>
+                      ))}
+                    </div>
+                    <div className="text-[9px] text-slate-400 mt-1">{lead.sightings.length} sighting{lead.sightings.length === 1 ? '' : 's'}</div>
+                  </td>
+                  <td className="px-6 py-4 text-[10px] text-slate-500 font-mono">
+                    <div>{new Date(lead.firstSeenAt).toLocaleDateString()}</div>
+                    <div className="text-slate-400">{new Date(lead.lastSeenAt).toLocaleDateString()}</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="flex items-center gap-1.5 text-[10px] font-bold text-slate-600 uppercase tracking-widest whitespace-nowrap">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: pipelineService.stageOf(lead, stages).color }}></span>
+                      {pipelineService.stageOf(lead, stages).name}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-center">
+                    <span className={`text-[10px] font-bold px-2 py-1 rounded-lg ${
+                      lead.audit.opportunityLevel === OpportunityLevel.HIGH ? 'bg-orange-600 text-white' :
+                      lead.audit.opportunityLevel === OpportunityLevel.MEDIUM ? 'bg-amber-100 text-amber-700' :
+                      'bg-slate-100 text-slate-600'
+                    }`}>
+                      {lead.audit.opportunityLevel}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button onClick={(e) => { e.stopPropagation(); handleDelete(lead); }} className="text-[10px] font-bold text-slate-300 hover:text-red-500 uppercase tracking-widest opacity-0 group-hover:opacity-100 transition-all">Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {filtered.length > PAGE_SIZE && (
+        <div className="px-6 py-4 border-t border-slate-100 flex items-center justify-between">
+          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            Showing {currentPage * PAGE_SIZE + 1}–{currentPage * PAGE_SIZE + pageLeads.length} of {filtered.length}
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setPage(Math.max(0, currentPage - 1))} disabled={currentPage === 0} className="px-3 py-1.5 rounded-lg text-xs font-bold border border-slate-200 text-slate-600 disabled:opacity-30 hover:bg-slate-50">Prev</button>
+            <span className="text-xs font-bold text-slate-500">{currentPage + 1} / {pageCount}</span>
+            <button onClick={() => setPage(Math.min(pageCount - 1, currentPage + 1))} disabled={currentPage >= pageCount - 1} className="px-3 py-1.5 rounded-lg text-xs font-bold border border-slate-200 text-slate-600 disabled:opacity-30 hover:bg-slate-50">Next</button>
+          </div>
+        </div>
+      )}
+
+      {detailLead && (
+        <LeadDetailDrawer
+          lead={detailLead.audit}
+          onClose={() => setDetailId(null)}
+          onUpdate={handleUpdateAudit}
+          pipeline={{ stages, lead: detailLead, onMove: (stageId) => handleMove(detailLead, stageId) }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LeadLibrary;
@@ -1,129 +1,409 @@
 
-import React from 'react';
+import React, { useState, useMemo } from 'react';
 import { SEOAudit, OpportunityLevel } from '../types';
+import { leadKey } from '../services/leadUtils';
+import { leadVerifier } from '../services/leadVerifier';
+import { contactNormalizer } from '../services/contactNormalizer';
+import LeadDetailDrawer from './LeadDetailDrawer';
+import ExportDialog from './ExportDialog';
+import ReportDialog from './ReportDialog';
+import { leadQuery, LeadFilters, LeadSortKey, SortDirection, EMPTY_LEAD_FILTERS, hasEmail } from '../services/leadQuery';
 
 interface Props {
+  userId: string;
   leads: SEOAudit[];
   groundingSources?: any[];
+  /** Search location of a single run; batch results span several */
+  location?: string;
+  onFindMore?: () => void;
+  isFindingMore?: boolean;
+  /** Bulk action; hidden when the parent does not support removing rows */
+  onRemoveLeads?: (leads: SEOAudit[]) => void;
+  /** Saves edits made in the detail drawer (notes, opportunity level) */
+  onUpdateLead?: (lead: SEOAudit) => void;
+  /** Hands the selected leads to a new Broadcasting campaign */
+  onStartCampaign?: (leads: SEOAudit[]) => void;
 }
 
-const LeadsTable: React.FC<Props> = ({ leads, groundingSources }) => {
+type ColumnId = 'contact' | 'onPage' | 'technical' | 'localSeo' | 'opportunity';
+
+const COLUMNS: { id: ColumnId; label: string; sortKey?: LeadSortKey; align?: 'center' }[] = [
+  { id: 'contact', label: 'Contact' },
+  { id: 'onPage', label: 'On-Page Issues', sortKey: 'onPageCount' },
+  { id: 'technical', label: 'Technical Issues', sortKey: 'technicalCount' },
+  { id: 'localSeo', label: 'Local SEO' },
+  { id: 'opportunity', label: 'Opp.', sortKey: 'opportunity', align: 'center' },
+];
+
+const PAGE_SIZE = 25;
+const ISSUE_PREVIEW_COUNT = 3;
+
+const LeadsTable: React.FC<Props> = ({ userId, leads, groundingSources, location, onFindMore, isFindingMore, onRemoveLeads, onUpdateLead, onStartCampaign }) => {
+  const [page, setPage] = useState(0);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<LeadSortKey | null>(null);
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [filters, setFilters] = useState<LeadFilters>(EMPTY_LEAD_FILTERS);
+  const [visibleColumns, setVisibleColumns] = useState<ColumnId[]>(COLUMNS.map(c => c.id));
+  const [showColumnPicker, setShowColumnPicker] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [copied, setCopied] = useState(false);
+  const [detailKey, setDetailKey] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [reportLeads, setReportLeads] = useState<SEOAudit[] | null>(null);
+
+  const visibleRows = useMemo(
+    () => leadQuery.sort(leadQuery.filter(leads, filters), sortKey, sortDirection),
+    [leads, filters, sortKey, sortDirection]
+  );
+  const selectedLeads = useMemo(() => leads.filter(l => selectedKeys.has(leadKey(l))), [leads, selectedKeys]);
+  const unverifiedCount = useMemo(() => leads.filter(l => !leadVerifier.isVerified(l)).length, [leads]);
+  const detailLead = detailKey ? leads.find(l => leadKey(l) === detailKey) : undefined;
+
   if (leads.length === 0) return null;
 
-  const downloadCSV = () => {
-    // Exact headers required for one-click import
-    const headers = [
-      "Website URL",
-      "Business Name",
-      "Email",
-      "Phone",
-      "Contact Page URL",
-      "On-Page SEO Issues",
-      "Technical SEO Issues",
-      "Local SEO Issues",
-      "Opportunity Level"
-    ];
-
-    const rows = leads.map(lead => [
-      lead.websiteUrl,
-      lead.businessName,
-      lead.email,
-      lead.phone,
-      lead.contactPageUrl,
-      lead.onPageIssues.join('; '),
-      lead.technicalIssues.join('; '),
-      `${lead.localSeoIssues.hasIssues ? 'Yes' : 'No'} - ${lead.localSeoIssues.reason}`,
-      lead.opportunityLevel
-    ]);
-
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.map(value => `"${(value || 'Not Found').toString().replace(/"/g, '""')}"`).join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", `Client_Engine_Leads_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const { rows: pageLeads, page: currentPage, pageCount } = leadQuery.page<SEOAudit>(visibleRows, page, PAGE_SIZE);
+  const columns = COLUMNS.filter(c => visibleColumns.includes(c.id));
+  const allVisibleSelected = visibleRows.length > 0 && visibleRows.every(l => selectedKeys.has(leadKey(l)));
+
+  const updateFilters = (patch: Partial<LeadFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const toggleLevel = (level: OpportunityLevel) => {
+    updateFilters({ levels: filters.levels.includes(level) ? filters.levels.filter(l => l !== level) : [...filters.levels, level] });
+  };
+
+  const handleSort = (key: LeadSortKey) => {
+    if (sortKey === key) {
+      setSortDirection(sortDirection === 'desc' ? 'asc' : 'desc');
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'businessName' ? 'asc' : 'desc');
+    }
+  };
+
+  const toggleColumn = (id: ColumnId) => {
+    setVisibleColumns(prev => prev.includes(id) ? prev.filter(c => c !== id) : COLUMNS.map(c => c.id).filter(c => c === id || prev.includes(c)));
+  };
+
+  const toggleRow = (lead: SEOAudit) => {
+    const key = leadKey(lead);
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  // Header checkbox acts on every row that survives the filters, not just this page
+  const toggleAllVisible = () => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      visibleRows.forEach(l => allVisibleSelected ? next.delete(leadKey(l)) : next.add(leadKey(l)));
+      return next;
+    });
+  };
+
+  const copyEmails = async () => {
+    const emails = selectedLeads.filter(hasEmail).map(l => l.email.trim());
+    await navigator.clipboard.writeText(emails.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const removeSelected = () => {
+    if (!onRemoveLeads || !confirm(`Remove ${selectedLeads.length} leads from these results?`)) return;
+    onRemoveLeads(selectedLeads);
+    setSelectedKeys(new Set());
+  };
+
+  // Inline expanders live inside the clickable row, so keep them from opening the drawer
+  const toggleExpanded = (e: React.MouseEvent, key: string) => {
+    e.stopPropagation();
+    setExpandedKey(expandedKey === key ? null : key);
+  };
+
+  const renderIssues = (issues: string[], key: string) => (
+    <ul className="space-y-0.5 max-w-[260px]">
+      {issues.slice(0, ISSUE_PREVIEW_COUNT).map((issue, i) => (
+        <li key={i} className="text-[10px] text-slate-600 break-words">• {issue}</li>
+      ))}
+      {issues.length > ISSUE_PREVIEW_COUNT && (
+        <li>
+          <button onClick={(e) => toggleExpanded(e, key)} className="text-[10px] font-bold text-blue-600 hover:underline">
+            {expandedKey === key ? 'Show less' : `+${issues.length - ISSUE_PREVIEW_COUNT} more`}
+          </button>
+        </li>
+      )}
+    </ul>
+  );
+
+  const renderCell = (lead: SEOAudit, column: ColumnId, key: string) => {
+    switch (column) {
+      case 'contact':
+        return (
+          <>
+            <div className="text-xs text-slate-600 font-medium">{lead.email}</div>
+            <div className="text-[10px] text-slate-400">{contactNormalizer.formatPhone(lead.phone)}</div>
+            {lead.contactIssues && (
+              <div className="text-[9px] font-bold text-amber-600 uppercase tracking-widest" title={lead.contactIssues.map(i => `${i.field}: ${i.reason}`).join('\n')}>
+                Malformed {lead.contactIssues.map(i => i.field).join(' & ')}
+              </div>
+            )}
+          </>
+        );
+      case 'onPage':
+        return renderIssues(lead.onPageIssues, key);
+      case 'technical':
+        return renderIssues(lead.technicalIssues, key);
+      case 'localSeo':
+        return (
+          <>
+            <div className={`text-[9px] px-1.5 py-0.5 rounded inline-block font-bold uppercase ${lead.localSeoIssues.hasIssues ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
+              {lead.localSeoIssues.hasIssues ? 'Issues' : 'Clean'}
+            </div>
+            <div className="text-[9px] text-slate-400 mt-1 max-w-[200px] break-words">{lead.localSeoIssues.reason}</div>
+          </>
+        );
+      case 'opportunity':
+        return (
+          <button
+            onClick={(e) => toggleExpanded(e, key)}
+            disabled={!lead.scoreBreakdown}
+            className="inline-flex flex-col items-center gap-1 disabled:cursor-default"
+            title={lead.scoreBreakdown ? 'Show score breakdown' : undefined}
+          >
+            <span className={`text-[10px] font-bold px-2 py-1 rounded-lg ${
+              lead.opportunityLevel === OpportunityLevel.HIGH ? 'bg-orange-600 text-white' :
+              lead.opportunityLevel === OpportunityLevel.MEDIUM ? 'bg-amber-100 text-amber-700' :
+              'bg-slate-100 text-slate-600'
+            }`}>
+              {lead.opportunityLevel}
+            </span>
+            {lead.opportunityScore !== undefined && (
+              <span className="text-[10px] font-black text-slate-500 font-mono">{lead.opportunityScore}/100</span>
+            )}
+          </button>
+        );
+    }
   };
 
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border transition-all ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`;
+
+  const sortIndicator = (key?: LeadSortKey) => key && sortKey === key ? (sortDirection === 'desc' ? ' ↓' : ' ↑') : '';
+
   return (
     <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
       <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
         <h3 className="font-bold text-slate-800 tracking-tight">Client Engine Intelligence Dashboard</h3>
         <button 
-          onClick={downloadCSV}
+          onClick={() => setShowExport(true)}
           className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 transition-all shadow-md active:scale-95"
         >
           <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
           </svg>
-          Export CSV (Excel)
+          Export
         </button>
       </div>
+
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-col lg:flex-row lg:items-center gap-4">
+        <input
+          type="text"
+          placeholder="Search name, domain, email or issue..."
+          className="w-full lg:w-80 px-4 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none transition-all text-sm"
+          value={filters.text}
+          onChange={(e) => updateFilters({ text: e.target.value })}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          {[OpportunityLevel.HIGH, OpportunityLevel.MEDIUM, OpportunityLevel.LOW].map(level => (
+            <button key={level} onClick={() => toggleLevel(level)} className={chipClass(filters.levels.includes(level))}>{level}</button>
+          ))}
+          <button onClick={() => updateFilters({ localSeoIssuesOnly: !filters.localSeoIssuesOnly })} className={chipClass(filters.localSeoIssuesOnly)}>Local SEO Issues</button>
+          <button onClick={() => updateFilters({ hasEmailOnly: !filters.hasEmailOnly })} className={chipClass(filters.hasEmailOnly)}>Has Email</button>
+          <button onClick={() => updateFilters({ verifiedOnly: !filters.verifiedOnly })} className={chipClass(filters.verifiedOnly)}>
+            Verified Only{unverifiedCount > 0 && ` • ${unverifiedCount} flagged`}
+          </button>
+          {leadQuery.isFiltered(filters) && (
+            <button onClick={() => updateFilters(EMPTY_LEAD_FILTERS)} className="text-[10px] font-bold text-slate-400 hover:text-slate-700 uppercase tracking-widest ml-1">Clear</button>
+          )}
+        </div>
+        <div className="relative lg:ml-auto">
+          <button onClick={() => setShowColumnPicker(!showColumnPicker)} className="px-3 py-1.5 rounded-lg text-xs font-bold border border-slate-200 text-slate-600 hover:bg-slate-50">
+            Columns ({columns.length}/{COLUMNS.length})
+          </button>
+          {showColumnPicker && (
+            <div className="absolute right-0 mt-2 z-10 bg-white border border-slate-200 rounded-xl shadow-lg p-3 w-52 space-y-2">
+              {COLUMNS.map(c => (
+                <label key={c.id} className="flex items-center gap-2 text-xs font-semibold text-slate-600 cursor-pointer">
+                  <input type="checkbox" checked={visibleColumns.includes(c.id)} onChange={() => toggleColumn(c.id)} />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedLeads.length > 0 && (
+        <div className="px-6 py-3 border-b border-blue-100 bg-blue-50/60 flex flex-wrap items-center gap-3">
+          <span className="text-[10px] font-black text-blue-700 uppercase tracking-widest">{selectedLeads.length} selected</span>
+          {onStartCampaign && (
+            <button
+              onClick={() => onStartCampaign(selectedLeads)}
+              disabled={!selectedLeads.some(hasEmail)}
+              className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+            >
+              Start Campaign
+            </button>
+          )}
+          <button onClick={() => setShowExport(true)} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white border border-blue-200 text-blue-700 hover:bg-blue-50">Export Selected</button>
+          <button onClick={() => setReportLeads(selectedLeads)} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white border border-blue-200 text-blue-700 hover:bg-blue-50">Audit Reports</button>
+          <button onClick={copyEmails} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white border border-blue-200 text-blue-700 hover:bg-blue-50">
+            {copied ? 'Copied' : `Copy Emails (${selectedLeads.filter(hasEmail).length})`}
+          </button>
+          {onRemoveLeads && (
+            <button onClick={removeSelected} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white border border-red-200 text-red-600 hover:bg-red-50">Remove</button>
+          )}
+          <button onClick={() => setSelectedKeys(new Set())} className="text-[10px] font-bold text-slate-400 hover:text-slate-700 uppercase tracking-widest ml-auto">Clear Selection</button>
+        </div>
+      )}
+
       <div className="overflow-x-auto">
         <table className="w-full text-left border-collapse">
           <thead>
             <tr className="bg-slate-50 border-b border-slate-200">
-              <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Business / URL</th>
-              <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Contact</th>
-              <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">On-Page Issues</th>
-              <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Technical Issues</th>
-              <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Local SEO</th>
-              <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider text-center">Opp.</th>
+              <th className="pl-6 py-4 w-8">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} title="Select all matching rows" />
+              </th>
+              <th className="px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                <button onClick={() => handleSort('businessName')} className="uppercase tracking-wider hover:text-slate-800">Business / URL{sortIndicator('businessName')}</button>
+              </th>
+              {columns.map(c => (
+                <th key={c.id} className={`px-6 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-wider ${c.align === 'center' ? 'text-center' : ''}`}>
+                  {c.sortKey ? (
+                    <button onClick={() => handleSort(c.sortKey!)} className="uppercase tracking-wider hover:text-slate-800">{c.label}{sortIndicator(c.sortKey)}</button>
+                  ) : c.label}
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100">
-            {leads.map((lead, idx) => (
-              <tr key={idx} className="hover:bg-slate-50/80 transition-colors group">
-                <td className="px-6 py-4">
-                  <div className="font-bold text-slate-900 text-sm mb-0.5">{lead.businessName}</div>
-                  <div className="text-xs text-blue-600 truncate max-w-[150px]">{lead.websiteUrl}</div>
-                </td>
-                <td className="px-6 py-4">
-                  <div className="text-xs text-slate-600 font-medium">{lead.email}</div>
-                  <div className="text-[10px] text-slate-400">{lead.phone}</div>
-                </td>
-                <td className="px-6 py-4">
-                  <ul className="space-y-0.5">
-                    {lead.onPageIssues.slice(0, 2).map((issue, i) => (
-                      <li key={i} className="text-[10px] text-slate-600 truncate max-w-[120px]">• {issue}</li>
-                    ))}
-                  </ul>
-                </td>
-                <td className="px-6 py-4">
-                   <ul className="space-y-0.5">
-                    {lead.technicalIssues.slice(0, 2).map((issue, i) => (
-                      <li key={i} className="text-[10px] text-slate-600 truncate max-w-[120px]">• {issue}</li>
-                    ))}
-                  </ul>
-                </td>
-                <td className="px-6 py-4">
-                  <div className={`text-[9px] px-1.5 py-0.5 rounded inline-block font-bold uppercase ${lead.localSeoIssues.hasIssues ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
-                    {lead.localSeoIssues.hasIssues ? 'Issues' : 'Clean'}
-                  </div>
-                  <div className="text-[9px] text-slate-400 mt-1 truncate max-w-[100px]">{lead.localSeoIssues.reason}</div>
-                </td>
-                <td className="px-6 py-4 text-center">
-                  <span className={`text-[10px] font-bold px-2 py-1 rounded-lg ${
-                    lead.opportunityLevel === OpportunityLevel.HIGH ? 'bg-orange-600 text-white' :
-                    lead.opportunityLevel === OpportunityLevel.MEDIUM ? 'bg-amber-100 text-amber-700' :
-                    'bg-slate-100 text-slate-600'
-                  }`}>
-                    {lead.opportunityLevel}
-                  </span>
-                </td>
+            {pageLeads.length === 0 && (
+              <tr>
+                <td colSpan={columns.length + 2} className="py-16 text-center text-slate-400 text-sm font-bold italic">No leads match these filters.</td>
               </tr>
-            ))}
+            )}
+            {pageLeads.map(lead => {
+              const key = leadKey(lead);
+              const isSelected = selectedKeys.has(key);
+              return (
+                <React.Fragment key={key}>
+                  <tr
+                    onClick={() => setDetailKey(key)}
+                    className={`transition-colors group cursor-pointer ${isSelected ? 'bg-blue-50/40' : 'hover:bg-slate-50/80'}`}
+                  >
+                    <td className="pl-6 py-4 align-top" onClick={(e) => e.stopPropagation()}>
+                      <input type="checkbox" checked={isSelected} onChange={() => toggleRow(lead)} />
+                    </td>
+                    <td className="px-6 py-4 align-top">
+                      <div className="font-bold text-slate-900 text-sm mb-0.5">
+                        {lead.businessName}
+                        {lead.verification && lead.verification.status !== 'VERIFIED' && (
+                          <span
+                            title={lead.verification.reasons.join('\n')}
+                            className={`ml-2 text-[8px] px-1.5 py-0.5 rounded font-black uppercase tracking-widest align-middle ${lead.verification.status === 'FAILED' ? 'bg-red-600 text-white' : 'bg-amber-100 text-amber-700'}`}
+                          >
+                            {lead.verification.status === 'FAILED' ? 'Unverified' : 'Ungrounded'}
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-blue-600 truncate max-w-[220px]">{lead.websiteUrl}</div>
+                    </td>
+                    {columns.map(c => (
+                      <td key={c.id} className={`px-6 py-4 align-top ${c.align === 'center' ? 'text-center' : ''}`}>
+                        {renderCell(lead, c.id, key)}
+                      </td>
+                    ))}
+                  </tr>
+                  {expandedKey === key && (
+                    <tr className="bg-slate-50/60">
+                      <td colSpan={columns.length + 2} className="px-6 py-4 space-y-4">
+                        {(lead.onPageIssues.length > ISSUE_PREVIEW_COUNT || lead.technicalIssues.length > ISSUE_PREVIEW_COUNT) && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {[{ label: 'On-Page Issues', issues: lead.onPageIssues }, { label: 'Technical Issues', issues: lead.technicalIssues }].map(group => (
+                              <div key={group.label}>
+                                <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">{group.label} • {group.issues.length}</div>
+                                <ul className="space-y-1">
+                                  {group.issues.map((issue, i) => <li key={i} className="text-xs text-slate-600">• {issue}</li>)}
+                                </ul>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {lead.scoreBreakdown && (
+                          <div>
+                            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Score Breakdown • {lead.opportunityScore}/100</div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                              {lead.scoreBreakdown.map(c => (
+                                <div key={c.rule} className={`flex items-start justify-between gap-4 px-3 py-2 rounded-xl border ${c.points > 0 ? 'bg-white border-slate-200' : 'bg-transparent border-dashed border-slate-200 opacity-60'}`}>
+                                  <div className="min-w-0">
+                                    <div className="text-xs font-bold text-slate-700">{c.label}</div>
+                                    <div className="text-[10px] text-slate-400 truncate">{c.detail}</div>
+                                  </div>
+                                  <div className="text-xs font-black text-blue-600 font-mono">+{c.points}</div>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
           </tbody>
         </table>
       </div>
 
+      <div className="px-6 py-4 border-t border-slate-100 flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          {visibleRows.length === 0 ? 'No matches' : `Showing ${currentPage * PAGE_SIZE + 1}–${currentPage * PAGE_SIZE + pageLeads.length} of ${visibleRows.length}`}
+          {visibleRows.length !== leads.length && ` • ${leads.length} total`}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage(Math.max(0, currentPage - 1))}
+            disabled={currentPage === 0}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold border border-slate-200 text-slate-600 disabled:opacity-30 hover:bg-slate-50"
+          >
+            Prev
+          </button>
+          <span className="text-xs font-bold text-slate-500">{currentPage + 1} / {pageCount}</span>
+          <button
+            onClick={() => setPage(Math.min(pageCount - 1, currentPage + 1))}
+            disabled={currentPage >= pageCount - 1}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold border border-slate-200 text-slate-600 disabled:opacity-30 hover:bg-slate-50"
+          >
+            Next
+          </button>
+          {onFindMore && (
+            <button
+              onClick={onFindMore}
+              disabled={isFindingMore}
+              className="ml-4 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400 text-white px-4 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2 transition-all"
+            >
+              {isFindingMore && <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>}
+              {isFindingMore ? 'Finding More...' : 'Find More'}
+            </button>
+          )}
+        </div>
+      </div>
+
       {groundingSources && groundingSources.length > 0 && (
         <div className="px-6 py-6 bg-slate-50 border-t border-slate-200">
           <div className="flex items-center gap-2 mb-4">
@@ -154,6 +434,25 @@ const LeadsTable: React.FC<Props> = ({ leads, groundingSources }) => {
           </div>
         </div>
       )}
+
+      {showExport && (
+        <ExportDialog
+          userId={userId}
+          allLeads={leads}
+          filteredLeads={visibleRows}
+          selectedLeads={selectedLeads}
+          location={location}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {detailLead && (
+        <LeadDetailDrawer lead={detailLead} onClose={() => setDetailKey(null)} onUpdate={onUpdateLead} onOpenReport={() => setReportLeads([detailLead])} />
+      )}
+
+      {reportLeads && (
+        <ReportDialog userId={userId} leads={reportLeads} onClose={() => setReportLeads(null)} />
+      )}
     </div>
   );
 };
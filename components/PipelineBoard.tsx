@@ -0,0 +1,251 @@
+import React, { useState, useMemo } from 'react';
+import { User, StoredLead, SEOAudit, PipelineStage, PipelineStageKind, PipelineTrigger, OpportunityLevel } from '../types';
+import { backendService } from '../services/backendService';
+import { pipelineService } from '../services/pipelineService';
+import LeadDetailDrawer from './LeadDetailDrawer';
+
+interface Props {
+  user: User;
+}
+
+const TRIGGER_LABELS: Record<PipelineTrigger, string> = {
+  EMAIL_SENT: 'Email sent',
+  EMAIL_OPENED: 'Email opened',
+};
+
+const KIND_LABELS: Record<PipelineStageKind, string> = {
+  OPEN: 'Open',
+  WON: 'Won',
+  LOST: 'Lost',
+};
+
+const PipelineBoard: React.FC<Props> = ({ user }) => {
+  const [stages, setStages] = useState<PipelineStage[]>(() => pipelineService.getStages(user.id));
+  const [version, setVersion] = useState(0);
+  const [query, setQuery] = useState('');
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropStageId, setDropStageId] = useState<string | null>(null);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [draftStages, setDraftStages] = useState<PipelineStage[] | null>(null);
+  const [stageError, setStageError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const leads = useMemo(() => {
+    return backendService.getLeads(user.id).sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }, [user.id, version]);
+
+  const columns = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const visible = q
+      ? leads.filter(l => l.domain.includes(q) || l.audit.businessName.toLowerCase().includes(q))
+      : leads;
+    const byStage = new Map<string, StoredLead[]>(stages.map(s => [s.id, []]));
+    visible.forEach(lead => byStage.get(pipelineService.stageOf(lead, stages).id)!.push(lead));
+    return byStage;
+  }, [leads, stages, query]);
+
+  const detailLead = detailId ? leads.find(l => l.id === detailId) : undefined;
+
+  // Library writes throw once browser storage is full; show why the change did not stick
+  const persist = (write: () => void) => {
+    try {
+      write();
+      setSaveError(null);
+    } catch (err: any) {
+      setSaveError(err.message);
+    }
+    setVersion(v => v + 1);
+  };
+
+  const move = (lead: StoredLead, stageId: string) => {
+    persist(() => pipelineService.moveLead(lead, stageId, stages));
+  };
+
+  const handleDrop = (e: React.DragEvent, stageId: string) => {
+    e.preventDefault();
+    const lead = leads.find(l => l.id === (dragId || e.dataTransfer.getData('text/plain')));
+    if (lead) move(lead, stageId);
+    setDragId(null);
+    setDropStageId(null);
+  };
+
+  const handleUpdateAudit = (audit: SEOAudit) => {
+    persist(() => backendService.updateStoredAudit(user.id, audit));
+  };
+
+  /* ===== Stage editor ===== */
+
+  const updateDraft = (idx: number, patch: Partial<PipelineStage>) => {
+    setDraftStages(prev => prev && prev.map((s, i) => i === idx ? { ...s, ...patch } : s));
+  };
+
+  const moveDraft = (idx: number, delta: number) => {
+    setDraftStages(prev => {
+      if (!prev || idx + delta < 0 || idx + delta >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[idx + delta]] = [next[idx + delta], next[idx]];
+      return next;
+    });
+  };
+
+  const toggleTrigger = (idx: number, trigger: PipelineTrigger) => {
+    setDraftStages(prev => prev && prev.map((s, i) => {
+      // A trigger can only point at one stage
+      const has = (s.triggers || []).includes(trigger);
+      const triggers = (s.triggers || []).filter(t => t !== trigger);
+      return { ...s, triggers: i === idx && !has ? [...triggers, trigger] : triggers };
+    }));
+  };
+
+  const saveDraft = () => {
+    if (!draftStages) return;
+    try {
+      pipelineService.saveStages(user.id, draftStages);
+      setStages(pipelineService.getStages(user.id));
+      setDraftStages(null);
+      setStageError(null);
+    } catch (err: any) {
+      setStageError(err.message);
+    }
+  };
+
+  const removeDraft = (idx: number) => {
+    const stage = draftStages![idx];
+    const count = columns.get(stage.id)?.length || 0;
+    if (count > 0 && !confirm(`${count} lead${count === 1 ? '' : 's'} in ${stage.name} will move to the first stage. Remove it?`)) return;
+    setDraftStages(prev => prev && prev.filter((_, i) => i !== idx));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-slate-50/50">
+        <div>
+          <h3 className="font-bold text-slate-800 tracking-tight">Pipeline</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{leads.length} leads • drag a card to change its stage</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            placeholder="Filter by business or domain..."
+            className="w-full md:w-72 px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none transition-all text-sm"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <button
+            onClick={() => { setDraftStages(draftStages ? null : stages); setStageError(null); }}
+            className="shrink-0 px-4 py-2.5 rounded-xl text-[10px] font-bold uppercase tracking-widest border border-slate-200 text-slate-600 hover:bg-white"
+          >
+            {draftStages ? 'Close Stages' : 'Edit Stages'}
+          </button>
+        </div>
+      </div>
+
+      {saveError && <p className="px-6 py-3 border-b border-slate-100 text-xs font-bold text-red-500">{saveError}</p>}
+
+      {draftStages && (
+        <div className="px-6 py-5 border-b border-slate-100 space-y-2">
+          {draftStages.map((stage, idx) => (
+            <div key={stage.id} className="flex flex-wrap items-center gap-3">
+              <input type="color" value={stage.color} onChange={(e) => updateDraft(idx, { color: e.target.value })} className="w-8 h-8 rounded cursor-pointer" />
+              <input
+                type="text"
+                value={stage.name}
+                onChange={(e) => updateDraft(idx, { name: e.target.value })}
+                className="w-40 px-3 py-1.5 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <select
+                value={stage.kind}
+                onChange={(e) => updateDraft(idx, { kind: e.target.value as PipelineStageKind })}
+                className="px-2 py-1.5 rounded-lg border border-slate-200 text-xs"
+              >
+                {(Object.keys(KIND_LABELS) as PipelineStageKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+              </select>
+              {(Object.keys(TRIGGER_LABELS) as PipelineTrigger[]).map(t => (
+                <label key={t} className="flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                  <input type="checkbox" checked={(stage.triggers || []).includes(t)} onChange={() => toggleTrigger(idx, t)} />
+                  {TRIGGER_LABELS[t]}
+                </label>
+              ))}
+              <div className="flex items-center gap-1 ml-auto">
+                <button onClick={() => moveDraft(idx, -1)} disabled={idx === 0} className="px-2 text-slate-400 hover:text-slate-800 disabled:opacity-30">↑</button>
+                <button onClick={() => moveDraft(idx, 1)} disabled={idx === draftStages.length - 1} className="px-2 text-slate-400 hover:text-slate-800 disabled:opacity-30">↓</button>
+                <button onClick={() => removeDraft(idx)} className="px-2 text-[10px] font-bold text-slate-300 hover:text-red-500 uppercase tracking-widest">Remove</button>
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center gap-3 pt-3">
+            <button
+              onClick={() => setDraftStages([...draftStages, { id: `stage-${Date.now().toString(36)}`, name: 'New Stage', color: '#64748b', kind: 'OPEN' }])}
+              className="px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest border border-slate-200 text-slate-600 hover:bg-slate-50"
+            >
+              Add Stage
+            </button>
+            <button onClick={saveDraft} className="px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-700">Save Stages</button>
+            {stageError && <span className="text-xs font-bold text-red-500">{stageError}</span>}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto p-6">
+        <div className="flex gap-4 min-h-[480px]">
+          {stages.map(stage => {
+            const stageLeads = columns.get(stage.id) || [];
+            return (
+              <div
+                key={stage.id}
+                onDragOver={(e) => { e.preventDefault(); setDropStageId(stage.id); }}
+                onDragLeave={() => setDropStageId(prev => prev === stage.id ? null : prev)}
+                onDrop={(e) => handleDrop(e, stage.id)}
+                className={`w-64 shrink-0 rounded-2xl border p-3 flex flex-col transition-colors ${dropStageId === stage.id ? 'bg-blue-50 border-blue-300' : 'bg-slate-50 border-slate-100'}`}
+              >
+                <div className="flex items-center justify-between px-1 mb-3">
+                  <div className="flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: stage.color }}></span>
+                    <span className="text-[10px] font-black text-slate-700 uppercase tracking-widest">{stage.name}</span>
+                  </div>
+                  <span className="text-[10px] font-bold text-slate-400">{stageLeads.length}</span>
+                </div>
+                <div className="space-y-2 flex-1">
+                  {stageLeads.map(lead => (
+                    <div
+                      key={lead.id}
+                      draggable
+                      onDragStart={(e) => { setDragId(lead.id); e.dataTransfer.setData('text/plain', lead.id); e.dataTransfer.effectAllowed = 'move'; }}
+                      onDragEnd={() => { setDragId(null); setDropStageId(null); }}
+                      onClick={() => setDetailId(lead.id)}
+                      className={`bg-white rounded-xl border border-slate-200 p-3 cursor-grab active:cursor-grabbing hover:border-blue-300 transition-all ${dragId === lead.id ? 'opacity-40' : ''}`}
+                    >
+                      <div className="font-bold text-slate-900 text-xs truncate">{lead.audit.businessName}</div>
+                      <div className="text-[10px] text-blue-600 truncate">{lead.domain}</div>
+                      <div className="flex items-center justify-between mt-2">
+                        <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded ${
+                          lead.audit.opportunityLevel === OpportunityLevel.HIGH ? 'bg-orange-600 text-white' :
+                          lead.audit.opportunityLevel === OpportunityLevel.MEDIUM ? 'bg-amber-100 text-amber-700' :
+                          'bg-slate-100 text-slate-600'
+                        }`}>
+                          {lead.audit.opportunityLevel}
+                        </span>
+                        <span className="text-[9px] font-bold text-slate-400">{pipelineService.daysInStage(lead)}d in stage</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {detailLead && (
+        <LeadDetailDrawer
+          lead={detailLead.audit}
+          onClose={() => setDetailId(null)}
+          onUpdate={handleUpdateAudit}
+          pipeline={{ stages, lead: detailLead, onMove: (stageId) => move(detailLead, stageId) }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PipelineBoard;
@@ -0,0 +1,158 @@
+import React, { useState, useMemo } from 'react';
+import { SEOAudit, ReportBranding } from '../types';
+import { reportService } from '../services/reportService';
+
+interface Props {
+  userId: string;
+  leads: SEOAudit[];
+  onClose: () => void;
+}
+
+const MAX_LOGO_BYTES = 200 * 1024;
+
+const ReportDialog: React.FC<Props> = ({ userId, leads, onClose }) => {
+  const [branding, setBranding] = useState<ReportBranding>(() => reportService.getBranding(userId));
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [showBranding, setShowBranding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const preview = leads[Math.min(previewIndex, leads.length - 1)];
+  const previewHtml = useMemo(() => preview ? reportService.buildHtml(preview, branding) : '', [preview, branding]);
+
+  const update = (patch: Partial<ReportBranding>) => {
+    setBranding(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  const saveBranding = () => {
+    setError(null);
+    try {
+      reportService.saveBranding(userId, branding);
+      setSaved(true);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Logos are embedded in every report and stored locally, so keep them small
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('Logo must be under 200 KB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => update({ logoUrl: String(reader.result) });
+    reader.readAsDataURL(file);
+  };
+
+  const handlePrint = () => {
+    setError(null);
+    try {
+      reportService.print(preview, branding);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const fieldClass = 'w-full px-3 py-2 rounded-xl border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-blue-500';
+  const labelClass = 'text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1 block';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[92vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800 tracking-tight">Audit Reports • {leads.length} {leads.length === 1 ? 'Lead' : 'Leads'}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-800 text-2xl leading-none font-light">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {leads.length > 1 && (
+              <select value={previewIndex} onChange={e => setPreviewIndex(Number(e.target.value))} className="px-3 py-2 rounded-xl border border-slate-200 text-sm bg-white max-w-xs">
+                {leads.map((l, i) => <option key={i} value={i}>{l.businessName}</option>)}
+              </select>
+            )}
+            <button onClick={() => setShowBranding(v => !v)} className="px-3 py-2 rounded-xl text-xs font-bold border border-slate-200 text-slate-600 hover:bg-slate-50">
+              {showBranding ? 'Hide Branding' : 'Branding & Contact'}
+            </button>
+          </div>
+
+          {showBranding && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 rounded-xl border border-slate-100 bg-slate-50/50">
+              <div>
+                <label className={labelClass}>Agency name</label>
+                <input value={branding.agencyName} onChange={e => update({ agencyName: e.target.value })} className={fieldClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Logo (URL or upload)</label>
+                <div className="flex gap-2">
+                  <input value={branding.logoUrl?.startsWith('data:') ? 'Uploaded image' : branding.logoUrl || ''} onChange={e => update({ logoUrl: e.target.value })} disabled={branding.logoUrl?.startsWith('data:')} placeholder="https://..." className={fieldClass} />
+                  {branding.logoUrl ? (
+                    <button onClick={() => update({ logoUrl: undefined })} className="px-3 rounded-xl text-xs font-bold border border-slate-200 text-slate-500 hover:text-red-500">Clear</button>
+                  ) : (
+                    <label className="px-3 py-2 rounded-xl text-xs font-bold border border-slate-200 text-slate-600 hover:bg-white cursor-pointer whitespace-nowrap">
+                      Upload
+                      <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+                    </label>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-4">
+                <div>
+                  <label className={labelClass}>Primary</label>
+                  <input type="color" value={branding.primaryColor} onChange={e => update({ primaryColor: e.target.value })} className="h-10 w-16 rounded-lg border border-slate-200" />
+                </div>
+                <div>
+                  <label className={labelClass}>Accent</label>
+                  <input type="color" value={branding.accentColor} onChange={e => update({ accentColor: e.target.value })} className="h-10 w-16 rounded-lg border border-slate-200" />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Sender name</label>
+                <input value={branding.senderName} onChange={e => update({ senderName: e.target.value })} className={fieldClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Sender email</label>
+                <input value={branding.senderEmail} onChange={e => update({ senderEmail: e.target.value })} className={fieldClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Phone</label>
+                <input value={branding.senderPhone || ''} onChange={e => update({ senderPhone: e.target.value })} className={fieldClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Website</label>
+                <input value={branding.senderWebsite || ''} onChange={e => update({ senderWebsite: e.target.value })} placeholder="https://" className={fieldClass} />
+              </div>
+              <div className="md:col-span-2 flex items-center justify-end gap-3">
+                {saved && <span className="text-[10px] font-bold text-emerald-600 uppercase tracking-widest">Saved</span>}
+                <button onClick={saveBranding} className="px-4 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-700">Save Branding</button>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+          <iframe title="Report preview" srcDoc={previewHtml} sandbox="" className="w-full h-[55vh] rounded-xl border border-slate-200 bg-white" />
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex flex-wrap justify-end gap-2">
+          <button onClick={handlePrint} className="px-5 py-2.5 rounded-xl text-sm font-bold border border-slate-200 text-slate-700 hover:bg-slate-50">
+            Print / Save PDF
+          </button>
+          <button
+            onClick={() => reportService.download(leads, branding)}
+            className="bg-emerald-600 hover:bg-emerald-700 text-white px-6 py-2.5 rounded-xl text-sm font-bold transition-all shadow-md active:scale-95"
+          >
+            {leads.length === 1 ? 'Download HTML' : `Download ${leads.length} Reports (.zip)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportDialog;
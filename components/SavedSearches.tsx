@@ -0,0 +1,200 @@
+import React, { useState, useMemo } from 'react';
+import { User, SavedSearch, SavedSearchFilters, SearchQuery, OpportunityLevel } from '../types';
+import { backendService } from '../services/backendService';
+import { savedSearchService } from '../services/savedSearchService';
+import { cronSchedule, CRON_PRESETS } from '../services/cronSchedule';
+import { planService, DEFAULT_RESULTS_PER_RUN } from '../services/planService';
+
+interface Props {
+  user: User;
+  /** Last query run from the search form, used to prefill a new saved search */
+  lastQuery?: SearchQuery;
+  /** Bumped by the parent whenever the scheduler touches saved searches */
+  version: number;
+  onUserUpdate: (user: User) => void;
+}
+
+const SavedSearches: React.FC<Props> = ({ user, lastQuery, version, onUserUpdate }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [localVersion, setLocalVersion] = useState(0);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [niche, setNiche] = useState('');
+  const [location, setLocation] = useState('');
+  const [count, setCount] = useState(DEFAULT_RESULTS_PER_RUN);
+  const [schedule, setSchedule] = useState(CRON_PRESETS[3].expression);
+  const [filters, setFilters] = useState<SavedSearchFilters>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const searches = useMemo(() => backendService.getSavedSearches(user.id), [user.id, version, localVersion]);
+  const maxResults = planService.maxResultsPerRun(user);
+  const scheduleError = schedule.trim() ? cronSchedule.validate(schedule) : 'Schedule is required';
+  const nextPreview = scheduleError ? null : cronSchedule.nextRun(schedule);
+
+  const openForm = () => {
+    setNiche(lastQuery?.niche || '');
+    setLocation(lastQuery?.location || '');
+    setCount(lastQuery?.count || Math.min(DEFAULT_RESULTS_PER_RUN, maxResults));
+    setName('');
+    setFilters({});
+    setFormError(null);
+    setIsCreating(true);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!niche.trim() || !location.trim()) {
+      setFormError('Niche and location are required.');
+      return;
+    }
+    try {
+      savedSearchService.create(user, { name, query: { niche: niche.trim(), location: location.trim(), count }, filters, schedule });
+      setIsCreating(false);
+      setLocalVersion(v => v + 1);
+    } catch (err: any) {
+      setFormError(err.message);
+    }
+  };
+
+  const handleRunNow = async (search: SavedSearch) => {
+    setRunningId(search.id);
+    try {
+      const result = await savedSearchService.run(user, search);
+      onUserUpdate(result.user);
+    } finally {
+      setRunningId(null);
+      setLocalVersion(v => v + 1);
+    }
+  };
+
+  const handleToggle = (search: SavedSearch) => {
+    savedSearchService.setEnabled(search, !search.enabled);
+    setLocalVersion(v => v + 1);
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    if (!confirm(`Delete saved search "${search.name}"?`)) return;
+    backendService.deleteSavedSearch(search.id);
+    setLocalVersion(v => v + 1);
+  };
+
+  const describeFilters = (f: SavedSearchFilters) => [
+    f.minOpportunity && `≥ ${f.minOpportunity}`,
+    f.requireEmail && 'Has email',
+    f.localSeoIssuesOnly && 'Local SEO issues',
+  ].filter(Boolean).join(' • ') || 'No filters';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+        <div>
+          <h3 className="font-bold text-slate-800 tracking-tight">Saved Searches</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Runs on schedule while the app is open • each run uses one query</p>
+        </div>
+        {!isCreating && (
+          <button onClick={openForm} className="px-4 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 transition-all">
+            + Save Search
+          </button>
+        )}
+      </div>
+
+      {isCreating && (
+        <form onSubmit={handleCreate} className="p-6 border-b border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="Name (optional)" className="px-4 py-2.5 rounded-xl border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-blue-500" />
+          <input value={niche} onChange={e => setNiche(e.target.value)} placeholder="Niche" className="px-4 py-2.5 rounded-xl border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-blue-500" />
+          <input value={location} onChange={e => setLocation(e.target.value)} placeholder="Location" className="px-4 py-2.5 rounded-xl border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-blue-500" />
+
+          <div className="flex flex-col">
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Results per run</label>
+            <input type="number" min={5} max={maxResults} value={count} onChange={e => setCount(parseInt(e.target.value, 10))} className="px-4 py-2.5 rounded-xl border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-blue-500" />
+          </div>
+
+          <div className="flex flex-col md:col-span-2">
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Schedule (cron)</label>
+            <div className="flex gap-2">
+              <select value={CRON_PRESETS.some(p => p.expression === schedule) ? schedule : ''} onChange={e => e.target.value && setSchedule(e.target.value)} className="px-3 py-2.5 rounded-xl border border-slate-200 text-sm bg-white">
+                <option value="">Custom</option>
+                {CRON_PRESETS.map(p => <option key={p.expression} value={p.expression}>{p.label}</option>)}
+              </select>
+              <input value={schedule} onChange={e => setSchedule(e.target.value)} className="flex-1 px-4 py-2.5 rounded-xl border border-slate-200 text-sm font-mono outline-none focus:ring-2 focus:ring-blue-500" />
+            </div>
+            <span className={`text-[10px] font-bold mt-1 ${scheduleError ? 'text-red-500' : 'text-slate-400'}`}>
+              {scheduleError || (nextPreview ? `Next run ${nextPreview.toLocaleString()}` : 'Never matches within a year')}
+            </span>
+          </div>
+
+          <div className="md:col-span-3 flex flex-wrap items-center gap-4 text-xs font-semibold text-slate-600">
+            <label className="flex items-center gap-2">
+              Min opportunity
+              <select value={filters.minOpportunity || ''} onChange={e => setFilters({ ...filters, minOpportunity: (e.target.value || undefined) as OpportunityLevel | undefined })} className="px-2 py-1 rounded-lg border border-slate-200 bg-white">
+                <option value="">Any</option>
+                <option value={OpportunityLevel.MEDIUM}>Medium+</option>
+                <option value={OpportunityLevel.HIGH}>High</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={!!filters.requireEmail} onChange={e => setFilters({ ...filters, requireEmail: e.target.checked })} />
+              Has email
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={!!filters.localSeoIssuesOnly} onChange={e => setFilters({ ...filters, localSeoIssuesOnly: e.target.checked })} />
+              Local SEO issues only
+            </label>
+          </div>
+
+          {formError && <p className="md:col-span-3 text-xs font-bold text-red-500">{formError}</p>}
+
+          <div className="md:col-span-3 flex justify-end gap-2">
+            <button type="button" onClick={() => setIsCreating(false)} className="px-4 py-2 rounded-xl text-xs font-bold border border-slate-200 text-slate-600 hover:bg-slate-50">Cancel</button>
+            <button type="submit" disabled={!!scheduleError} className="px-4 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40">Save</button>
+          </div>
+        </form>
+      )}
+
+      {searches.length === 0 ? (
+        !isCreating && <div className="py-10 text-center text-slate-400 text-sm font-bold italic">No saved searches yet.</div>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {searches.map(search => (
+            <div key={search.id} className="px-6 py-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <div className="font-bold text-slate-900 text-sm">{search.name}</div>
+                <div className="text-xs text-slate-500">
+                  {search.query.niche} • {search.query.location} • {search.query.count} results • {describeFilters(search.filters)}
+                </div>
+                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                  {cronSchedule.describe(search.schedule)}
+                  {search.enabled && search.nextRunAt && ` • next ${new Date(search.nextRunAt).toLocaleString()}`}
+                  {search.lastRunAt && ` • last ${new Date(search.lastRunAt).toLocaleString()}`}
+                </div>
+                {search.lastRunStatus === 'OK' && (
+                  <div className="text-[10px] font-bold text-emerald-600 mt-1">{search.lastNetNewCount || 0} net-new on last run</div>
+                )}
+                {search.lastRunStatus === 'OK' && search.lastRunError && (
+                  <div className="text-[10px] font-bold text-amber-600 mt-1">{search.lastRunError}</div>
+                )}
+                {search.lastRunStatus === 'CANCELLED' && (
+                  <div className="text-[10px] font-bold text-slate-500 mt-1">Cancelled, not charged: {search.lastRunError}</div>
+                )}
+                {search.lastRunStatus && search.lastRunStatus !== 'OK' && search.lastRunStatus !== 'CANCELLED' && (
+                  <div className="text-[10px] font-bold text-red-500 mt-1">{search.lastRunStatus}: {search.lastRunError}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => handleToggle(search)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border ${search.enabled ? 'border-emerald-200 text-emerald-700 bg-emerald-50' : 'border-slate-200 text-slate-400'}`}>
+                  {search.enabled ? 'Active' : 'Paused'}
+                </button>
+                <button onClick={() => handleRunNow(search)} disabled={!!runningId || planService.isLocked(user)} className="px-3 py-1.5 rounded-lg text-xs font-bold border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-30">
+                  {runningId === search.id ? 'Running...' : 'Run Now'}
+                </button>
+                <button onClick={() => handleDelete(search)} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-300 hover:text-red-500">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearches;
@@ -1,6 +1,21 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { SEOAudit, OutreachLead, OpportunityLevel, AiProvider, ApiConfig } from "./types";
+import { GoogleGenAI } from "@google/genai";
+import { SEOAudit, OutreachLead, AiProvider, ApiConfig, RejectedRow, User, LeadGenStage } from "./types";
+import { siteAuditor, ResourceFetcher } from "./services/siteAuditor";
+import { schemaValidator } from "./services/schemaValidator";
+import { llmAdapter, JsonSchema } from "./services/llmAdapter";
+import { credentialService } from "./services/credentialService";
+import { normalizeDomain, sourcesForLead, mergeUniqueLeads } from "./services/leadUtils";
+import { DEFAULT_RESULTS_PER_RUN } from "./services/planService";
+import { scoringService } from "./services/scoringService";
+import { backendService } from "./services/backendService";
+import { isAbortError, throwIfAborted } from "./services/abortUtils";
+import { leadVerifier, DomainResolver, ReachabilityProbe } from "./services/leadVerifier";
+import { contactExtractor } from "./services/contactExtractor";
+import { contactNormalizer } from "./services/contactNormalizer";
+import { emailVerifier, EmailVerifyOptions } from "./services/emailVerifier";
+import { templateEngine } from "./services/templateEngine";
+import { personalizationService, PersonalizationSettings, SenderIdentity, DEFAULT_PERSONALIZATION } from "./services/personalizationService";
 
 /* ===================== HELPERS ===================== */
 
@@ -22,55 +37,71 @@ function extractJson(text: string): any {
   }
 }
 
+/**
+ * Pulls every complete top-level object out of a (possibly still streaming)
+ * JSON array, so rows can be shown before the closing bracket arrives.
+ */
+function extractCompleteObjects(text: string): any[] {
+  const start = text.indexOf('[');
+  if (start === -1) return [];
+
+  const objects: any[] = [];
+  let depth = 0;
+  let objStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) objStart = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0 && objStart !== -1) {
+        try { objects.push(JSON.parse(text.slice(objStart, i + 1))); } catch { /* malformed row, validator reports it later */ }
+        objStart = -1;
+      }
+    } else if (ch === ']' && depth === 0) {
+      break;
+    }
+  }
+  return objects;
+}
+
 /* ===================== API VERIFICATION GATE ===================== */
 
 /**
- * PRODUCTION-GRADE GENERIC API HANDSHAKE
- * Used for custom API nodes. Performs a real HTTP GET/POST to verify connectivity.
+ * GENERIC API HANDSHAKE
+ * Sends a minimal completion through the same adapter generation uses, so a
+ * node whose ping answers but whose completion endpoint does not is rejected.
  */
 export async function verifyGenericApi(config: ApiConfig): Promise<{ valid: boolean; status?: number; error?: string }> {
-  const { apiKey, baseUrl, authType, testEndpoint } = config;
   const ERROR_MSG = "INVALID API KEY – CONNECTION FAILED";
-
-  if (!baseUrl || !testEndpoint || !apiKey) {
+  if (!config.baseUrl || !config.apiKey) {
     return { valid: false, error: ERROR_MSG };
   }
-
-  const cleanBase = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-  const cleanEndpoint = testEndpoint.startsWith('/') ? testEndpoint : `/${testEndpoint}`;
-  const url = `${cleanBase}${cleanEndpoint}`;
-
-  const headers: Record<string, string> = {
-    'Accept': 'application/json',
-    'Content-Type': 'application/json',
-  };
-
-  if (authType === 'Bearer' || authType === 'OAuth') {
-    headers['Authorization'] = `Bearer ${apiKey}`;
-  } else if (authType === 'API-Key') {
-    headers['X-API-Key'] = apiKey;
+  if (!config.completionEndpoint?.trim()) {
+    return { valid: false, error: "A completion endpoint is required." };
   }
 
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: headers,
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    const bodyText = await response.text();
-    if (response.ok && bodyText.length > 0) {
-      return { valid: true, status: response.status };
+    const llm = llmAdapter.fromCredentials({ provider: 'CUSTOM', config });
+    const response = await llm.complete({ prompt: "Handshake: respond with 'OK'.", maxOutputTokens: 5 });
+    if (response.text.trim()) {
+      return { valid: true, status: 200 };
     }
-
-    return { valid: false, status: response.status, error: ERROR_MSG };
+    return { valid: false, error: "Completion endpoint returned no text." };
   } catch (err: any) {
-    return { valid: false, error: ERROR_MSG };
+    return { valid: false, status: err?.status, error: err?.status ? `${ERROR_MSG} (HTTP ${err.status})` : ERROR_MSG };
   }
 }
 
@@ -126,24 +157,84 @@ export async function verifyApiKey(
   }
 }
 
+/**
+ * OPENAI-COMPATIBLE HANDSHAKE
+ * Sends a real chat-completion through the same adapter generation uses, so a
+ * gateway that lists models but cannot complete is still rejected.
+ */
+export async function verifyOpenAiCompatible(config: ApiConfig): Promise<{ valid: boolean; status?: number; error?: string }> {
+  const ERROR_MSG = "INVALID API KEY – CONNECTION FAILED";
+  if (!config.apiKey || !config.baseUrl) {
+    return { valid: false, error: ERROR_MSG };
+  }
+
+  try {
+    const llm = llmAdapter.fromCredentials({ provider: 'OPENAI', apiKey: config.apiKey, config });
+    const response = await llm.complete({ prompt: "Handshake: respond with 'OK'.", maxOutputTokens: 5 });
+    if (response.text.toUpperCase().includes('OK')) {
+      return { valid: true, status: 200 };
+    }
+    return { valid: false, error: ERROR_MSG };
+  } catch (err: any) {
+    console.error("[CRITICAL_HANDSHAKE_FAIL]", err.message);
+    return { valid: false, error: ERROR_MSG };
+  }
+}
+
 /* ===================== SEO LEAD GENERATION ===================== */
 
+export interface LeadGenOptions {
+  /** Number of businesses to request; callers clamp this to plan limits */
+  count?: number;
+  /** Domains already seen in earlier runs; the model is told to skip them */
+  excludeDomains?: string[];
+  /** Transport used by the site auditor and contact discovery; defaults to the fetch proxy */
+  fetcher?: ResourceFetcher;
+  /** DNS and liveness checks for the hallucination guard; default to DoH and the fetch proxy */
+  resolver?: DomainResolver;
+  probe?: ReachabilityProbe;
+  /** Called as the run moves through its stages, with rows parsed so far */
+  onProgress?: (update: LeadGenProgress) => void;
+  /** Cancels the run; rows gathered so far are returned with cancelled: true */
+  signal?: AbortSignal;
+}
+
+export interface LeadGenProgress {
+  stage: LeadGenStage;
+  progress: number;
+  leads: SEOAudit[];
+}
+
+/** Shown wherever lead generation is blocked for a provider without search grounding */
+export const LEAD_GEN_NEEDS_SEARCH = "Lead generation needs web search grounding, which only the Gemini provider offers. Switch provider in API settings.";
+
 export async function performSEOLeadGen(
+  user: User,
   niche: string,
-  location: string
-): Promise<{ leads: SEOAudit[]; groundingSources?: any[] }> {
-  // Use the verified key for the actual mission
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  location: string,
+  options: LeadGenOptions = {}
+): Promise<{ leads: SEOAudit[]; groundingSources?: any[]; rejected: RejectedRow[]; cancelled?: boolean }> {
+  const llm = llmAdapter.forUser(user);
+  // Without search grounding the model would invent the businesses
+  if (!llm.supportsSearch) {
+    throw new Error(LEAD_GEN_NEEDS_SEARCH);
+  }
+  const count = options.count || DEFAULT_RESULTS_PER_RUN;
+  const excluded = new Set((options.excludeDomains || []).map(normalizeDomain).filter(Boolean));
+  const exclusionBlock = excluded.size > 0
+    ? `\nEXCLUDE: Do not return any business whose website is on one of these domains (already collected):\n${Array.from(excluded).join(', ')}\n`
+    : '';
 
   const prompt = `
 MISSION: SEO Lead Generation and Audit
 NICHE: ${niche}
 LOCATION: ${location}
-
+${exclusionBlock}
 TASK:
 1. Search for businesses in the specified niche and location.
-2. Return exactly 15 business results.
-3. Format output as JSON:
+2. Return exactly ${count} business results.
+3. Do NOT audit the websites. Leave "onPageIssues" and "technicalIssues" empty; they are measured separately.
+4. Format output as JSON:
 [
   {
     "websiteUrl": "string",
@@ -151,84 +242,290 @@ TASK:
     "email": "string",
     "phone": "string",
     "contactPageUrl": "string",
-    "onPageIssues": ["string"],
-    "technicalIssues": ["string"],
-    "localSeoIssues": { "hasIssues": boolean, "reason": "string" },
-    "opportunityLevel": "High"
+    "onPageIssues": [],
+    "technicalIssues": [],
+    "localSeoIssues": { "hasIssues": boolean, "reason": "string" }
   }
 ]
 `;
 
+  // Latest rows seen at any stage, returned as-is if the run is cancelled
+  let partial: SEOAudit[] = [];
+  let rejected: RejectedRow[] = [];
+  let groundingSources: any[] = [];
+  const report = (stage: LeadGenStage, progress: number, leads: SEOAudit[]) => {
+    partial = leads;
+    options.onProgress?.({ stage, progress: Math.round(progress), leads });
+  };
+  const isFresh = (lead: SEOAudit) => !excluded.has(normalizeDomain(lead.websiteUrl));
+
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        thinkingConfig: { thinkingBudget: 8192 }
+    report('searching', 5, []);
+
+    // Rows are validated and surfaced as soon as each object closes in the stream
+    let streamedCount = 0;
+    let streamed: SEOAudit[] = [];
+    const response = await llm.stream({
+      prompt,
+      tier: 'DEEP',
+      useSearch: true,
+      thinkingBudget: 8192,
+      signal: options.signal
+    }, (textSoFar) => {
+      const objects = extractCompleteObjects(textSoFar);
+      if (objects.length === streamedCount) {
+        if (streamedCount === 0) report('extracting', 10, streamed);
+        return;
       }
+      streamedCount = objects.length;
+      streamed = schemaValidator.validateSEOAudits(objects).valid.filter(isFresh);
+      report('extracting', 10 + Math.min(30, (streamedCount / count) * 30), streamed);
     });
 
-    const rawText = response.text || "";
-    const parsed = extractJson(rawText) || [];
+    groundingSources = response.groundingSources;
+
+    // Final pass over the full text adds anything the incremental parser missed;
+    // rows already streamed are kept even if the full text no longer parses
+    report('validating', 42, streamed);
+    const validation = schemaValidator.validateSEOAudits(extractJson(response.text) || []);
+    rejected = validation.rejected;
+    // The model does not always honour the exclusion list
+    const fresh = mergeUniqueLeads(streamed, validation.valid.filter(isFresh)).map(lead => {
+      const sources = sourcesForLead(lead, groundingSources);
+      return sources.length > 0 ? { ...lead, sources } : lead;
+    });
+
+    // Flag businesses the search never mentioned or whose site does not exist
+    report('verifying', 44, fresh);
+    const verifying = [...fresh];
+    let verifiedCount = 0;
+    const verified = await leadVerifier.verifyLeads(fresh, groundingSources, {
+      resolver: options.resolver,
+      probe: options.probe,
+      signal: options.signal,
+      onVerified: (index, lead) => {
+        verifying[index] = lead;
+        verifiedCount++;
+        report('verifying', 44 + (verifiedCount / Math.max(1, fresh.length)) * 8, [...verifying]);
+      }
+    });
+
+    // Replace model output with measured findings fetched from each site, then score them
+    report('auditing', 52, verified);
+    const inProgress = [...verified];
+    let auditedCount = 0;
+    const audited = await siteAuditor.auditLeads(verified, {
+      fetcher: options.fetcher,
+      signal: options.signal,
+      onAudited: (index, lead) => {
+        inProgress[index] = lead;
+        auditedCount++;
+        report('auditing', 52 + (auditedCount / Math.max(1, verified.length)) * 26, [...inProgress]);
+      }
+    });
+
+    // Swap the model's contact guesses for addresses actually published on the site
+    report('contacts', 78, audited);
+    const withContacts = [...audited];
+    let discoveredCount = 0;
+    const discovered = await contactExtractor.discoverAll(audited, {
+      fetcher: options.fetcher,
+      signal: options.signal,
+      onDiscovered: (index, lead) => {
+        withContacts[index] = lead;
+        discoveredCount++;
+        report('contacts', 78 + (discoveredCount / Math.max(1, audited.length)) * 12, [...withContacts]);
+      }
+    });
+
+    // Dialers and CRMs reject anything but E.164 phones and clean addresses
+    report('scoring', 92, discovered);
+    const normalized = discovered.map(lead => contactNormalizer.normalizeLead(lead, location));
+    const leads = scoringService.scoreLeads(normalized, backendService.getScoringWeights());
     
     return {
-      leads: Array.isArray(parsed) ? parsed : [],
-      groundingSources: response.candidates?.[0]?.groundingMetadata?.groundingChunks || []
+      leads,
+      groundingSources,
+      rejected
     };
   } catch (err: any) {
+    if (isAbortError(err, options.signal)) {
+      return {
+        leads: scoringService.scoreLeads(partial.map(lead => contactNormalizer.normalizeLead(lead, location)), backendService.getScoringWeights()),
+        groundingSources,
+        rejected,
+        cancelled: true
+      };
+    }
     console.error("SEO Gen Error:", err);
     throw err;
   }
 }
 
-export async function validateEmailsAgent(leads: OutreachLead[]): Promise<OutreachLead[]> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = `Validate deliverability: ${leads.map(l => l.email).join(", ")}`;
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              email: { type: Type.STRING },
-              validationStatus: { type: Type.STRING, enum: ["VALID", "RISKY", "INVALID"] },
-              validationReason: { type: Type.STRING }
-            },
-            required: ["email", "validationStatus", "validationReason"]
-          }
-        }
+const VALIDATION_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      email: { type: 'string' },
+      validationStatus: { type: 'string', enum: ["VALID", "RISKY", "INVALID"] },
+      validationReason: { type: 'string' }
+    },
+    required: ["email", "validationStatus", "validationReason"]
+  }
+};
+
+const DRAFT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { subject: { type: 'string' }, body: { type: 'string' } },
+  required: ["subject", "body"]
+};
+
+export interface EmailValidationOptions extends Omit<EmailVerifyOptions, 'signal' | 'onVerified'> {
+  /** Let the model settle addresses the rules could only mark RISKY */
+  aiTieBreak?: boolean;
+  /** Fires after each chunk with every lead merged so far; unfinished ones are UNCHECKED */
+  onChunk?: (leads: OutreachLead[], done: number, total: number) => void;
+}
+
+const VALIDATION_CHUNK_SIZE = 25;
+const VERIFY_MAX_ATTEMPTS = 3;
+const TIE_BREAK_MAX_ATTEMPTS = 3;
+
+/** Retries transient failures with a short backoff; auth and cancel errors end it at once */
+async function withRetries<T>(fn: () => Promise<T>, attempts: number, signal?: AbortSignal): Promise<T> {
+  let lastError: any;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      if (credentialService.isAuthError(err) || isAbortError(err, signal)) throw err;
+      lastError = err;
+      if (attempt < attempts) await new Promise(resolve => setTimeout(resolve, 500 * attempt));
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * The verifier marks an address UNCHECKED instead of throwing when its
+ * lookups fail, so only those addresses are verified again, with the same
+ * backoff as withRetries.
+ */
+async function verifyChunk(chunk: OutreachLead[], options: EmailVerifyOptions): Promise<OutreachLead[]> {
+  const verified = await emailVerifier.verifyLeads(chunk, options);
+  for (let attempt = 1; attempt < VERIFY_MAX_ATTEMPTS; attempt++) {
+    const failed = chunk.map((_, i) => i).filter(i => verified[i].validationStatus === 'UNCHECKED');
+    if (failed.length === 0) break;
+    await new Promise(resolve => setTimeout(resolve, 500 * attempt));
+    throwIfAborted(options.signal);
+    const retried = await emailVerifier.verifyLeads(failed.map(i => chunk[i]), options);
+    failed.forEach((idx, i) => { verified[idx] = retried[i]; });
+  }
+  return verified;
+}
+
+async function tieBreakChunk(user: User, verified: OutreachLead[], signal?: AbortSignal): Promise<{ leads: OutreachLead[]; rejected: RejectedRow[] }> {
+  const risky = verified.filter(l => l.validationStatus === 'RISKY');
+  if (risky.length === 0) return { leads: verified, rejected: [] };
+
+  const prompt = `You are breaking ties for an email verifier. For each address below, decide VALID, RISKY or INVALID using ONLY the evidence given. Keep RISKY unless the evidence clearly supports a decision.
+${risky.map(l => `- ${l.email}: ${l.validationReason || 'no evidence'}`).join("\n")}`;
+  const response = await llmAdapter.forUser(user).complete({ prompt, schema: VALIDATION_SCHEMA, signal });
+  const { valid, rejected } = schemaValidator.validateOutreachLeads(extractJson(response.text || "[]"));
+  const decisions = new Map(valid.map(v => [v.email, v]));
+  const leads = verified.map(lead => {
+    const decision = lead.validationStatus === 'RISKY' ? decisions.get(lead.email.trim().toLowerCase()) : undefined;
+    if (!decision || !decision.validationStatus || decision.validationStatus === 'UNCHECKED' || decision.validationStatus === 'RISKY') return lead;
+    return {
+      ...lead,
+      validationStatus: decision.validationStatus,
+      validationReason: `${lead.validationReason}; AI tie-break: ${decision.validationReason || decision.validationStatus}`
+    };
+  });
+  return { leads, rejected };
+}
+
+/**
+ * Deliverability comes from the rule-based verifier, run in chunks so
+ * progress shows and a cancelled run keeps what it finished. The model is
+ * consulted only for RISKY results, sees the evidence the rules gathered,
+ * and can never overturn a VALID or INVALID verdict. Verdicts are merged
+ * back onto the caller's leads by address.
+ */
+export async function validateEmailsAgent(user: User, leads: OutreachLead[], signal?: AbortSignal, options: EmailValidationOptions = {}): Promise<{ leads: OutreachLead[]; rejected: RejectedRow[] }> {
+  const { aiTieBreak, onChunk, ...verifyOptions } = options;
+  const cached = emailVerifier.withDnsCache({ ...verifyOptions, signal });
+  const results: OutreachLead[] = [];
+  const rejected: RejectedRow[] = [];
+
+  for (let start = 0; start < leads.length; start += VALIDATION_CHUNK_SIZE) {
+    const chunk = leads.slice(start, start + VALIDATION_CHUNK_SIZE);
+    let verified = await verifyChunk(chunk, cached);
+
+    if (aiTieBreak) {
+      try {
+        const settled = await withRetries(() => tieBreakChunk(user, verified, signal), TIE_BREAK_MAX_ATTEMPTS, signal);
+        verified = settled.leads;
+        rejected.push(...settled.rejected.map(r => ({ ...r, index: r.index + start })));
+      } catch (err: any) {
+        // The rule verdicts stand when the model keeps failing
+        if (credentialService.isAuthError(err) || isAbortError(err, signal)) throw err;
       }
-    });
-    return extractJson(response.text || "[]");
-  } catch (err: any) {
-    return leads.map(l => ({ ...l, validationStatus: "UNCHECKED" }));
+    }
+
+    results.push(...verified);
+    onChunk?.(emailVerifier.mergeResults(leads, results), Math.min(start + VALIDATION_CHUNK_SIZE, leads.length), leads.length);
   }
+
+  return { leads: emailVerifier.mergeResults(leads, results), rejected };
 }
 
-export async function processOutreachWithAgent(lead: OutreachLead, senderEmail: string, baseSubject: string, baseBody: string, mode: "AI_CUSTOM" | "MANUAL") {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = mode === "AI_CUSTOM" ? `Write personalized SEO email for ${lead.businessName}` : `Use template for ${lead.businessName}`;
+export interface OutreachDraftOptions {
+  mode: "AI_CUSTOM" | "MANUAL";
+  sender: SenderIdentity;
+  settings?: PersonalizationSettings;
+  /** Stored audit for the recipient's domain, when the library has one */
+  audit?: SEOAudit | null;
+  fetcher?: ResourceFetcher;
+}
+
+const DRAFT_MAX_ATTEMPTS = 2;
+
+/**
+ * MANUAL mode renders the merge-tag template and never calls the model.
+ * AI_CUSTOM writes from a brief of the recipient's data, using the rendered
+ * template as a style guide. A draft that states facts outside the brief is
+ * sent back once with the reasons, then replaced by the rendered template.
+ */
+export async function processOutreachWithAgent(user: User, lead: OutreachLead, baseSubject: string, baseBody: string, options: OutreachDraftOptions, signal?: AbortSignal) {
+  const { mode, sender, settings = DEFAULT_PERSONALIZATION, audit, fetcher } = options;
+  const rendered = {
+    subject: templateEngine.render(baseSubject, lead, { senderEmail: sender.email }),
+    body: templateEngine.render(baseBody, lead, { senderEmail: sender.email }),
+  };
+  if (mode === "MANUAL") return { name: "send_email", args: rendered, repairError: undefined, snapshotError: undefined };
+
+  // A homepage that cannot be read leaves the brief without it; the caller logs why
+  const { site, error: snapshotError } = settings.fetchSite && lead.website
+    ? await personalizationService.snapshot(lead.website, fetcher, signal)
+    : { site: undefined, error: undefined };
+  const result = (args: { subject: string; body: string }, repairError?: string) => ({ name: "send_email", args, repairError, snapshotError });
+
+  const brief = personalizationService.buildBrief(lead, sender, audit, site);
+  let problems: string[] = [];
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: { subject: { type: Type.STRING }, body: { type: Type.STRING } },
-          required: ["subject", "body"]
-        }
-      }
-    });
-    return { name: "send_email", args: extractJson(response.text || "{}") };
+    for (let attempt = 1; attempt <= DRAFT_MAX_ATTEMPTS; attempt++) {
+      const prompt = personalizationService.buildPrompt(brief, settings, rendered, problems);
+      const response = await llmAdapter.forUser(user).complete({ prompt, schema: DRAFT_SCHEMA, signal });
+      const { payload, error } = schemaValidator.validateDraftPayload(extractJson(response.text || "{}"), rendered);
+      if (error) return result(payload, error);
+      problems = personalizationService.unsupportedClaims(payload, brief, rendered, settings);
+      if (problems.length === 0) return result(payload);
+    }
   } catch (err: any) {
-    return { name: "send_email", args: { subject: baseSubject, body: baseBody } };
+    if (credentialService.isAuthError(err) || isAbortError(err, signal)) throw err;
+    return result(rendered, `Model call failed: ${err.message}`);
   }
+  return result(rendered, `Draft blocked: ${problems.join('; ')}`);
 }
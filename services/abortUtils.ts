@@ -0,0 +1,47 @@
+/**
+ * Cancellation Helpers
+ * Shared by every long-running AI, audit and dispatch call so a single
+ * AbortSignal from the UI stops the whole pipeline.
+ */
+
+/**
+ * True only when the caller cancelled. With a signal, its own state decides,
+ * so timeouts and other aborted requests take the normal error path.
+ */
+export function isAbortError(err: any, signal?: AbortSignal): boolean {
+  return signal ? signal.aborted : err?.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    const error = new Error('Operation cancelled by user');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
+export function timeoutError(timeoutMs: number): Error {
+  const error = new Error(`Request timed out after ${timeoutMs / 1000}s`);
+  error.name = 'TimeoutError';
+  return error;
+}
+
+/**
+ * Controller that aborts when either the caller's signal fires or the timeout
+ * elapses. A timeout aborts with a TimeoutError, which the pending fetch
+ * rejects with. Call dispose() once the request settles.
+ */
+export function linkedController(signal: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(timeoutError(timeoutMs)), timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
@@ -1,10 +1,48 @@
 
-import { ActivityLog, User, Campaign, SentEmail } from '../types';
+import { ActivityLog, User, Campaign, SentEmail, SEOAudit, StoredLead, ScoringWeights, SavedSearch, SearchNotification, ExportProfile, ReportBranding, PipelineStage } from '../types';
+import { normalizeDomain, leadKey, enrichLead } from './leadUtils';
+import { DEFAULT_SCORING_WEIGHTS } from './scoringService';
 
 const LOGS_KEY = 'seo_saas_logs_v8';
 const USERS_KEY = 'seo_saas_users_v8';
 const CAMPAIGNS_KEY = 'seo_saas_campaigns_v8';
 const SENT_EMAILS_KEY = 'seo_saas_sent_emails_v8';
+const LEADS_KEY = 'seo_saas_leads_v8';
+const SCORING_KEY = 'seo_saas_scoring_weights_v8';
+const SAVED_SEARCHES_KEY = 'seo_saas_saved_searches_v8';
+const NOTIFICATIONS_KEY = 'seo_saas_notifications_v8';
+const EXPORT_PROFILES_KEY = 'seo_saas_export_profiles_v8';
+const REPORT_BRANDING_KEY = 'seo_saas_report_branding_v8';
+const PIPELINE_STAGES_KEY = 'seo_saas_pipeline_stages_v8';
+
+// A stored lead with its audit runs to 2-3 KB, and browsers give each origin about 5 MB
+const MAX_STORED_LEADS_PER_USER = 1500;
+const MAX_SIGHTINGS = 10;
+
+const LEAD_STORAGE_FULL = 'Browser storage is full, so the lead library was not saved. Delete leads you no longer need and try again.';
+
+function isQuotaError(err: any): boolean {
+  return err?.name === 'QuotaExceededError' || err?.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err?.code === 22;
+}
+
+/** Drops the user's least recently seen leads beyond the cap; other accounts are untouched */
+function capLeads(all: StoredLead[], userId: string): { kept: StoredLead[]; dropped: number } {
+  const own = all.filter(l => l.userId === userId);
+  if (own.length <= MAX_STORED_LEADS_PER_USER) return { kept: all, dropped: 0 };
+  const oldest = own.sort((a, b) => a.lastSeenAt.localeCompare(b.lastSeenAt)).slice(0, own.length - MAX_STORED_LEADS_PER_USER);
+  const evicted = new Set(oldest.map(l => l.id));
+  return { kept: all.filter(l => !evicted.has(l.id)), dropped: evicted.size };
+}
+
+/** Every lead library write goes through here so a full storage fails the same way everywhere */
+function saveLeads(leads: StoredLead[]) {
+  try {
+    localStorage.setItem(LEADS_KEY, JSON.stringify(leads));
+  } catch (err) {
+    if (isQuotaError(err)) throw new Error(LEAD_STORAGE_FULL);
+    throw err;
+  }
+}
 
 export const backendService = {
   // --- AUTH ---
@@ -128,14 +166,220 @@ export const backendService = {
     } catch { return []; }
   },
 
-  simulateEmailOpen: (emailId: string) => {
+  /** Returns the email when this call opened it, undefined if unknown or already opened */
+  simulateEmailOpen: (emailId: string): SentEmail | undefined => {
     const emails = backendService.getSentEmails();
     const idx = emails.findIndex(e => e.id === emailId);
-    if (idx !== -1) {
-      emails[idx].opened = true;
-      emails[idx].openedAt = new Date().toISOString();
-      localStorage.setItem(SENT_EMAILS_KEY, JSON.stringify(emails));
+    if (idx === -1 || emails[idx].opened) return undefined;
+    emails[idx].opened = true;
+    emails[idx].openedAt = new Date().toISOString();
+    localStorage.setItem(SENT_EMAILS_KEY, JSON.stringify(emails));
+    return emails[idx];
+  },
+
+  // --- LEAD LIBRARY ---
+  /**
+   * Merges a run's leads into the user's library, keyed by normalized domain.
+   * Repeat sightings enrich the existing record instead of duplicating it.
+   * Past the per-user cap the least recently seen leads are dropped, and
+   * `notice` says how many. The library helpers throw LEAD_STORAGE_FULL when
+   * the browser is out of space.
+   */
+  upsertLeads: (userId: string, leads: SEOAudit[], source: { niche: string; location: string }): { leads: StoredLead[]; notice?: string } => {
+    const all = backendService.getLeads();
+    const now = new Date().toISOString();
+    const touched: StoredLead[] = [];
+
+    leads.forEach(audit => {
+      const key = leadKey(audit);
+      const id = `${userId}:${key}`;
+      const sighting = { niche: source.niche, location: source.location, seenAt: now };
+      const idx = all.findIndex(l => l.id === id);
+
+      if (idx !== -1) {
+        all[idx] = {
+          ...all[idx],
+          audit: enrichLead(all[idx].audit, audit),
+          lastSeenAt: now,
+          sightings: [...all[idx].sightings, sighting].slice(-MAX_SIGHTINGS)
+        };
+        touched.push(all[idx]);
+      } else {
+        const created: StoredLead = {
+          id,
+          userId,
+          domain: normalizeDomain(audit.websiteUrl) || key,
+          audit,
+          firstSeenAt: now,
+          lastSeenAt: now,
+          sightings: [sighting]
+        };
+        all.unshift(created);
+        touched.push(created);
+      }
+    });
+
+    const { kept, dropped } = capLeads(all, userId);
+    saveLeads(kept);
+    return {
+      leads: touched,
+      notice: dropped > 0 ? `The lead library is full, so the ${dropped} least recently seen lead${dropped === 1 ? ' was' : 's were'} removed.` : undefined,
+    };
+  },
+
+  getLeads: (userId?: string): StoredLead[] => {
+    try {
+      const raw = localStorage.getItem(LEADS_KEY);
+      const all = raw ? JSON.parse(raw) : [];
+      if (userId) return all.filter((l: StoredLead) => l.userId === userId);
+      return all;
+    } catch { return []; }
+  },
+
+  /**
+   * Replaces the stored audit for a lead the user edited by hand (notes,
+   * opportunity level). Does not record a sighting. No-op if not stored.
+   */
+  updateStoredAudit: (userId: string, audit: SEOAudit) => {
+    const all = backendService.getLeads();
+    const idx = all.findIndex(l => l.id === `${userId}:${leadKey(audit)}`);
+    if (idx === -1) return;
+    all[idx] = { ...all[idx], audit };
+    saveLeads(all);
+  },
+
+  /** Saves pipeline fields on a stored lead. No-op if not stored. */
+  updateStoredLead: (lead: StoredLead) => {
+    const all = backendService.getLeads();
+    const idx = all.findIndex(l => l.id === lead.id);
+    if (idx === -1) return;
+    all[idx] = lead;
+    saveLeads(all);
+  },
+
+  deleteLead: (leadId: string) => {
+    saveLeads(backendService.getLeads().filter(l => l.id !== leadId));
+  },
+
+  // --- SCORING ---
+  getScoringWeights: (): ScoringWeights => {
+    try {
+      const raw = localStorage.getItem(SCORING_KEY);
+      return raw ? { ...DEFAULT_SCORING_WEIGHTS, ...JSON.parse(raw) } : DEFAULT_SCORING_WEIGHTS;
+    } catch { return DEFAULT_SCORING_WEIGHTS; }
+  },
+
+  saveScoringWeights: (weights: ScoringWeights) => {
+    localStorage.setItem(SCORING_KEY, JSON.stringify(weights));
+  },
+
+  // --- SAVED SEARCHES ---
+  saveSavedSearch: (search: SavedSearch) => {
+    const searches = backendService.getSavedSearches();
+    const existingIdx = searches.findIndex(s => s.id === search.id);
+    if (existingIdx !== -1) {
+      searches[existingIdx] = search;
+    } else {
+      searches.unshift(search);
     }
+    localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(searches));
+  },
+
+  getSavedSearches: (userId?: string): SavedSearch[] => {
+    try {
+      const raw = localStorage.getItem(SAVED_SEARCHES_KEY);
+      const all = raw ? JSON.parse(raw) : [];
+      if (userId) return all.filter((s: SavedSearch) => s.userId === userId);
+      return all;
+    } catch { return []; }
+  },
+
+  deleteSavedSearch: (searchId: string) => {
+    const all = backendService.getSavedSearches().filter(s => s.id !== searchId);
+    localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(all));
+  },
+
+  // --- EXPORT PROFILES ---
+  saveExportProfile: (profile: ExportProfile) => {
+    const profiles = backendService.getExportProfiles();
+    const existingIdx = profiles.findIndex(p => p.id === profile.id);
+    if (existingIdx !== -1) {
+      profiles[existingIdx] = profile;
+    } else {
+      profiles.push(profile);
+    }
+    localStorage.setItem(EXPORT_PROFILES_KEY, JSON.stringify(profiles));
+  },
+
+  getExportProfiles: (userId?: string): ExportProfile[] => {
+    try {
+      const raw = localStorage.getItem(EXPORT_PROFILES_KEY);
+      const all = raw ? JSON.parse(raw) : [];
+      if (userId) return all.filter((p: ExportProfile) => p.userId === userId);
+      return all;
+    } catch { return []; }
+  },
+
+  deleteExportProfile: (profileId: string) => {
+    const all = backendService.getExportProfiles().filter(p => p.id !== profileId);
+    localStorage.setItem(EXPORT_PROFILES_KEY, JSON.stringify(all));
+  },
+
+  // --- REPORT BRANDING ---
+  saveReportBranding: (userId: string, branding: ReportBranding) => {
+    const all = backendService.getAllReportBranding();
+    all[userId] = branding;
+    localStorage.setItem(REPORT_BRANDING_KEY, JSON.stringify(all));
+  },
+
+  getReportBranding: (userId: string): ReportBranding | null => {
+    return backendService.getAllReportBranding()[userId] || null;
+  },
+
+  getAllReportBranding: (): Record<string, ReportBranding> => {
+    try {
+      const raw = localStorage.getItem(REPORT_BRANDING_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch { return {}; }
+  },
+
+  // --- PIPELINE STAGES ---
+  savePipelineStages: (userId: string, stages: PipelineStage[]) => {
+    const all = backendService.getAllPipelineStages();
+    all[userId] = stages;
+    localStorage.setItem(PIPELINE_STAGES_KEY, JSON.stringify(all));
+  },
+
+  getPipelineStages: (userId: string): PipelineStage[] | null => {
+    return backendService.getAllPipelineStages()[userId] || null;
+  },
+
+  getAllPipelineStages: (): Record<string, PipelineStage[]> => {
+    try {
+      const raw = localStorage.getItem(PIPELINE_STAGES_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch { return {}; }
+  },
+
+  // --- NOTIFICATIONS ---
+  addNotification: (notification: SearchNotification) => {
+    const all = backendService.getNotifications();
+    all.unshift(notification);
+    localStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(all.slice(0, 500)));
+  },
+
+  getNotifications: (userId?: string): SearchNotification[] => {
+    try {
+      const raw = localStorage.getItem(NOTIFICATIONS_KEY);
+      const all = raw ? JSON.parse(raw) : [];
+      if (userId) return all.filter((n: SearchNotification) => n.userId === userId);
+      return all;
+    } catch { return []; }
+  },
+
+  markNotificationsRead: (userId: string) => {
+    const all = backendService.getNotifications().map(n => n.userId === userId ? { ...n, read: true } : n);
+    localStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(all));
   },
 
   applyPromo: (userId: string, code: string): User | null => {
@@ -0,0 +1,169 @@
+import { User, SEOAudit, BatchCell } from '../types';
+import { performSEOLeadGen } from '../geminiService';
+import { backendService } from './backendService';
+import { planService } from './planService';
+import { credentialService } from './credentialService';
+import { schemaValidator } from './schemaValidator';
+import { isAbortError } from './abortUtils';
+import { mergeUniqueLeads, leadKey } from './leadUtils';
+
+/**
+ * Batch Search Grid
+ * Expands lists of niches and locations into one job per combination and runs
+ * them with bounded concurrency. Each cell is a full lead-gen run: stored in
+ * the library, logged as its own LEAD_GEN entry and charged one query.
+ */
+
+export const MAX_BATCH_CELLS = 50;
+export const BATCH_CONCURRENCY = 2;
+
+export interface BatchRunOptions {
+  count: number;
+  signal?: AbortSignal;
+  /** Fires whenever a cell changes status */
+  onCellUpdate?: (cell: BatchCell) => void;
+  /** Fires after each finished cell with the merged, de-duplicated results so far */
+  onResults?: (leads: SEOAudit[], groundingSources: any[]) => void;
+  /** Fires after each charge so the caller can keep quota displays current */
+  onUserUpdate?: (user: User) => void;
+}
+
+export interface BatchRunResult {
+  user: User;
+  cells: BatchCell[];
+  leads: SEOAudit[];
+  groundingSources: any[];
+  /** Set when the library could not store some cells' leads or dropped older ones */
+  libraryNotice?: string;
+}
+
+export const batchSearchService = {
+  /**
+   * One entry per line. Commas are kept because locations are usually
+   * written "City, ST". Blank lines and case-insensitive repeats are dropped.
+   */
+  parseList: (text: string): string[] => {
+    const seen = new Set<string>();
+    return text
+      .split(/\r?\n/)
+      .map(line => line.trim().replace(/^"(.*)"$/, '$1').trim())
+      .filter(line => {
+        const key = line.toLowerCase();
+        if (!line || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  },
+
+  expand: (niches: string[], locations: string[]): BatchCell[] => {
+    const cells: BatchCell[] = [];
+    niches.forEach(niche => locations.forEach(location => {
+      cells.push({ id: `CELL-${cells.length}`, niche, location, status: 'QUEUED' });
+    }));
+    if (cells.length > MAX_BATCH_CELLS) {
+      throw new Error(`Batch has ${cells.length} combinations; the limit is ${MAX_BATCH_CELLS}.`);
+    }
+    return cells;
+  },
+
+  run: async (user: User, cells: BatchCell[], options: BatchRunOptions): Promise<BatchRunResult> => {
+    const { signal, onCellUpdate, onResults, onUserUpdate } = options;
+    const batchId = `BATCH-${Date.now()}`;
+    const count = planService.clampResultCount(user, options.count);
+    const state = cells.map(c => ({ ...c }));
+    let current = user;
+    let leads: SEOAudit[] = [];
+    let groundingSources: any[] = [];
+    let libraryNotice: string | undefined;
+    let inFlight = 0;
+    let stopReason: string | null = null;
+    let cursor = 0;
+
+    const update = (idx: number, patch: Partial<BatchCell>) => {
+      state[idx] = { ...state[idx], ...patch };
+      onCellUpdate?.(state[idx]);
+    };
+
+    // Trial quota is reserved when a cell starts so parallel cells cannot overdraw it
+    const hasQuota = () => current.status !== 'TRIAL' || current.trialQueriesRemaining - inFlight > 0;
+
+    const log = (cell: BatchCell, output: { rowCount: number; success: boolean; error?: string; validCount?: number; rejectedCount?: number; rejectionReasons?: string[]; cancelled?: boolean }) => {
+      backendService.logActivity({
+        id: `LOG-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+        timestamp: new Date().toISOString(),
+        userId: current.id,
+        userEmail: current.email,
+        accountStatus: current.status,
+        type: 'LEAD_GEN',
+        input: { niche: cell.niche, location: cell.location, status: 'BATCH', batchId },
+        output
+      });
+    };
+
+    const runCell = async (idx: number) => {
+      const cell = state[idx];
+      update(idx, { status: 'RUNNING' });
+      inFlight++;
+      try {
+        const result = await performSEOLeadGen(current, cell.niche, cell.location, { count, signal });
+        const before = new Set(leads.map(leadKey));
+        const newCount = result.leads.filter(l => !before.has(leadKey(l))).length;
+        leads = mergeUniqueLeads(leads, result.leads);
+        groundingSources = [...groundingSources, ...(result.groundingSources || [])];
+        // A full library should not fail a cell that already found (and is charged for) leads
+        try {
+          libraryNotice = backendService.upsertLeads(current.id, result.leads, { niche: cell.niche, location: cell.location }).notice || libraryNotice;
+        } catch (err: any) {
+          libraryNotice = err.message;
+        }
+
+        log(cell, {
+          rowCount: result.leads.length,
+          success: true,
+          validCount: newCount,
+          rejectedCount: result.rejected.length,
+          rejectionReasons: schemaValidator.summarizeRejections(result.rejected),
+          cancelled: result.cancelled
+        });
+        current = planService.chargeQuery(current);
+        onUserUpdate?.(current);
+
+        update(idx, { status: result.cancelled ? 'CANCELLED' : 'DONE', leadCount: result.leads.length, newCount });
+        onResults?.(leads, groundingSources);
+      } catch (err: any) {
+        if (isAbortError(err, signal)) {
+          update(idx, { status: 'CANCELLED' });
+          return;
+        }
+        log(cell, { rowCount: 0, success: false, error: err.message });
+        update(idx, { status: 'ERROR', error: err.message });
+        // A rejected key fails every remaining cell the same way
+        if (credentialService.isAuthError(err)) {
+          current = credentialService.markFailed(current);
+          onUserUpdate?.(current);
+          stopReason = 'AI key was rejected';
+        }
+      } finally {
+        inFlight--;
+      }
+    };
+
+    const worker = async () => {
+      while (cursor < state.length) {
+        const idx = cursor++;
+        if (signal?.aborted) {
+          update(idx, { status: 'CANCELLED' });
+        } else if (stopReason) {
+          update(idx, { status: 'SKIPPED', error: stopReason });
+        } else if (!hasQuota()) {
+          update(idx, { status: 'SKIPPED', error: 'No queries remaining on this plan' });
+        } else {
+          await runCell(idx);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, state.length) }, worker));
+    return { user: current, cells: state, leads, groundingSources, libraryNotice };
+  }
+};
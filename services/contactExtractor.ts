@@ -0,0 +1,319 @@
+import { SEOAudit, ContactCandidate, ContactSource } from '../types';
+import { ResourceFetcher, defaultFetcher } from './siteAuditor';
+import { throwIfAborted } from './abortUtils';
+import { normalizeDomain } from './leadUtils';
+import { contactNormalizer } from './contactNormalizer';
+
+/**
+ * Contact Discovery
+ * Scrapes the homepage and contact page for real email addresses and phone
+ * numbers: mailto/tel links, "name [at] domain" obfuscation, plain text and
+ * schema.org LocalBusiness markup. Candidates are ranked by how likely they
+ * are to reach a decision-maker, and the model's own guesses are kept only
+ * as low-ranked fallbacks.
+ */
+
+interface Sighting {
+  kind: 'EMAIL' | 'PHONE';
+  value: string;
+  source: ContactSource;
+  pageUrl?: string;
+  label?: string;
+}
+
+const DISCOVERY_CONCURRENCY = 4;
+
+/* ===================== SCORING ===================== */
+
+const SOURCE_POINTS: Record<ContactSource, number> = {
+  SCHEMA: 20,
+  MICRODATA: 15,
+  MAILTO: 15,
+  TEL: 15,
+  OBFUSCATED: 12,
+  TEXT: 5,
+  MODEL: -15,
+};
+
+// Matched against the local part; first hit wins
+const EMAIL_ROLES: { pattern: RegExp; points: number; label: string }[] = [
+  { pattern: /^(no-?reply|do-?not-?reply|mailer-daemon|bounce)/, points: -100, label: 'No-reply' },
+  { pattern: /^(owner|ceo|founder|president|principal|director|gm|partner)\b/, points: 40, label: 'Owner / executive' },
+  { pattern: /^(manager|office-?manager|management)\b/, points: 30, label: 'Manager' },
+  { pattern: /^(marketing|sales|growth|business|bd)\b/, points: 25, label: 'Marketing / sales' },
+  { pattern: /^(hello|contact|office|enquiries|inquiries|appointments|booking)\b/, points: 15, label: 'General inbox' },
+  { pattern: /^(info|mail|email|admin)\b/, points: 10, label: 'General inbox' },
+  { pattern: /^(support|help|service|billing|accounts|invoices)\b/, points: 0, label: 'Support / billing' },
+  { pattern: /^(careers|jobs|hr|recruiting|privacy|legal|abuse|webmaster|postmaster|press|media)\b/, points: -30, label: 'Unrelated department' },
+];
+
+// A first name or first.last usually means a person rather than a shared box
+const PERSONAL_LOCAL_PART = /^[a-z]{2,15}([._-][a-z]{1,20})?$/;
+
+const FREE_MAIL_DOMAINS = new Set(['gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'aol.com', 'icloud.com', 'live.com', 'msn.com', 'protonmail.com', 'comcast.net']);
+
+// Placeholder and vendor addresses that show up in templates and tracking scripts
+const IGNORED_EMAIL = /(@(example\.(com|org|net)|domain\.com|email\.com|yourdomain\.com|sentry\.io|sentry-next\.wixpress\.com|wixpress\.com|godaddy\.com|squarespace\.com)$)|^(your|name|email|user|john\.?doe|jane\.?doe)@|\.(png|jpe?g|gif|svg|webp|css|js)$/;
+
+function scoreEmail(email: string, siteDomain: string): { points: number; label?: string } {
+  const [local, domain] = email.split('@');
+  const role = EMAIL_ROLES.find(r => r.pattern.test(local));
+  let points = role ? role.points : PERSONAL_LOCAL_PART.test(local) ? 35 : 5;
+  const label = role?.label || (PERSONAL_LOCAL_PART.test(local) ? 'Named person' : undefined);
+
+  if (siteDomain && (domain === siteDomain || domain.endsWith(`.${siteDomain}`))) points += 25;
+  // Small-business owners often run the company from a personal inbox
+  else if (FREE_MAIL_DOMAINS.has(domain)) points += 5;
+  else points -= 20;
+
+  return { points, label };
+}
+
+function scorePhone(label?: string): number {
+  if (!label) return 10;
+  if (/sales|owner|office|reservations|booking|main/i.test(label)) return 20;
+  if (/support|customer service|billing|technical/i.test(label)) return 5;
+  return 10;
+}
+
+/* ===================== PARSING ===================== */
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ');
+}
+
+export function normalizeEmail(raw: string): string | null {
+  const { email } = contactNormalizer.normalizeEmail(raw);
+  return email && !IGNORED_EMAIL.test(email) ? email : null;
+}
+
+/** Digits with an optional leading +; null if the length is implausible */
+export function phoneDigits(raw: string): string | null {
+  const digits = raw.replace(/^tel:/i, '').replace(/(?!^\+)[^\d]/g, '');
+  const count = digits.replace('+', '').length;
+  return count >= 7 && count <= 15 ? digits : null;
+}
+
+function collectJsonLd(value: any, out: Sighting[], pageUrl: string, label?: string) {
+  if (!value || typeof value !== 'object') return;
+  if (Array.isArray(value)) {
+    value.forEach(v => collectJsonLd(v, out, pageUrl, label));
+    return;
+  }
+  const ownLabel = typeof value.contactType === 'string' ? value.contactType : label;
+  if (typeof value.email === 'string') out.push({ kind: 'EMAIL', value: value.email, source: 'SCHEMA', pageUrl, label: ownLabel });
+  if (typeof value.telephone === 'string') out.push({ kind: 'PHONE', value: value.telephone, source: 'SCHEMA', pageUrl, label: ownLabel });
+  ['@graph', 'contactPoint', 'founder', 'employee', 'member', 'department', 'location'].forEach(key => {
+    if (value[key]) collectJsonLd(value[key], out, pageUrl, key === 'founder' ? 'Founder' : ownLabel);
+  });
+}
+
+export const contactExtractor = {
+  /**
+   * Pure extraction from one page's markup. Returns raw sightings; ranking
+   * and de-duplication happen in `rank`.
+   */
+  extractFromHtml: (html: string, pageUrl: string): Sighting[] => {
+    const out: Sighting[] = [];
+
+    (html.match(/href\s*=\s*["']\s*mailto:[^"']+["']/gi) || []).forEach(tag => {
+      const value = tag.replace(/^href\s*=\s*["']\s*/i, '').replace(/["']$/, '');
+      out.push({ kind: 'EMAIL', value: decodeEntities(value), source: 'MAILTO', pageUrl });
+    });
+
+    (html.match(/href\s*=\s*["']\s*tel:[^"']+["']/gi) || []).forEach(tag => {
+      const value = tag.replace(/^href\s*=\s*["']\s*tel:/i, '').replace(/["']$/, '');
+      out.push({ kind: 'PHONE', value: decodeEntities(value), source: 'TEL', pageUrl });
+    });
+
+    (html.match(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>/gi) || []).forEach(block => {
+      const json = block.replace(/^<script\b[^>]*>/i, '').replace(/<\/script>$/i, '');
+      try { collectJsonLd(JSON.parse(json), out, pageUrl); } catch { /* malformed blocks are common; skip */ }
+    });
+
+    (html.match(/<[^>]+itemprop\s*=\s*["'](email|telephone)["'][^>]*>([^<]*)/gi) || []).forEach(match => {
+      const kind = /itemprop\s*=\s*["']email/i.test(match) ? 'EMAIL' : 'PHONE';
+      const content = match.match(/\scontent\s*=\s*["']([^"']+)["']/i)?.[1] || match.replace(/^<[^>]+>/, '');
+      if (content.trim()) out.push({ kind, value: decodeEntities(content), source: 'MICRODATA', pageUrl });
+    });
+
+    const text = decodeEntities(html.replace(/<script\b[\s\S]*?<\/script>|<style\b[\s\S]*?<\/style>/gi, ' ').replace(/<[^>]*>/g, ' '));
+
+    // "jane [at] acme [dot] com", "jane(at)acme.com", "jane {at} acme {dot} com"
+    const obfuscated = /([a-z0-9._%+-]+)\s*[\[({]\s*at\s*[\])}]\s*([a-z0-9-]+(?:\s*(?:[\[({]\s*dot\s*[\])}]|\.)\s*[a-z0-9-]+)+)/gi;
+    for (const match of text.matchAll(obfuscated)) {
+      const domain = match[2].replace(/\s*[\[({]\s*dot\s*[\])}]\s*/gi, '.').replace(/\s+/g, '');
+      out.push({ kind: 'EMAIL', value: `${match[1]}@${domain}`, source: 'OBFUSCATED', pageUrl });
+    }
+
+    (text.match(/[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi) || []).forEach(value => {
+      out.push({ kind: 'EMAIL', value, source: 'TEXT', pageUrl });
+    });
+
+    return out;
+  },
+
+  /** Finds a same-site contact page link when the model did not supply one */
+  findContactLink: (html: string, baseUrl: string): string | null => {
+    const siteDomain = normalizeDomain(baseUrl);
+    const links = html.match(/<a\b[^>]*href\s*=\s*["'][^"']+["'][^>]*>[\s\S]*?<\/a>/gi) || [];
+    for (const link of links) {
+      const href = link.match(/href\s*=\s*["']([^"']+)["']/i)?.[1] || '';
+      if (!/contact|get-in-touch|reach-us/i.test(href + link.replace(/<[^>]*>/g, ''))) continue;
+      try {
+        const url = new URL(decodeEntities(href), baseUrl);
+        if (/^https?:$/.test(url.protocol) && normalizeDomain(url.href) === siteDomain) return url.href;
+      } catch { /* relative garbage */ }
+    }
+    return null;
+  },
+
+  /**
+   * Normalizes, de-duplicates and scores sightings. A value seen on several
+   * pages or through several channels ranks higher than a one-off.
+   */
+  rank: (sightings: Sighting[], websiteUrl: string): ContactCandidate[] => {
+    const siteDomain = normalizeDomain(websiteUrl);
+    const byKey = new Map<string, ContactCandidate & { best: number; sightings: number }>();
+
+    sightings.forEach(s => {
+      const value = s.kind === 'EMAIL' ? normalizeEmail(s.value) : phoneDigits(s.value) && s.value.replace(/^tel:/i, '').trim();
+      if (!value) return;
+      const key = s.kind === 'EMAIL' ? `E:${value}` : `P:${phoneDigits(value)!.replace(/^\+?1(?=\d{10}$)/, '')}`;
+      const existing = byKey.get(key);
+      const sourcePoints = SOURCE_POINTS[s.source];
+
+      if (!existing) {
+        byKey.set(key, {
+          kind: s.kind, value, source: s.source, pageUrls: s.pageUrl ? [s.pageUrl] : [], score: 0, label: s.label,
+          best: sourcePoints, sightings: 1,
+        });
+        return;
+      }
+      existing.sightings++;
+      if (s.pageUrl && !existing.pageUrls.includes(s.pageUrl)) existing.pageUrls.push(s.pageUrl);
+      if (!existing.label && s.label) existing.label = s.label;
+      if (sourcePoints > existing.best) {
+        existing.best = sourcePoints;
+        existing.source = s.source;
+        // Prefer the formatted display from the stronger source
+        if (s.kind === 'PHONE') existing.value = value;
+      }
+    });
+
+    return Array.from(byKey.values())
+      .map(({ best, sightings: count, ...candidate }) => {
+        let score = best + Math.min(3, count - 1) * 5;
+        if (candidate.kind === 'EMAIL') {
+          const role = scoreEmail(candidate.value, siteDomain);
+          score += role.points;
+          candidate.label = candidate.label || role.label;
+        } else {
+          score += scorePhone(candidate.label);
+        }
+        return { ...candidate, score };
+      })
+      .sort((a, b) => b.score - a.score);
+  },
+
+  /**
+   * Fetches the homepage and contact page, then rewrites email and phone with
+   * the best-ranked candidates. Model guesses stay in the candidate list as a
+   * fallback. A page that cannot be fetched is recorded in contactsError so
+   * a lead resting on model guesses alone is visible as such.
+   */
+  discover: async (lead: SEOAudit, fetcher: ResourceFetcher = defaultFetcher, signal?: AbortSignal): Promise<SEOAudit> => {
+    const sightings: Sighting[] = [];
+    if (lead.email) sightings.push({ kind: 'EMAIL', value: lead.email, source: 'MODEL' });
+    if (lead.phone) sightings.push({ kind: 'PHONE', value: lead.phone, source: 'MODEL' });
+
+    const raw = (lead.websiteUrl || '').trim();
+    const homepageUrl = raw ? (/^https?:\/\//i.test(raw) ? raw : `https://${raw}`) : '';
+    let contactPageUrl = lead.contactPageUrl;
+    const failures: string[] = [];
+
+    if (homepageUrl) {
+      try {
+        const homepage = await fetcher(homepageUrl, signal);
+        if (homepage.ok) {
+          sightings.push(...contactExtractor.extractFromHtml(homepage.body, homepage.finalUrl));
+          if (!contactPageUrl) contactPageUrl = contactExtractor.findContactLink(homepage.body, homepage.finalUrl) || '';
+        } else {
+          failures.push(`Homepage returned HTTP ${homepage.status}`);
+        }
+      } catch (err: any) {
+        throwIfAborted(signal);
+        failures.push(`Homepage could not be fetched: ${err?.message || 'request failed'}`);
+      }
+    } else {
+      failures.push('No website to scrape');
+    }
+
+    if (contactPageUrl && contactPageUrl !== homepageUrl) {
+      try {
+        const page = await fetcher(new URL(contactPageUrl, homepageUrl || undefined).href, signal);
+        if (page.ok) {
+          sightings.push(...contactExtractor.extractFromHtml(page.body, page.finalUrl));
+        } else {
+          failures.push(`Contact page returned HTTP ${page.status}`);
+          contactPageUrl = lead.contactPageUrl;
+        }
+      } catch (err: any) {
+        throwIfAborted(signal);
+        failures.push(`Contact page could not be fetched: ${err?.message || 'request failed'}`);
+        contactPageUrl = lead.contactPageUrl;
+      }
+    }
+
+    const candidates = contactExtractor.rank(sightings, lead.websiteUrl);
+    // Negative scores are no-reply or off-domain junk; never promote them over the model's value
+    const bestEmail = candidates.find(c => c.kind === 'EMAIL' && c.score > 0);
+    const bestPhone = candidates.find(c => c.kind === 'PHONE' && c.score > 0);
+
+    return {
+      ...lead,
+      email: bestEmail?.value || lead.email,
+      phone: bestPhone?.value || lead.phone,
+      contactPageUrl: contactPageUrl || lead.contactPageUrl,
+      contactCandidates: candidates,
+      contactsCheckedAt: new Date().toISOString(),
+      contactsError: failures.length > 0 ? failures.join('; ') : undefined,
+    };
+  },
+
+  /**
+   * Runs discovery over a batch with bounded concurrency, preserving order.
+   * Rejects with an AbortError once the signal fires.
+   */
+  discoverAll: async (
+    leads: SEOAudit[],
+    options: { fetcher?: ResourceFetcher; signal?: AbortSignal; onDiscovered?: (index: number, lead: SEOAudit) => void } = {}
+  ): Promise<SEOAudit[]> => {
+    const { fetcher = defaultFetcher, signal, onDiscovered } = options;
+    const discovered: SEOAudit[] = new Array(leads.length);
+    let cursor = 0;
+
+    const worker = async () => {
+      while (cursor < leads.length) {
+        throwIfAborted(signal);
+        const idx = cursor++;
+        // Sites that failed verification have nothing to scrape
+        discovered[idx] = leads[idx].verification?.status === 'FAILED'
+          ? leads[idx]
+          : await contactExtractor.discover(leads[idx], fetcher, signal);
+        onDiscovered?.(idx, discovered[idx]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(DISCOVERY_CONCURRENCY, leads.length) }, worker));
+    return discovered;
+  },
+};
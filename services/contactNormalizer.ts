@@ -0,0 +1,274 @@
+import { SEOAudit, ContactIssue } from '../types';
+
+/**
+ * Contact Normalization
+ * Brings phones and emails into the shape dialers and CRMs accept: phones as
+ * E.164 (with the search location deciding the country when a number has no
+ * international prefix) and emails lowercased with quoting, display names and
+ * stray punctuation removed. Values that cannot be repaired are kept as typed
+ * and flagged instead of being dropped.
+ */
+
+export type PhoneStyle = 'NATIONAL' | 'INTERNATIONAL';
+
+export interface PhoneResult {
+  /** +<country code><national number>, or null when the input is malformed */
+  e164: string | null;
+  region?: string;
+  issue?: string;
+}
+
+export interface EmailResult {
+  email: string | null;
+  issue?: string;
+}
+
+interface RegionRule {
+  callingCode: string;
+  /** Dialled before national numbers and dropped in E.164 */
+  trunkPrefix?: string;
+  /** Allowed lengths of the national significant number */
+  lengths: number[];
+  /** Digit groups for display; the last group takes whatever is left */
+  groups: number[];
+}
+
+export const DEFAULT_REGION = 'US';
+
+const NANP: Omit<RegionRule, 'callingCode'> = { lengths: [10], groups: [3, 3, 4] };
+
+const REGIONS: Record<string, RegionRule> = {
+  US: { callingCode: '1', ...NANP },
+  CA: { callingCode: '1', ...NANP },
+  GB: { callingCode: '44', trunkPrefix: '0', lengths: [9, 10], groups: [2, 4, 4] },
+  IE: { callingCode: '353', trunkPrefix: '0', lengths: [7, 8, 9], groups: [2, 3, 4] },
+  AU: { callingCode: '61', trunkPrefix: '0', lengths: [9], groups: [1, 4, 4] },
+  NZ: { callingCode: '64', trunkPrefix: '0', lengths: [8, 9, 10], groups: [1, 3, 4] },
+  DE: { callingCode: '49', trunkPrefix: '0', lengths: [6, 7, 8, 9, 10, 11], groups: [3, 8] },
+  FR: { callingCode: '33', trunkPrefix: '0', lengths: [9], groups: [1, 2, 2, 2, 2] },
+  ES: { callingCode: '34', lengths: [9], groups: [3, 3, 3] },
+  // Italian landlines keep their leading zero inside E.164
+  IT: { callingCode: '39', lengths: [6, 7, 8, 9, 10, 11], groups: [3, 8] },
+  NL: { callingCode: '31', trunkPrefix: '0', lengths: [9], groups: [2, 3, 4] },
+  IN: { callingCode: '91', trunkPrefix: '0', lengths: [10], groups: [5, 5] },
+  ZA: { callingCode: '27', trunkPrefix: '0', lengths: [9], groups: [2, 3, 4] },
+  MX: { callingCode: '52', lengths: [10], groups: [2, 4, 4] },
+};
+
+// Shared calling codes resolve to the first region listed above
+const REGION_BY_CODE = Object.entries(REGIONS).reduce<Record<string, string>>((acc, [region, rule]) => {
+  if (!acc[rule.callingCode]) acc[rule.callingCode] = region;
+  return acc;
+}, {});
+
+/* ===================== REGION FROM LOCATION ===================== */
+
+const US_STATES = 'AL AK AZ AR CA CO CT DE DC FL GA HI ID IL IN IA KS KY LA ME MD MA MI MN MS MO MT NE NV NH NJ NM NY NC ND OH OK OR PA RI SC SD TN TX UT VT VA WA WV WI WY PR'.split(' ');
+const CA_PROVINCES = 'ON QC BC AB MB SK NS NB NL PE YT NT NU'.split(' ');
+
+const COUNTRY_NAMES: Record<string, string> = {
+  'usa': 'US', 'us': 'US', 'united states': 'US', 'united states of america': 'US', 'america': 'US',
+  'canada': 'CA', 'ontario': 'CA', 'quebec': 'CA', 'british columbia': 'CA', 'alberta': 'CA',
+  'uk': 'GB', 'united kingdom': 'GB', 'great britain': 'GB', 'england': 'GB', 'scotland': 'GB', 'wales': 'GB', 'northern ireland': 'GB',
+  'ireland': 'IE',
+  'australia': 'AU', 'nsw': 'AU', 'vic': 'AU', 'qld': 'AU', 'tas': 'AU',
+  'new zealand': 'NZ', 'nz': 'NZ',
+  'germany': 'DE', 'deutschland': 'DE',
+  'france': 'FR',
+  'spain': 'ES', 'españa': 'ES',
+  'italy': 'IT', 'italia': 'IT',
+  'netherlands': 'NL', 'the netherlands': 'NL', 'holland': 'NL',
+  'india': 'IN',
+  'south africa': 'ZA',
+  'mexico': 'MX', 'méxico': 'MX',
+};
+
+// Well-known cities searched without a country
+const CITY_REGIONS: Record<string, string> = {
+  'london': 'GB', 'manchester': 'GB', 'birmingham': 'GB', 'glasgow': 'GB', 'edinburgh': 'GB',
+  'dublin': 'IE', 'sydney': 'AU', 'melbourne': 'AU', 'brisbane': 'AU', 'auckland': 'NZ',
+  'toronto': 'CA', 'vancouver': 'CA', 'montreal': 'CA', 'calgary': 'CA',
+  'berlin': 'DE', 'munich': 'DE', 'paris': 'FR', 'madrid': 'ES', 'barcelona': 'ES',
+  'rome': 'IT', 'milan': 'IT', 'amsterdam': 'NL', 'mumbai': 'IN', 'delhi': 'IN', 'bangalore': 'IN',
+  'johannesburg': 'ZA', 'cape town': 'ZA', 'mexico city': 'MX',
+};
+
+/* ===================== PHONES ===================== */
+
+function nationalNumberIssue(national: string, region: string): string | undefined {
+  const rule = REGIONS[region];
+  if (national.length < Math.min(...rule.lengths)) return 'Too few digits';
+  if (national.length > Math.max(...rule.lengths)) return 'Too many digits';
+  if (!rule.lengths.includes(national.length)) return 'Wrong number of digits';
+  if (rule.callingCode === '1') {
+    if (!/^[2-9]/.test(national)) return 'Invalid area code';
+    if (!/^\d{3}[2-9]/.test(national)) return 'Invalid exchange';
+  }
+  return undefined;
+}
+
+function stripTrunk(digits: string, rule: RegionRule): string {
+  return rule.trunkPrefix && digits.startsWith(rule.trunkPrefix) ? digits.slice(rule.trunkPrefix.length) : digits;
+}
+
+/** Longest known calling code at the start of the digits */
+function callingCodeOf(digits: string): string | undefined {
+  return [3, 2, 1].map(n => digits.slice(0, n)).find(code => REGION_BY_CODE[code]);
+}
+
+function groupDigits(digits: string, groups: number[]): string[] {
+  const parts: string[] = [];
+  let rest = digits;
+  groups.forEach((size, i) => {
+    if (!rest) return;
+    const take = i === groups.length - 1 ? rest.length : size;
+    parts.push(rest.slice(0, take));
+    rest = rest.slice(take);
+  });
+  return parts;
+}
+
+/* ===================== EMAILS ===================== */
+
+const EMAIL_PATTERN = /^[a-z0-9._%+'-]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/;
+
+export const contactNormalizer = {
+  /**
+   * Best guess at the ISO region for a free-text search location such as
+   * "Austin, TX", "Leeds, UK", "Berlin, DE" or "Toronto". Country names and
+   * ISO codes are read before state codes. Codes that are both ("CA", "DE",
+   * "IN", "NL") go to the country only when the city is known to be there,
+   * so "Toronto, CA" is Canada and "Dover, DE" stays in the US.
+   */
+  regionFromLocation: (location?: string): string => {
+    if (!location) return DEFAULT_REGION;
+    const parts = location.split(',').map(p => p.trim().toLowerCase().replace(/\./g, '')).filter(Boolean);
+    const cityRegion = parts.map(p => CITY_REGIONS[p]).find(Boolean);
+    for (let i = parts.length - 1; i >= 0; i--) {
+      const part = parts[i];
+      if (COUNTRY_NAMES[part]) return COUNTRY_NAMES[part];
+      const code = part.toUpperCase().split(/\s+/)[0];
+      const isState = US_STATES.includes(code) || CA_PROVINCES.includes(code);
+      if (REGIONS[code] && (!isState || cityRegion === code)) return code;
+      if (US_STATES.includes(code)) return 'US';
+      if (CA_PROVINCES.includes(code)) return 'CA';
+      if (CITY_REGIONS[part]) return CITY_REGIONS[part];
+    }
+    return DEFAULT_REGION;
+  },
+
+  /**
+   * Parses a phone written in any common style. Numbers without an
+   * international prefix are read in `region`; extensions are dropped.
+   */
+  normalizePhone: (raw: string, region: string = DEFAULT_REGION): PhoneResult => {
+    const text = (raw || '').replace(/^tel:/i, '').replace(/\s*(?:ext\.?|extension|x|#)\s*\d+\s*$/i, '').trim();
+    if (!text) return { e164: null, issue: 'Empty' };
+    if (/[a-z]/i.test(text)) return { e164: null, issue: 'Contains letters' };
+
+    const digits = text.replace(/\D/g, '');
+    const international = text.startsWith('+') || digits.startsWith('00');
+
+    if (international) {
+      const full = text.startsWith('+') ? digits : digits.slice(2);
+      const code = callingCodeOf(full);
+      if (!code) {
+        if (full.length < 8 || full.length > 15) return { e164: null, issue: 'Wrong number of digits' };
+        return { e164: `+${full}` };
+      }
+      // "+44 (0)20 ..." keeps the trunk zero in brackets
+      const codeRegion = code === REGIONS[region]?.callingCode ? region : REGION_BY_CODE[code];
+      const national = stripTrunk(full.slice(code.length), REGIONS[codeRegion]);
+      const issue = nationalNumberIssue(national, codeRegion);
+      return issue ? { e164: null, region: codeRegion, issue } : { e164: `+${code}${national}`, region: codeRegion };
+    }
+
+    const rule = REGIONS[region] || REGIONS[DEFAULT_REGION];
+    const home = REGIONS[region] ? region : DEFAULT_REGION;
+    let national = stripTrunk(digits, rule);
+    // Country code typed without the plus, e.g. "1 512 555 0100" or "44 20 7946 0958"
+    if (national.startsWith(rule.callingCode) && !rule.lengths.includes(national.length)) {
+      national = stripTrunk(national.slice(rule.callingCode.length), rule);
+    }
+    const issue = nationalNumberIssue(national, home);
+    return issue ? { e164: null, region: home, issue } : { e164: `+${rule.callingCode}${national}`, region: home };
+  },
+
+  /** Region of an E.164 number, if its calling code is known */
+  regionOf: (e164: string): string | undefined => {
+    const code = /^\+\d{8,15}$/.test(e164 || '') ? callingCodeOf(e164.slice(1)) : undefined;
+    return code ? REGION_BY_CODE[code] : undefined;
+  },
+
+  /** Display form of an E.164 number; anything else is returned unchanged */
+  formatPhone: (e164: string, style: PhoneStyle = 'NATIONAL'): string => {
+    if (!/^\+\d{8,15}$/.test(e164 || '')) return e164;
+    const digits = e164.slice(1);
+    const code = callingCodeOf(digits);
+    if (!code) return e164;
+    const rule = REGIONS[REGION_BY_CODE[code]];
+    const parts = groupDigits(digits.slice(code.length), rule.groups);
+
+    if (style === 'INTERNATIONAL') return `+${code} ${rule.callingCode === '1' ? parts.join('-') : parts.join(' ')}`;
+    if (rule.callingCode === '1') return `(${parts[0]}) ${parts[1]}-${parts.slice(2).join('')}`;
+    return `${rule.trunkPrefix || ''}${parts.join(' ')}`;
+  },
+
+  /**
+   * Cleans one address: surrounding quotes and punctuation, "Name <addr>"
+   * display names, mailto: prefixes and case. Only the first address of a
+   * list is kept.
+   */
+  normalizeEmail: (raw: string): EmailResult => {
+    let text = (raw || '').trim();
+    try { text = decodeURIComponent(text); } catch { /* keep as typed */ }
+    const bracketed = text.match(/<([^<>]+)>/);
+    if (bracketed) text = bracketed[1];
+    text = text
+      .replace(/^mailto:/i, '')
+      .split('?')[0]
+      .split(/[,;\s]+(?=\S*@)/)[0]
+      .replace(/^[\s"'`(\[{,;:<]+|[\s"'`)\]},;:.>]+$/g, '')
+      .toLowerCase();
+
+    if (!text) return { email: null, issue: 'Empty' };
+    if (!text.includes('@')) return { email: null, issue: 'Missing @' };
+    if (/\s/.test(text)) return { email: null, issue: 'Contains spaces' };
+    if (/\.\./.test(text)) return { email: null, issue: 'Consecutive dots' };
+    if (!EMAIL_PATTERN.test(text)) return { email: null, issue: 'Invalid format' };
+    return { email: text };
+  },
+
+  /**
+   * Normalizes a lead's email and phone in place of the raw values. Malformed
+   * values are left as they were and listed in `contactIssues`. Without a
+   * location the region is taken from the phone already on the lead.
+   */
+  normalizeLead: (lead: SEOAudit, location?: string): SEOAudit => {
+    const region = location ? contactNormalizer.regionFromLocation(location) : contactNormalizer.regionOf(lead.phone) || DEFAULT_REGION;
+    const contactIssues: ContactIssue[] = [];
+    let { email, phone } = lead;
+
+    if (email && email.trim()) {
+      const result = contactNormalizer.normalizeEmail(email);
+      if (result.email) email = result.email;
+      else contactIssues.push({ field: 'email', value: email, reason: result.issue || 'Invalid format' });
+    }
+    if (phone && phone.trim()) {
+      const result = contactNormalizer.normalizePhone(phone, region);
+      if (result.e164) phone = result.e164;
+      else contactIssues.push({ field: 'phone', value: phone, reason: result.issue || 'Invalid format' });
+    }
+
+    return { ...lead, email, phone, contactIssues: contactIssues.length > 0 ? contactIssues : undefined };
+  },
+
+  /** E.164 when the stored value parses, otherwise the value as stored */
+  exportPhone: (phone: string, region: string = DEFAULT_REGION): string => {
+    return phone ? contactNormalizer.normalizePhone(phone, region).e164 || phone : '';
+  },
+
+  exportEmail: (email: string): string => {
+    return email ? contactNormalizer.normalizeEmail(email).email || email : '';
+  },
+};
@@ -0,0 +1,78 @@
+import { User } from '../types';
+import { LlmCredentials } from './llmAdapter';
+import { backendService } from './backendService';
+
+/**
+ * Credential Resolution
+ * Decides which key a generation call runs on. The active user's verified key
+ * always wins so usage on a shared deployment is billed to the right person.
+ * The deployment key (process.env.API_KEY) is only used when the user verified
+ * through the platform key picker, or when ALLOW_SHARED_API_KEY is enabled.
+ */
+
+const AUTH_ERROR_PATTERNS = [
+  /\b401\b/,
+  /\b403\b/,
+  /unauthori[sz]ed/i,
+  /API_KEY_INVALID/i,
+  /invalid api key/i,
+  /incorrect api key/i,
+  /PERMISSION_DENIED/i,
+  /API key not valid/i,
+];
+
+function sharedKeyAllowed(): boolean {
+  return ['true', '1', 'yes'].includes(String(process.env.ALLOW_SHARED_API_KEY || '').toLowerCase());
+}
+
+export const credentialService = {
+  /**
+   * Resolves credentials for the user's active provider or throws with a
+   * message the UI can show as-is.
+   */
+  resolve: (user: User): LlmCredentials => {
+    switch (user.activeAiProvider) {
+      case 'OPENAI':
+        if (user.openaiKeyStatus !== 'VERIFIED' || !user.openaiApiKey) {
+          throw new Error("Unauthorized: no verified OpenAI key on this account. Re-verify at the Uplink Gate.");
+        }
+        return { provider: 'OPENAI', apiKey: user.openaiApiKey, config: user.apiConfig };
+
+      case 'CUSTOM':
+        if (user.geminiKeyStatus !== 'VERIFIED' || !user.apiConfig?.apiKey) {
+          throw new Error("Unauthorized: no verified custom API node on this account. Re-verify at the Uplink Gate.");
+        }
+        return { provider: 'CUSTOM', apiKey: user.apiConfig.apiKey, config: user.apiConfig };
+
+      default: {
+        if (user.geminiKeyStatus === 'VERIFIED' && user.geminiApiKey) {
+          return { provider: 'GEMINI', apiKey: user.geminiApiKey };
+        }
+        const platformVerified = user.geminiKeyStatus === 'VERIFIED' && user.geminiKeySource === 'PLATFORM';
+        if ((platformVerified || sharedKeyAllowed()) && process.env.API_KEY) {
+          return { provider: 'GEMINI', apiKey: process.env.API_KEY };
+        }
+        throw new Error("Unauthorized: no verified Gemini key on this account. Re-verify at the Uplink Gate.");
+      }
+    }
+  },
+
+  isAuthError: (err: any): boolean => {
+    const status = err?.status ?? err?.code;
+    if (status === 401 || status === 403) return true;
+    const message = String(err?.message || err || '');
+    return AUTH_ERROR_PATTERNS.some(pattern => pattern.test(message));
+  },
+
+  /**
+   * Flags the active provider's key as FAILED and persists it, which sends the
+   * user back through the Uplink Gate on the next render.
+   */
+  markFailed: (user: User): User => {
+    const updated: User = user.activeAiProvider === 'OPENAI'
+      ? { ...user, openaiKeyStatus: 'FAILED' }
+      : { ...user, geminiKeyStatus: 'FAILED' };
+    backendService.updateUser(updated);
+    return updated;
+  }
+};
@@ -0,0 +1,125 @@
+/**
+ * Cron Schedule
+ * Minimal five-field cron support (minute hour day-of-month month day-of-week)
+ * for saved-search runs. Fields accept "*", numbers, lists, ranges and steps,
+ * e.g. "0 8 * * 1-5" or "15 9 1,15 * *". Times are evaluated in local time.
+ */
+
+export interface CronPreset {
+  label: string;
+  expression: string;
+}
+
+export const CRON_PRESETS: CronPreset[] = [
+  { label: 'Every 6 hours', expression: '0 */6 * * *' },
+  { label: 'Daily at 08:00', expression: '0 8 * * *' },
+  { label: 'Weekdays at 08:00', expression: '0 8 * * 1-5' },
+  { label: 'Weekly, Monday 08:00', expression: '0 8 * * 1' },
+  { label: 'Monthly, 1st at 08:00', expression: '0 8 1 * *' },
+];
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Cron ORs day-of-month and day-of-week when both are restricted */
+  dayIsWildcard: boolean;
+  weekdayIsWildcard: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+// A year of minutes bounds the search for expressions like "0 0 31 2 *" that never match
+const MAX_LOOKAHEAD_MINUTES = 366 * 24 * 60;
+
+// "*", "5" or "1-5", each optionally followed by "/step"
+const FIELD_PART = /^(\*|\d+(-\d+)?)(\/\d+)?$/;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  field.split(',').forEach(part => {
+    // Number('') is 0, so "1,,2" or "-5" would otherwise slip through as minute 0
+    if (!FIELD_PART.test(part)) throw new Error(part ? `Invalid value "${part}"` : `Empty list item in "${field}"`);
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step "${part}"`);
+
+    let start = min;
+    let end = max;
+    if (rangePart !== '*') {
+      const [from, to] = rangePart.split('-').map(Number);
+      start = from;
+      end = to === undefined ? (stepPart === undefined ? from : max) : to;
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Value "${part}" out of range ${min}-${max}`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  });
+  return values;
+}
+
+function parse(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error('Cron expression needs 5 fields: minute hour day month weekday');
+  const [minutes, hours, days, months, weekdays] = fields.map((f, i) => parseField(f, FIELD_RANGES[i]));
+  // 7 is an alias for Sunday
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes, hours, days, months, weekdays,
+    dayIsWildcard: fields[2] === '*',
+    weekdayIsWildcard: fields[4] === '*',
+  };
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const dayMatch = cron.days.has(date.getDate());
+  const weekdayMatch = cron.weekdays.has(date.getDay());
+  if (cron.dayIsWildcard) return weekdayMatch;
+  if (cron.weekdayIsWildcard) return dayMatch;
+  return dayMatch || weekdayMatch;
+}
+
+export const cronSchedule = {
+  /**
+   * Returns a human-readable error, or null when the expression is valid.
+   */
+  validate: (expression: string): string | null => {
+    try {
+      parse(expression);
+      return null;
+    } catch (err: any) {
+      return err.message;
+    }
+  },
+
+  /**
+   * First matching minute strictly after `from`, or null if none within a year.
+   */
+  nextRun: (expression: string, from: Date = new Date()): Date | null => {
+    const cron = parse(expression);
+    const cursor = new Date(from.getTime());
+    cursor.setSeconds(0, 0);
+    cursor.setMinutes(cursor.getMinutes() + 1);
+
+    for (let i = 0; i < MAX_LOOKAHEAD_MINUTES; i++) {
+      if (
+        cron.months.has(cursor.getMonth() + 1) &&
+        matchesDay(cron, cursor) &&
+        cron.hours.has(cursor.getHours()) &&
+        cron.minutes.has(cursor.getMinutes())
+      ) {
+        return cursor;
+      }
+      cursor.setMinutes(cursor.getMinutes() + 1);
+    }
+    return null;
+  },
+
+  describe: (expression: string): string => {
+    const preset = CRON_PRESETS.find(p => p.expression === expression.trim());
+    return preset ? preset.label : expression.trim();
+  }
+};
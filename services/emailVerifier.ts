@@ -0,0 +1,315 @@
+import { OutreachLead, ValidationStatus } from '../types';
+import { linkedController, throwIfAborted, isAbortError } from './abortUtils';
+
+/**
+ * Email Verification
+ * Decides deliverability from evidence instead of asking a model: address
+ * syntax, disposable providers, role accounts, likely domain typos, MX
+ * records and, when a prober is supplied, an SMTP RCPT check. DNS and SMTP
+ * sit behind injectable functions so the rules can be exercised offline.
+ */
+
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+/**
+ * Resolves the domain's MX records; an empty list means none exist. Throws
+ * when the lookup itself could not be made.
+ */
+export type MxResolver = (domain: string, signal?: AbortSignal) => Promise<MxRecord[]>;
+
+/** Resolves to true when the domain has an A/AAAA record to fall back to */
+export type AddressResolver = (domain: string, signal?: AbortSignal) => Promise<boolean>;
+
+export type SmtpProbeResult = 'ACCEPTED' | 'REJECTED' | 'UNKNOWN';
+
+/**
+ * Asks the mail exchanger whether it would accept RCPT TO for the address.
+ * Browsers cannot open SMTP sockets, so this is only set when a relay exists.
+ */
+export type SmtpProber = (email: string, mxHost: string, signal?: AbortSignal) => Promise<SmtpProbeResult>;
+
+export interface EmailVerification {
+  status: ValidationStatus;
+  reasons: string[];
+  /** Corrected address when the domain looks like a typo */
+  suggestion?: string;
+}
+
+export interface EmailVerifyOptions {
+  mxResolver?: MxResolver;
+  addressResolver?: AddressResolver;
+  smtpProber?: SmtpProber;
+  signal?: AbortSignal;
+  onVerified?: (index: number, lead: OutreachLead) => void;
+}
+
+const DNS_TIMEOUT_MS = 6000;
+const VERIFY_CONCURRENCY = 6;
+const DOH_ENDPOINT = 'https://dns.google/resolve';
+const DNS_NXDOMAIN = 3;
+
+/* ===================== RULE DATA ===================== */
+
+const DISPOSABLE_DOMAINS = [
+  'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', 'sharklasers.com', '10minutemail.com', '10minutemail.net',
+  'tempmail.com', 'temp-mail.org', 'tempmail.net', 'throwawaymail.com', 'yopmail.com', 'yopmail.net', 'getnada.com',
+  'nada.email', 'trashmail.com', 'trashmail.net', 'dispostable.com', 'maildrop.cc', 'mailnesia.com', 'mintemail.com',
+  'fakeinbox.com', 'emailondeck.com', 'mohmal.com', 'burnermail.io', 'spamgourmet.com', 'mytemp.email', 'tempr.email',
+  'discard.email', 'moakt.com', 'mailcatch.com', 'inboxbear.com', 'tempinbox.com', 'getairmail.com', 'spambox.us',
+  'mailpoof.com', 'harakirimail.com', 'tmail.ws', 'emailfake.com', 'crazymailing.com', 'armyspy.com',
+];
+
+const ROLE_LOCAL_PARTS = [
+  'info', 'admin', 'administrator', 'support', 'sales', 'contact', 'office', 'hello', 'hi', 'billing', 'accounts',
+  'webmaster', 'postmaster', 'hostmaster', 'abuse', 'noreply', 'no-reply', 'donotreply', 'marketing', 'team',
+  'enquiries', 'inquiries', 'help', 'jobs', 'careers', 'hr', 'reception', 'mail', 'service', 'customerservice',
+];
+
+// Domains people mistype often enough to be worth correcting
+const COMMON_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'msn.com', 'icloud.com',
+  'me.com', 'aol.com', 'protonmail.com', 'proton.me', 'comcast.net', 'verizon.net', 'att.net', 'sbcglobal.net',
+  'yahoo.co.uk', 'hotmail.co.uk', 'btinternet.com', 'gmx.com', 'mail.com', 'zoho.com', 'yandex.com',
+];
+
+const TLD_TYPOS: Record<string, string> = {
+  con: 'com', cmo: 'com', ocm: 'com', comm: 'com', om: 'com', vom: 'com', xom: 'com', cm: 'com',
+  nte: 'net', nett: 'net', ogr: 'org', orgg: 'org',
+};
+
+/* ===================== SYNTAX ===================== */
+
+// RFC 5322 dot-atom local part; quoted local parts are legal but never used for business mail
+const LOCAL_PART = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/i;
+const DOMAIN_LABEL = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/i;
+
+function syntaxIssue(email: string): string | undefined {
+  if (email.length > 254) return 'Address is longer than 254 characters';
+  const at = email.lastIndexOf('@');
+  if (at <= 0 || at === email.length - 1) return 'Missing local part or domain';
+  const local = email.slice(0, at);
+  const domain = email.slice(at + 1);
+  if (local.length > 64) return 'Local part is longer than 64 characters';
+  if (!LOCAL_PART.test(local)) return 'Local part has invalid characters or dots';
+  const labels = domain.split('.');
+  if (labels.length < 2) return 'Domain has no top-level domain';
+  if (labels.some(l => l.length > 63 || !DOMAIN_LABEL.test(l))) return 'Domain has an invalid label';
+  if (!/^[a-z]{2,}$/i.test(labels[labels.length - 1])) return 'Top-level domain is not alphabetic';
+  return undefined;
+}
+
+/* ===================== TYPOS ===================== */
+
+/** Optimal string alignment distance, so swapped letters count once */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function suggestDomain(domain: string): string | undefined {
+  if (COMMON_DOMAINS.includes(domain)) return undefined;
+  const closest = COMMON_DOMAINS
+    .map(known => ({ known, distance: editDistance(domain, known) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  // Short domains are too easy to match by accident
+  if (closest.distance > 0 && closest.distance <= (domain.length > 8 ? 2 : 1)) return closest.known;
+
+  const tld = domain.slice(domain.lastIndexOf('.') + 1);
+  if (TLD_TYPOS[tld]) return `${domain.slice(0, domain.lastIndexOf('.') + 1)}${TLD_TYPOS[tld]}`;
+  return undefined;
+}
+
+/* ===================== DNS ===================== */
+
+async function dohQuery(domain: string, type: 'MX' | 'A' | 'AAAA', signal?: AbortSignal): Promise<any> {
+  const controller = linkedController(signal, DNS_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${DOH_ENDPOINT}?name=${encodeURIComponent(domain)}&type=${type}`, { signal: controller.signal });
+    if (!response.ok) throw new Error(`DNS lookup failed: HTTP ${response.status}`);
+    return await response.json();
+  } finally {
+    controller.dispose();
+  }
+}
+
+export const dohMxResolver: MxResolver = async (domain, signal) => {
+  const result = await dohQuery(domain, 'MX', signal);
+  if (result.Status === DNS_NXDOMAIN) return [];
+  return (Array.isArray(result.Answer) ? result.Answer : [])
+    .filter((a: any) => a.type === 15 && typeof a.data === 'string')
+    .map((a: any) => {
+      const [priority, exchange] = a.data.split(/\s+/);
+      return { priority: Number(priority), exchange: (exchange || '').replace(/\.$/, '') };
+    })
+    .sort((a: MxRecord, b: MxRecord) => a.priority - b.priority);
+};
+
+export const dohAddressResolver: AddressResolver = async (domain, signal) => {
+  const a = await dohQuery(domain, 'A', signal);
+  if (a.Status === DNS_NXDOMAIN) return false;
+  if (Array.isArray(a.Answer) && a.Answer.length > 0) return true;
+  const aaaa = await dohQuery(domain, 'AAAA', signal);
+  return Array.isArray(aaaa.Answer) && aaaa.Answer.length > 0;
+};
+
+/* ===================== VERIFIER ===================== */
+
+function cachedLookup<T>(lookup: (domain: string, signal?: AbortSignal) => Promise<T>) {
+  const cache = new Map<string, Promise<T>>();
+  return (domain: string, signal?: AbortSignal): Promise<T> => {
+    if (!cache.has(domain)) {
+      cache.set(domain, lookup(domain, signal).catch(err => {
+        cache.delete(domain);
+        throw err;
+      }));
+    }
+    return cache.get(domain)!;
+  };
+}
+
+function withVerification(lead: OutreachLead, result: EmailVerification): OutreachLead {
+  const next: OutreachLead = { ...lead, validationStatus: result.status, validationReason: result.reasons.join('; ') };
+  if (result.suggestion) next.suggestedEmail = result.suggestion;
+  else delete next.suggestedEmail;
+  return next;
+}
+
+export const emailVerifier = {
+  /**
+   * Runs every rule against one address. Hard failures (bad syntax, no mail
+   * server, a rejected RCPT) make it INVALID; soft signals make it RISKY.
+   * An address that passed every rule but whose MX lookup could not be made
+   * is UNCHECKED, since its domain may not take mail at all.
+   */
+  verify: async (rawEmail: string, options: EmailVerifyOptions = {}): Promise<EmailVerification> => {
+    const { mxResolver = dohMxResolver, addressResolver = dohAddressResolver, smtpProber, signal } = options;
+    const email = rawEmail.trim().toLowerCase();
+    const reasons: string[] = [];
+    let status: ValidationStatus = 'VALID';
+    const risky = (reason: string) => { reasons.push(reason); if (status === 'VALID') status = 'RISKY'; };
+    const invalid = (reason: string): EmailVerification => ({ status: 'INVALID', reasons: [...reasons, reason] });
+
+    const syntax = syntaxIssue(email);
+    if (syntax) return invalid(syntax);
+
+    const [local, domain] = [email.slice(0, email.lastIndexOf('@')), email.slice(email.lastIndexOf('@') + 1)];
+    if (DISPOSABLE_DOMAINS.includes(domain)) return invalid('Disposable mailbox provider');
+
+    const suggestedDomain = suggestDomain(domain);
+    const suggestion = suggestedDomain ? `${local}@${suggestedDomain}` : undefined;
+    if (suggestion) risky(`Possible typo; did you mean ${suggestion}?`);
+    if (ROLE_LOCAL_PARTS.includes(local.replace(/[._-]?\d+$/, ''))) risky('Role account; often unmonitored or filtered');
+
+    let mx: MxRecord[] | undefined;
+    try {
+      mx = await mxResolver(domain, signal);
+    } catch (err) {
+      if (isAbortError(err, signal)) throw err;
+      reasons.push('MX lookup unavailable');
+      if (status === 'VALID') status = 'UNCHECKED';
+    }
+
+    if (mx) {
+      // RFC 7505 null MX: the domain explicitly accepts no mail
+      if (mx.length === 1 && !mx[0].exchange) return { ...invalid('Domain does not accept email (null MX)'), suggestion };
+      if (mx.length === 0) {
+        let hasAddress: boolean | undefined;
+        try {
+          hasAddress = await addressResolver(domain, signal);
+        } catch (err) {
+          if (isAbortError(err, signal)) throw err;
+        }
+        if (hasAddress === false) return { ...invalid('Domain has no mail server'), suggestion };
+        risky('No MX record; delivery relies on the A record');
+      }
+    }
+
+    if (smtpProber && mx && mx.length > 0) {
+      const host = mx[0].exchange;
+      const probe = await smtpProber(email, host, signal);
+      if (probe === 'REJECTED') return { ...invalid('Mail server rejected the recipient'), suggestion };
+      if (probe === 'ACCEPTED') {
+        // A server that also takes a random mailbox accepts everything
+        const canary = await smtpProber(`verify-${Math.random().toString(36).substring(2, 10)}@${domain}`, host, signal);
+        if (canary === 'ACCEPTED') risky('Catch-all domain; mailbox cannot be confirmed');
+      } else {
+        reasons.push('SMTP probe inconclusive');
+      }
+    }
+
+    if (status === 'VALID' && reasons.length === 0) reasons.push(mx ? 'Syntax and mail server OK' : 'Syntax OK');
+    return { status, reasons, suggestion };
+  },
+
+  /**
+   * Options whose resolvers look each domain up once, however often asked.
+   * A failed lookup is dropped from the cache so the next address retries it.
+   */
+  withDnsCache: (options: EmailVerifyOptions = {}): EmailVerifyOptions => {
+    const mxResolver = options.mxResolver || dohMxResolver;
+    const addressResolver = options.addressResolver || dohAddressResolver;
+    return {
+      ...options,
+      mxResolver: cachedLookup(mxResolver),
+      addressResolver: cachedLookup(addressResolver),
+    };
+  },
+
+  /**
+   * Verifies a batch with bounded concurrency and writes the result onto
+   * each lead, keeping every other field. An address whose checks throw is
+   * returned UNCHECKED rather than failing the batch.
+   */
+  verifyLeads: async (leads: OutreachLead[], options: EmailVerifyOptions = {}): Promise<OutreachLead[]> => {
+    const cached = emailVerifier.withDnsCache(options);
+    const verified: OutreachLead[] = new Array(leads.length);
+    let cursor = 0;
+    const worker = async () => {
+      while (cursor < leads.length) {
+        throwIfAborted(options.signal);
+        const idx = cursor++;
+        try {
+          verified[idx] = withVerification(leads[idx], await emailVerifier.verify(leads[idx].email, cached));
+        } catch (err: any) {
+          if (isAbortError(err, options.signal)) throw err;
+          verified[idx] = withVerification(leads[idx], { status: 'UNCHECKED', reasons: [`Verification failed: ${err.message}`] });
+        }
+        options.onVerified?.(idx, verified[idx]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(VERIFY_CONCURRENCY, leads.length) }, worker));
+    return verified;
+  },
+
+  /**
+   * Copies verdicts onto the caller's leads by address. Only the validation
+   * fields are taken from a result, so nothing else on the lead can be lost;
+   * leads without a result come back UNCHECKED.
+   */
+  mergeResults: (leads: OutreachLead[], results: OutreachLead[]): OutreachLead[] => {
+    const byEmail = new Map(results.map(r => [r.email.trim().toLowerCase(), r]));
+    return leads.map(lead => {
+      const result = byEmail.get(lead.email.trim().toLowerCase());
+      const merged: OutreachLead = {
+        ...lead,
+        validationStatus: result?.validationStatus || 'UNCHECKED',
+        validationReason: result ? result.validationReason : 'No verification result',
+      };
+      if (result?.suggestedEmail) merged.suggestedEmail = result.suggestedEmail;
+      else delete merged.suggestedEmail;
+      return merged;
+    });
+  },
+};
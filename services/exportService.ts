@@ -0,0 +1,239 @@
+import { SEOAudit, OpportunityLevel, ExportFieldId, ExportProfile, ExportColumn } from '../types';
+import { backendService } from './backendService';
+import { normalizeDomain } from './leadUtils';
+import { contactNormalizer } from './contactNormalizer';
+import { xlsxWriter, CellValue } from './xlsxWriter';
+
+/**
+ * Lead Export
+ * Turns audits into CSV (via named column profiles), JSON or a native XLSX
+ * workbook. Profiles map SEOAudit fields onto the import headers a CRM
+ * expects; users can save their own alongside the built-in ones.
+ */
+
+export type ExportFormat = 'CSV' | 'XLSX' | 'JSON';
+
+export const EXPORT_FIELD_LABELS: Record<ExportFieldId, string> = {
+  websiteUrl: 'Website URL',
+  domain: 'Domain',
+  businessName: 'Business name',
+  email: 'Email',
+  phone: 'Phone',
+  contactPageUrl: 'Contact page URL',
+  onPageIssues: 'On-page issues (joined)',
+  technicalIssues: 'Technical issues (joined)',
+  allIssues: 'All issues (joined)',
+  issueCount: 'Issue count',
+  localSeoHasIssues: 'Local SEO issues (Yes/No)',
+  localSeoReason: 'Local SEO reason',
+  localSeoSummary: 'Local SEO summary',
+  opportunityLevel: 'Opportunity level',
+  opportunityScore: 'Opportunity score',
+  rating: 'Rating (Hot/Warm/Cold)',
+  notes: 'Notes',
+  constant: 'Fixed value',
+};
+
+const RATINGS: Record<OpportunityLevel, string> = {
+  [OpportunityLevel.HIGH]: 'Hot',
+  [OpportunityLevel.MEDIUM]: 'Warm',
+  [OpportunityLevel.LOW]: 'Cold',
+};
+
+export const BUILT_IN_PROFILES: ExportProfile[] = [
+  {
+    id: 'client-engine',
+    name: 'Client Engine (default)',
+    // Exact headers required for one-click re-import
+    columns: [
+      { header: 'Website URL', field: 'websiteUrl' },
+      { header: 'Business Name', field: 'businessName' },
+      { header: 'Email', field: 'email' },
+      { header: 'Phone', field: 'phone' },
+      { header: 'Contact Page URL', field: 'contactPageUrl' },
+      { header: 'On-Page SEO Issues', field: 'onPageIssues' },
+      { header: 'Technical SEO Issues', field: 'technicalIssues' },
+      { header: 'Local SEO Issues', field: 'localSeoSummary' },
+      { header: 'Opportunity Level', field: 'opportunityLevel' },
+    ],
+  },
+  {
+    id: 'hubspot',
+    name: 'HubSpot (Companies)',
+    columns: [
+      { header: 'Company name', field: 'businessName' },
+      { header: 'Company Domain Name', field: 'domain' },
+      { header: 'Website URL', field: 'websiteUrl' },
+      { header: 'Phone Number', field: 'phone' },
+      { header: 'Email', field: 'email' },
+      { header: 'Lifecycle Stage', field: 'constant', value: 'lead' },
+      { header: 'Description', field: 'allIssues' },
+    ],
+  },
+  {
+    id: 'pipedrive',
+    name: 'Pipedrive (Leads)',
+    columns: [
+      { header: 'Lead - Title', field: 'businessName' },
+      { header: 'Organization - Name', field: 'businessName' },
+      { header: 'Person - Name', field: 'businessName' },
+      { header: 'Person - Email', field: 'email' },
+      { header: 'Person - Phone', field: 'phone' },
+      { header: 'Note - Content', field: 'allIssues' },
+    ],
+  },
+  {
+    id: 'salesforce',
+    name: 'Salesforce (Leads)',
+    columns: [
+      { header: 'Company', field: 'businessName' },
+      // Last Name is mandatory on Salesforce leads; the business name stands in until a contact is known
+      { header: 'Last Name', field: 'businessName' },
+      { header: 'Email', field: 'email' },
+      { header: 'Phone', field: 'phone' },
+      { header: 'Website', field: 'websiteUrl' },
+      { header: 'Lead Source', field: 'constant', value: 'Client Engine' },
+      { header: 'Rating', field: 'rating' },
+      { header: 'Description', field: 'allIssues' },
+    ],
+  },
+];
+
+function fieldValue(lead: SEOAudit, column: ExportColumn, region: string): string {
+  switch (column.field) {
+    case 'domain': return normalizeDomain(lead.websiteUrl);
+    case 'email': return contactNormalizer.exportEmail(lead.email);
+    case 'phone': return contactNormalizer.exportPhone(lead.phone, region);
+    case 'onPageIssues': return lead.onPageIssues.join('; ');
+    case 'technicalIssues': return lead.technicalIssues.join('; ');
+    case 'allIssues': return [...lead.onPageIssues, ...lead.technicalIssues].join('; ');
+    case 'issueCount': return String(lead.onPageIssues.length + lead.technicalIssues.length);
+    case 'localSeoHasIssues': return lead.localSeoIssues.hasIssues ? 'Yes' : 'No';
+    case 'localSeoReason': return lead.localSeoIssues.reason;
+    case 'localSeoSummary': return `${lead.localSeoIssues.hasIssues ? 'Yes' : 'No'}${lead.localSeoIssues.reason ? ` - ${lead.localSeoIssues.reason}` : ''}`;
+    case 'opportunityScore': return lead.opportunityScore !== undefined ? String(lead.opportunityScore) : '';
+    case 'rating': return RATINGS[lead.opportunityLevel] || '';
+    case 'notes': return lead.notes || '';
+    case 'constant': return column.value || '';
+    default: return (lead[column.field] as string) || '';
+  }
+}
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+// Phone numbers and negative figures can only ever be arithmetic, so they stay importable
+const ARITHMETIC_ONLY = /^[-+\d\s().]+$/;
+
+function csvCell(raw: string): string {
+  const value = FORMULA_START.test(raw) && !ARITHMETIC_ONLY.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function issueColumns(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+}
+
+export const exportService = {
+  getProfiles: (userId: string): ExportProfile[] => [...BUILT_IN_PROFILES, ...backendService.getExportProfiles(userId)],
+
+  saveProfile: (userId: string, name: string, columns: ExportColumn[], id?: string): ExportProfile => {
+    const cleaned = columns.filter(c => c.header.trim());
+    if (!name.trim()) throw new Error('Profile name is required.');
+    if (cleaned.length === 0) throw new Error('Add at least one column with a header.');
+    const profile: ExportProfile = {
+      id: id || `EXP-${Math.random().toString(36).substring(2, 9)}`,
+      userId,
+      name: name.trim(),
+      columns: cleaned.map(c => ({ ...c, header: c.header.trim() })),
+    };
+    backendService.saveExportProfile(profile);
+    return profile;
+  },
+
+  /**
+   * `location` is the search the leads came from; phones stored without a
+   * country code are read in its region.
+   */
+  toCsv: (leads: SEOAudit[], profile: ExportProfile, location?: string): string => {
+    const region = contactNormalizer.regionFromLocation(location);
+    const lines = [
+      profile.columns.map(c => csvCell(c.header)).join(','),
+      ...leads.map(lead => profile.columns.map(c => csvCell(fieldValue(lead, c, region))).join(',')),
+    ];
+    // BOM so Excel opens UTF-8 business names correctly
+    return '\uFEFF' + lines.join('\r\n');
+  },
+
+  toJson: (leads: SEOAudit[], location?: string): string => {
+    const region = contactNormalizer.regionFromLocation(location);
+    return JSON.stringify(leads.map(lead => ({
+      ...lead,
+      email: contactNormalizer.exportEmail(lead.email),
+      phone: contactNormalizer.exportPhone(lead.phone, region),
+    })), null, 2);
+  },
+
+  /**
+   * Workbook with a Leads sheet (one issue per column) and an Issues sheet
+   * (one row per issue) for pivoting.
+   */
+  toXlsx: (leads: SEOAudit[], location?: string): Blob => {
+    const region = contactNormalizer.regionFromLocation(location);
+    const maxOnPage = leads.reduce((max, l) => Math.max(max, l.onPageIssues.length), 0);
+    const maxTechnical = leads.reduce((max, l) => Math.max(max, l.technicalIssues.length), 0);
+
+    const leadRows: CellValue[][] = [
+      [
+        'Business Name', 'Website URL', 'Domain', 'Email', 'Phone', 'Contact Page URL',
+        'Opportunity Level', 'Opportunity Score', 'Local SEO Issues', 'Local SEO Reason', 'Notes',
+        ...issueColumns('On-Page Issue', maxOnPage),
+        ...issueColumns('Technical Issue', maxTechnical),
+      ],
+      ...leads.map(lead => [
+        lead.businessName, lead.websiteUrl, normalizeDomain(lead.websiteUrl),
+        contactNormalizer.exportEmail(lead.email), contactNormalizer.exportPhone(lead.phone, region), lead.contactPageUrl,
+        lead.opportunityLevel, lead.opportunityScore, lead.localSeoIssues.hasIssues ? 'Yes' : 'No', lead.localSeoIssues.reason, lead.notes,
+        ...Array.from({ length: maxOnPage }, (_, i) => lead.onPageIssues[i]),
+        ...Array.from({ length: maxTechnical }, (_, i) => lead.technicalIssues[i]),
+      ]),
+    ];
+
+    const issueRows: CellValue[][] = [['Business Name', 'Domain', 'Category', 'Issue']];
+    leads.forEach(lead => {
+      const domain = normalizeDomain(lead.websiteUrl);
+      lead.onPageIssues.forEach(issue => issueRows.push([lead.businessName, domain, 'On-Page', issue]));
+      lead.technicalIssues.forEach(issue => issueRows.push([lead.businessName, domain, 'Technical', issue]));
+      if (lead.localSeoIssues.hasIssues) issueRows.push([lead.businessName, domain, 'Local SEO', lead.localSeoIssues.reason]);
+    });
+
+    return xlsxWriter.build([
+      { name: 'Leads', rows: leadRows },
+      { name: 'Issues', rows: issueRows },
+    ]);
+  },
+
+  export: (leads: SEOAudit[], format: ExportFormat, profile?: ExportProfile, location?: string) => {
+    const stamp = new Date().toISOString().split('T')[0];
+    if (format === 'XLSX') {
+      exportService.download(exportService.toXlsx(leads, location), `Client_Engine_Leads_${stamp}.xlsx`);
+    } else if (format === 'JSON') {
+      exportService.download(new Blob([exportService.toJson(leads, location)], { type: 'application/json' }), `Client_Engine_Leads_${stamp}.json`);
+    } else {
+      const chosen = profile || BUILT_IN_PROFILES[0];
+      const suffix = chosen.id === BUILT_IN_PROFILES[0].id ? '' : `_${chosen.name.replace(/[^a-z0-9]+/gi, '_')}`;
+      exportService.download(new Blob([exportService.toCsv(leads, chosen, location)], { type: 'text/csv;charset=utf-8;' }), `Client_Engine_Leads${suffix}_${stamp}.csv`);
+    }
+  },
+
+  download: (blob: Blob, fileName: string) => {
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+};
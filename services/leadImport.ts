@@ -0,0 +1,221 @@
+import { OutreachLead, RejectedRow } from '../types';
+import { xlsxReader } from './xlsxReader';
+import { contactNormalizer } from './contactNormalizer';
+import { templateEngine } from './templateEngine';
+
+/**
+ * Recipient Intake
+ * Reads uploaded CSV/TSV/XLSX files into rows, works out whether the first
+ * row is a header and which column holds which OutreachLead field, then
+ * builds de-duplicated leads for a campaign. Our own export headers (every
+ * built-in profile and the XLSX workbook) are recognised automatically;
+ * other named columns are kept as custom merge tags.
+ */
+
+export type IntakeField = 'email' | 'businessName' | 'website' | 'location' | 'seoErrors' | 'notes';
+
+/** Keeps the column on the lead as a custom merge tag */
+export const CUSTOM_COLUMN = 'custom';
+
+/** Target field per column; null leaves the column out */
+export type ColumnMapping = (IntakeField | typeof CUSTOM_COLUMN | null)[];
+
+export interface IntakePreview {
+  leads: OutreachLead[];
+  duplicates: number;
+  invalid: RejectedRow[];
+  blankRows: number;
+}
+
+export const INTAKE_FIELD_LABELS: Record<IntakeField, string> = {
+  email: 'Email',
+  businessName: 'Business name',
+  website: 'Website',
+  location: 'Location',
+  seoErrors: 'SEO issues (joined)',
+  notes: 'Notes',
+};
+
+// Fields that several columns may feed; values are joined in column order
+const MULTI_COLUMN_FIELDS: IntakeField[] = ['seoErrors'];
+
+const HEADER_ALIASES: Record<IntakeField, RegExp[]> = {
+  email: [/^e-?mail( address)?$/, /^person - email$/, /^contact e-?mail$/, /^work e-?mail$/],
+  businessName: [/^business( name)?$/, /^company( name)?$/, /^organi[sz]ation( - name)?$/, /^lead - title$/, /^name$/, /^account name$/],
+  website: [/^website( url)?$/, /^url$/, /^domain$/, /^company domain name$/, /^site$/, /^web$/],
+  location: [/^location$/, /^city$/, /^address$/, /^region$/, /^market$/],
+  seoErrors: [/seo issues?$/, /^on-page issue \d+$/, /^technical issue \d+$/, /^all issues/, /^issues$/, /^description$/, /^note - content$/, /^seo errors$/],
+  notes: [/^notes?$/, /^comments?$/],
+};
+
+const DELIMITERS = [',', ';', '\t', '|'];
+const EMPTY_ISSUE = /^(no|none|n\/a|-)$/i;
+
+function headerField(header: string): IntakeField | null {
+  const key = header.trim().toLowerCase().replace(/\s+/g, ' ');
+  const match = (Object.keys(HEADER_ALIASES) as IntakeField[]).find(field => HEADER_ALIASES[field].some(re => re.test(key)));
+  return match || null;
+}
+
+/** Delimiter that splits the first lines into the most consistent column count */
+function detectDelimiter(text: string): string {
+  // Drop quoted fields first so a cell spanning several lines counts as part of its row
+  const sample = text.replace(/"(?:[^"]|"")*"/g, '').split(/\r?\n/).filter(l => l.trim()).slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+  DELIMITERS.forEach(delimiter => {
+    const counts = sample.map(line => line.split(delimiter).length - 1);
+    const min = Math.min(...counts);
+    // Consistent counts beat occasional ones, so score by the smallest line
+    const score = min > 0 ? min * 10 + (counts.every(c => c === counts[0]) ? 5 : 0) : 0;
+    if (score > bestScore) { best = delimiter; bestScore = score; }
+  });
+  return best;
+}
+
+export const leadImport = {
+  /** RFC 4180 parsing with quoted fields, doubled quotes, embedded newlines and a BOM */
+  parseCsv: (input: string, delimiter?: string): string[][] => {
+    const text = input.replace(/^\uFEFF/, '');
+    const sep = delimiter || detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (quoted) {
+        if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+        else if (ch === '"') quoted = false;
+        else field += ch;
+      } else if (ch === '"' && field.trim() === '') {
+        quoted = true;
+        field = '';
+      } else if (ch === sep) {
+        row.push(field);
+        field = '';
+      } else if (ch === '\n' || ch === '\r') {
+        if (ch === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += ch;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    // Blank rows stay so row numbers in the preview match the file
+    while (rows.length > 0 && rows[rows.length - 1].every(cell => !cell.trim())) rows.pop();
+    return rows;
+  },
+
+  /** Rows from a CSV, TSV or XLSX upload */
+  readFile: async (file: File): Promise<string[][]> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (xlsxReader.isXlsx(bytes)) return xlsxReader.readFirstSheet(bytes);
+    if (bytes[0] === 0xd0 && bytes[1] === 0xcf) throw new Error('Legacy .xls files are not supported. Save the sheet as .xlsx or .csv.');
+
+    let text: string;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      // Excel on Windows still writes CSV in the ANSI code page
+      text = new TextDecoder('windows-1252').decode(bytes);
+    }
+    return leadImport.parseCsv(text);
+  },
+
+  /**
+   * The first row is a header when it names a known field, or when it has
+   * no address while the rows under it do.
+   */
+  detectHeader: (rows: string[][]): boolean => {
+    if (rows.length === 0) return false;
+    const [first, ...rest] = rows;
+    if (first.some(cell => headerField(cell))) return true;
+    if (first.some(cell => cell.includes('@'))) return false;
+    return rest.slice(0, 20).some(row => row.some(cell => cell.includes('@')));
+  },
+
+  autoMap: (rows: string[][], hasHeader: boolean): ColumnMapping => {
+    const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+    const headers = hasHeader ? rows[0] : [];
+    const body = hasHeader ? rows.slice(1) : rows;
+    const mapping: ColumnMapping = new Array(width).fill(null);
+    const taken = new Set<IntakeField>();
+
+    headers.forEach((header, col) => {
+      const field = headerField(header || '');
+      if (!field || (taken.has(field) && !MULTI_COLUMN_FIELDS.includes(field))) {
+        if (header?.trim()) mapping[col] = CUSTOM_COLUMN;
+        return;
+      }
+      mapping[col] = field;
+      taken.add(field);
+    });
+
+    // Without a recognised email header, take the column with the most addresses
+    if (!taken.has('email')) {
+      const sample = body.slice(0, 50);
+      let bestCol = -1;
+      let bestCount = 0;
+      for (let col = 0; col < width; col++) {
+        const count = sample.filter(r => (r[col] || '').includes('@')).length;
+        if (count > bestCount) { bestCol = col; bestCount = count; }
+      }
+      if (bestCol !== -1) mapping[bestCol] = 'email';
+    }
+    return mapping;
+  },
+
+  /** Merge-tag name a custom column is stored under */
+  customTag: (rows: string[][], col: number, hasHeader: boolean): string => {
+    return templateEngine.tagName((hasHeader && rows[0][col]) || `Column ${col + 1}`);
+  },
+
+  /** Builds leads from the mapped rows and counts what will be left out */
+  build: (rows: string[][], mapping: ColumnMapping, hasHeader: boolean): IntakePreview => {
+    const emailCol = mapping.indexOf('email');
+    const body = hasHeader ? rows.slice(1) : rows;
+    const firstLine = hasHeader ? 2 : 1;
+    const seen = new Set<string>();
+    const preview: IntakePreview = { leads: [], duplicates: 0, invalid: [], blankRows: 0 };
+
+    body.forEach((row, i) => {
+      if (row.every(cell => !cell.trim())) { preview.blankRows++; return; }
+      const rawEmail = emailCol === -1 ? '' : (row[emailCol] || '').trim();
+      if (!rawEmail) {
+        preview.invalid.push({ index: firstLine + i, reason: 'Missing email', raw: row });
+        return;
+      }
+      const { email, issue } = contactNormalizer.normalizeEmail(rawEmail);
+      if (!email) {
+        preview.invalid.push({ index: firstLine + i, reason: `Malformed email: ${issue}`, raw: row });
+        return;
+      }
+      if (seen.has(email)) { preview.duplicates++; return; }
+      seen.add(email);
+
+      const lead: OutreachLead = { email, validationStatus: 'UNCHECKED' };
+      mapping.forEach((field, col) => {
+        const value = (row[col] || '').trim();
+        // Every lead gets each custom tag, so a blank cell renders the fallback
+        if (field === CUSTOM_COLUMN) {
+          lead.customFields = { ...lead.customFields, [leadImport.customTag(rows, col, hasHeader)]: value };
+          return;
+        }
+        if (!field || field === 'email' || !value) return;
+        // Our exports write "No" for a clean Local SEO column
+        if (field === 'seoErrors' && EMPTY_ISSUE.test(value)) return;
+        lead[field] = MULTI_COLUMN_FIELDS.includes(field) && lead[field] ? `${lead[field]}; ${value}` : value;
+      });
+      preview.leads.push(lead);
+    });
+    return preview;
+  },
+};
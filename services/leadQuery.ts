@@ -0,0 +1,107 @@
+import { SEOAudit, OpportunityLevel } from '../types';
+import { leadVerifier } from './leadVerifier';
+
+/**
+ * Lead Filtering & Sorting
+ * Pure helpers behind the interactive results table, kept out of the component
+ * so exports and bulk actions can work on exactly the rows a rep is looking at.
+ */
+
+export type LeadSortKey = 'opportunity' | 'businessName' | 'onPageCount' | 'technicalCount';
+export type SortDirection = 'asc' | 'desc';
+
+export interface LeadFilters {
+  /** Empty means every level is shown */
+  levels: OpportunityLevel[];
+  localSeoIssuesOnly: boolean;
+  hasEmailOnly: boolean;
+  /** Hides leads the hallucination guard could not confirm */
+  verifiedOnly: boolean;
+  text: string;
+}
+
+export const EMPTY_LEAD_FILTERS: LeadFilters = {
+  levels: [],
+  localSeoIssuesOnly: false,
+  hasEmailOnly: false,
+  verifiedOnly: false,
+  text: '',
+};
+
+export const OPPORTUNITY_RANK: Record<OpportunityLevel, number> = {
+  [OpportunityLevel.LOW]: 0,
+  [OpportunityLevel.MEDIUM]: 1,
+  [OpportunityLevel.HIGH]: 2,
+};
+
+export function hasEmail(lead: SEOAudit): boolean {
+  return (lead.email || '').includes('@');
+}
+
+function matchesText(lead: SEOAudit, text: string): boolean {
+  const haystack = [
+    lead.businessName,
+    lead.websiteUrl,
+    lead.email,
+    lead.phone,
+    lead.localSeoIssues.reason,
+    ...lead.onPageIssues,
+    ...lead.technicalIssues,
+  ].join(' ').toLowerCase();
+  return text.split(/\s+/).every(term => haystack.includes(term));
+}
+
+function compare(a: SEOAudit, b: SEOAudit, key: LeadSortKey): number {
+  switch (key) {
+    case 'businessName':
+      return a.businessName.localeCompare(b.businessName, undefined, { sensitivity: 'base' });
+    case 'onPageCount':
+      return a.onPageIssues.length - b.onPageIssues.length;
+    case 'technicalCount':
+      return a.technicalIssues.length - b.technicalIssues.length;
+    default:
+      // Level first, then the numeric score within a level
+      return (OPPORTUNITY_RANK[a.opportunityLevel] - OPPORTUNITY_RANK[b.opportunityLevel]) ||
+        ((a.opportunityScore ?? -1) - (b.opportunityScore ?? -1));
+  }
+}
+
+export const leadQuery = {
+  filter: (leads: SEOAudit[], filters: LeadFilters): SEOAudit[] => {
+    const text = filters.text.trim().toLowerCase();
+    return leads.filter(lead => {
+      if (filters.levels.length > 0 && !filters.levels.includes(lead.opportunityLevel)) return false;
+      if (filters.localSeoIssuesOnly && !lead.localSeoIssues.hasIssues) return false;
+      if (filters.hasEmailOnly && !hasEmail(lead)) return false;
+      if (filters.verifiedOnly && !leadVerifier.isVerified(lead)) return false;
+      if (text && !matchesText(lead, text)) return false;
+      return true;
+    });
+  },
+
+  /**
+   * Stable sort; rows that compare equal keep their discovery order.
+   */
+  sort: (leads: SEOAudit[], key: LeadSortKey | null, direction: SortDirection): SEOAudit[] => {
+    if (!key) return leads;
+    const sign = direction === 'asc' ? 1 : -1;
+    return leads
+      .map((lead, index) => ({ lead, index }))
+      .sort((a, b) => sign * compare(a.lead, b.lead, key) || a.index - b.index)
+      .map(entry => entry.lead);
+  },
+
+  /**
+   * One page of rows. A page past the end (the list shrank under a filter)
+   * clamps to the last page, and an empty list still has one page.
+   */
+  page: <T>(rows: T[], page: number, pageSize: number): { rows: T[]; page: number; pageCount: number } => {
+    const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+    const current = Math.max(0, Math.min(page, pageCount - 1));
+    return { rows: rows.slice(current * pageSize, (current + 1) * pageSize), page: current, pageCount };
+  },
+
+  isFiltered: (filters: LeadFilters): boolean => {
+    return filters.levels.length > 0 || filters.localSeoIssuesOnly || filters.hasEmailOnly || filters.verifiedOnly || filters.text.trim() !== '';
+  }
+};
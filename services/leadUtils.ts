@@ -0,0 +1,145 @@
+import { SEOAudit, OpportunityLevel, LeadSource, OutreachLead, ContactIssue } from '../types';
+import { contactNormalizer } from './contactNormalizer';
+
+/**
+ * Lead Identity Helpers
+ * A business is identified by its registrable host, so "https://www.acme.com/contact"
+ * and "acme.com" are the same lead.
+ */
+
+export function normalizeDomain(url: string): string {
+  const raw = (url || '').trim().toLowerCase();
+  if (!raw) return '';
+  try {
+    const parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//.test(raw) ? raw : `https://${raw}`);
+    return parsed.hostname.replace(/^www\./, '').replace(/\.$/, '');
+  } catch {
+    return raw.replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split(/[/?#:]/)[0];
+  }
+}
+
+/**
+ * Identity key for a lead. Falls back to the business name for rows the model
+ * returned without a usable website.
+ */
+export function leadKey(lead: Pick<SEOAudit, 'websiteUrl' | 'businessName'>): string {
+  return normalizeDomain(lead.websiteUrl) || `name:${(lead.businessName || '').trim().toLowerCase()}`;
+}
+
+/**
+ * Appends incoming leads onto an existing list, skipping any whose key is
+ * already present. Order of both lists is preserved.
+ */
+export function mergeUniqueLeads(existing: SEOAudit[], incoming: SEOAudit[]): SEOAudit[] {
+  const seen = new Set(existing.map(leadKey));
+  const merged = [...existing];
+  incoming.forEach(lead => {
+    const key = leadKey(lead);
+    if (seen.has(key)) return;
+    seen.add(key);
+    merged.push(lead);
+  });
+  return merged;
+}
+
+/**
+ * Enriches a stored audit with a fresh sighting. Non-empty incoming contact
+ * fields win, and a newer site audit replaces the older one wholesale.
+ */
+export function enrichLead(existing: SEOAudit, incoming: SEOAudit): SEOAudit {
+  const pick = (next: string, prev: string) => (next && next.trim() ? next : prev);
+  const incomingIsNewerAudit = !!incoming.auditedAt && (!existing.auditedAt || incoming.auditedAt > existing.auditedAt);
+  const auditSource = incomingIsNewerAudit ? incoming : existing;
+  const email = pick(incoming.email, existing.email);
+  const phone = pick(incoming.phone, existing.phone);
+
+  return {
+    ...existing,
+    websiteUrl: pick(incoming.websiteUrl, existing.websiteUrl),
+    businessName: pick(incoming.businessName, existing.businessName),
+    email,
+    phone,
+    contactPageUrl: pick(incoming.contactPageUrl, existing.contactPageUrl),
+    onPageIssues: auditSource.onPageIssues,
+    technicalIssues: auditSource.technicalIssues,
+    auditFindings: auditSource.auditFindings,
+    auditedAt: auditSource.auditedAt,
+    auditError: auditSource.auditError,
+    localSeoIssues: incoming.localSeoIssues?.reason ? incoming.localSeoIssues : existing.localSeoIssues,
+    // A level picked by hand survives later sightings
+    opportunityLevel: existing.opportunityLevelSource === 'MANUAL'
+      ? existing.opportunityLevel
+      : incoming.opportunityLevel || existing.opportunityLevel || OpportunityLevel.MEDIUM,
+    opportunityLevelSource: existing.opportunityLevelSource === 'MANUAL' ? 'MANUAL' : incoming.opportunityLevelSource,
+    opportunityScore: incoming.opportunityScore ?? existing.opportunityScore,
+    scoreBreakdown: incoming.scoreBreakdown ?? existing.scoreBreakdown,
+    notes: existing.notes || incoming.notes,
+    sources: mergeSources(existing.sources, incoming.sources),
+    verification: incoming.verification ?? existing.verification,
+    contactCandidates: incoming.contactCandidates ?? existing.contactCandidates,
+    contactsCheckedAt: incoming.contactsCheckedAt ?? existing.contactsCheckedAt,
+    contactsError: incoming.contactsCheckedAt ? incoming.contactsError : existing.contactsError,
+    contactIssues: mergeContactIssues({ email, phone }, existing.contactIssues, incoming.contactIssues),
+  };
+}
+
+/** Keeps only the flags that still describe the value the merged lead holds */
+function mergeContactIssues(values: Record<ContactIssue['field'], string>, a: ContactIssue[] = [], b: ContactIssue[] = []): ContactIssue[] | undefined {
+  const current = [...b, ...a].filter((issue, i, all) =>
+    issue.value === values[issue.field] && all.findIndex(other => other.field === issue.field) === i
+  );
+  return current.length > 0 ? current : undefined;
+}
+
+function mergeSources(a: LeadSource[] = [], b: LeadSource[] = []): LeadSource[] | undefined {
+  const byUri = new Map<string, LeadSource>();
+  [...a, ...b].forEach(source => byUri.set(source.uri, source));
+  return byUri.size > 0 ? Array.from(byUri.values()) : undefined;
+}
+
+/**
+ * Picks the search grounding chunks that support one business: chunks whose
+ * URL or title points at the lead's domain, or whose title names the business.
+ * Gemini often returns redirect URLs with the site's domain as the title.
+ */
+export function sourcesForLead(lead: SEOAudit, groundingChunks: any[] = []): LeadSource[] {
+  const domain = normalizeDomain(lead.websiteUrl);
+  const name = (lead.businessName || '').trim().toLowerCase();
+  const matches: LeadSource[] = [];
+
+  groundingChunks.forEach(chunk => {
+    const uri: string = chunk?.web?.uri || '';
+    const title: string = chunk?.web?.title || '';
+    if (!uri) return;
+    const lowerTitle = title.toLowerCase();
+    const matchesDomain = !!domain && (normalizeDomain(uri) === domain || normalizeDomain(title) === domain || lowerTitle.includes(domain));
+    const matchesName = name.length > 3 && lowerTitle.includes(name);
+    if ((matchesDomain || matchesName) && !matches.some(m => m.uri === uri)) {
+      matches.push({ uri, title: title || uri });
+    }
+  });
+  return matches;
+}
+
+/**
+ * Builds a campaign recipient from an audit. Returns null when the audit has
+ * no usable email, since outreach is keyed by address.
+ */
+export function toOutreachLead(audit: SEOAudit, location?: string): OutreachLead | null {
+  const { email } = contactNormalizer.normalizeEmail(audit.email);
+  if (!email) return null;
+
+  const seoErrors = [
+    ...audit.onPageIssues,
+    ...audit.technicalIssues,
+    ...(audit.localSeoIssues.hasIssues && audit.localSeoIssues.reason ? [`Local SEO: ${audit.localSeoIssues.reason}`] : []),
+  ].join('; ');
+
+  const lead: OutreachLead = { email, validationStatus: 'UNCHECKED' };
+  if (audit.businessName) lead.businessName = audit.businessName;
+  if (audit.websiteUrl) lead.website = audit.websiteUrl;
+  if (location) lead.location = location;
+  if (seoErrors) lead.seoErrors = seoErrors;
+  if (audit.notes) lead.notes = audit.notes;
+  return lead;
+}
@@ -0,0 +1,147 @@
+import { SEOAudit, LeadVerification, VerificationStatus } from '../types';
+import { linkedController, throwIfAborted, isAbortError } from './abortUtils';
+import { normalizeDomain, sourcesForLead } from './leadUtils';
+import { defaultFetcher, isTransportError } from './siteAuditor';
+
+/**
+ * Hallucination Guard
+ * Cross-checks model-returned businesses before they reach the table: is the
+ * lead named in the search grounding, does its domain resolve, and does the
+ * site answer at all (asked through the fetch proxy). DNS and HTTP go
+ * through injectable functions so the pass can run offline against fixtures.
+ */
+
+/**
+ * Resolves to true when the domain has address records and false when it
+ * does not exist. Throws when the lookup itself could not be made.
+ */
+export type DomainResolver = (domain: string, signal?: AbortSignal) => Promise<boolean>;
+
+/**
+ * Resolves to true when anything answered at the URL, whatever the status.
+ * Throws when the check itself could not be made.
+ */
+export type ReachabilityProbe = (url: string, signal?: AbortSignal) => Promise<boolean>;
+
+export interface VerifyOptions {
+  resolver?: DomainResolver;
+  probe?: ReachabilityProbe;
+  signal?: AbortSignal;
+  onVerified?: (index: number, lead: SEOAudit) => void;
+}
+
+const DNS_TIMEOUT_MS = 6000;
+const VERIFY_CONCURRENCY = 6;
+
+// DNS-over-HTTPS answers CORS requests, so this works from the browser
+const DOH_ENDPOINT = 'https://dns.google/resolve';
+const DNS_NXDOMAIN = 3;
+
+export const dohResolver: DomainResolver = async (domain, signal) => {
+  const lookup = async (type: 'A' | 'AAAA') => {
+    const controller = linkedController(signal, DNS_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${DOH_ENDPOINT}?name=${encodeURIComponent(domain)}&type=${type}`, { signal: controller.signal });
+      if (!response.ok) throw new Error(`DNS lookup failed: HTTP ${response.status}`);
+      return await response.json();
+    } finally {
+      controller.dispose();
+    }
+  };
+
+  const a = await lookup('A');
+  if (a.Status === DNS_NXDOMAIN) return false;
+  if (a.Status === 0 && Array.isArray(a.Answer) && a.Answer.length > 0) return true;
+  const aaaa = await lookup('AAAA');
+  return aaaa.Status === 0 && Array.isArray(aaaa.Answer) && aaaa.Answer.length > 0;
+};
+
+/**
+ * Loads the page through the fetch proxy, because an HTTPS page may not
+ * request plain-HTTP sites itself. Any HTTP answer counts; an upstream
+ * failure the proxy reports means nothing answered.
+ */
+export const proxyProbe: ReachabilityProbe = async (url, signal) => {
+  try {
+    await defaultFetcher(url, signal);
+    return true;
+  } catch (err) {
+    if (isAbortError(err, signal) || isTransportError(err)) throw err;
+    return false;
+  }
+};
+
+function statusFor(v: Omit<LeadVerification, 'status' | 'checkedAt'>): VerificationStatus {
+  if (v.resolves === false || v.responds === false) return 'FAILED';
+  if (v.grounded === false) return 'UNGROUNDED';
+  return 'VERIFIED';
+}
+
+export const leadVerifier = {
+  verifyLead: async (lead: SEOAudit, groundingChunks: any[], options: VerifyOptions = {}): Promise<LeadVerification> => {
+    const { resolver = dohResolver, probe = proxyProbe, signal } = options;
+    const reasons: string[] = [];
+    const domain = normalizeDomain(lead.websiteUrl);
+
+    // Providers without search grounding return no chunks; nothing to check against
+    let grounded: boolean | undefined;
+    if (groundingChunks.length > 0) {
+      grounded = sourcesForLead(lead, groundingChunks).length > 0;
+      if (!grounded) reasons.push('Not mentioned in any search source');
+    }
+
+    let resolves: boolean | undefined;
+    let responds: boolean | undefined;
+    if (!domain) {
+      resolves = false;
+      reasons.push('No website URL');
+    } else {
+      try {
+        resolves = await resolver(domain, signal);
+        if (!resolves) reasons.push(`${domain} does not resolve`);
+      } catch (err) {
+        if (isAbortError(err, signal)) throw err;
+        reasons.push('DNS check unavailable');
+      }
+
+      // A probe that could not run leaves the lead unchecked rather than FAILED
+      if (resolves !== false) {
+        try {
+          responds = await probe(`https://${domain}/`, signal) || await probe(`http://${domain}/`, signal);
+          if (!responds) reasons.push(`${domain} did not respond`);
+        } catch (err) {
+          if (isAbortError(err, signal)) throw err;
+          reasons.push('Reachability check unavailable');
+        }
+      }
+    }
+
+    const partial = { grounded, resolves, responds, reasons };
+    return { ...partial, status: statusFor(partial), checkedAt: new Date().toISOString() };
+  },
+
+  /**
+   * Verifies a batch with bounded concurrency, preserving order. Rejects with
+   * an AbortError once the signal fires.
+   */
+  verifyLeads: async (leads: SEOAudit[], groundingChunks: any[], options: VerifyOptions = {}): Promise<SEOAudit[]> => {
+    const verified: SEOAudit[] = new Array(leads.length);
+    let cursor = 0;
+
+    const worker = async () => {
+      while (cursor < leads.length) {
+        throwIfAborted(options.signal);
+        const idx = cursor++;
+        const verification = await leadVerifier.verifyLead(leads[idx], groundingChunks, options);
+        verified[idx] = { ...leads[idx], verification };
+        options.onVerified?.(idx, verified[idx]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(VERIFY_CONCURRENCY, leads.length) }, worker));
+    return verified;
+  },
+
+  /** Leads stored before verification existed count as verified */
+  isVerified: (lead: SEOAudit): boolean => !lead.verification || lead.verification.status === 'VERIFIED',
+};
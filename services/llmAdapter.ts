@@ -0,0 +1,332 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { User, AiProvider, ApiConfig, ApiKeyStatus } from '../types';
+import { credentialService } from './credentialService';
+import { linkedController, throwIfAborted } from './abortUtils';
+
+/**
+ * Provider-Agnostic LLM Adapter
+ * One completion interface over Gemini, OpenAI-compatible chat-completions and
+ * generic HTTP nodes. Callers describe what they need (tier, structured output,
+ * web search) and the adapter for `user.activeAiProvider` maps it onto the wire.
+ */
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface CompletionRequest {
+  prompt: string;
+  /** FAST for short structured tasks, DEEP for research-grade runs */
+  tier?: 'FAST' | 'DEEP';
+  /** Request structured JSON matching this schema */
+  schema?: JsonSchema;
+  /** Ground the answer in live web search where the provider supports it */
+  useSearch?: boolean;
+  thinkingBudget?: number;
+  maxOutputTokens?: number;
+  /** Cancels the in-flight request */
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  text: string;
+  groundingSources: any[];
+}
+
+export interface LlmAdapter {
+  provider: AiProvider;
+  /** Whether useSearch grounds answers in live results; requests asking for it fail otherwise */
+  supportsSearch: boolean;
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+  /**
+   * Streams the completion, calling onText with the accumulated text after
+   * every chunk. Providers without streaming deliver a single chunk.
+   */
+  stream: (request: CompletionRequest, onText: (textSoFar: string) => void) => Promise<CompletionResult>;
+}
+
+export interface LlmCredentials {
+  provider: AiProvider;
+  apiKey?: string;
+  config?: ApiConfig;
+}
+
+const GEMINI_MODELS = { FAST: "gemini-3-flash-preview", DEEP: "gemini-3-pro-preview" };
+const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const OPENAI_DEFAULT_MODEL = "gpt-4o-mini";
+const REQUEST_TIMEOUT_MS = 120000;
+
+/* ===================== HELPERS ===================== */
+
+function joinUrl(base: string, path: string): string {
+  const cleanBase = base.endsWith('/') ? base.slice(0, -1) : base;
+  const cleanPath = path.startsWith('/') ? path : `/${path}`;
+  return `${cleanBase}${cleanPath}`;
+}
+
+function authHeaders(apiKey: string, authType: ApiConfig['authType'] = 'Bearer'): Record<string, string> {
+  if (authType === 'API-Key') return { 'X-API-Key': apiKey };
+  return { 'Authorization': `Bearer ${apiKey}` };
+}
+
+function schemaInstruction(schema: JsonSchema): string {
+  return `\n\nRespond ONLY with JSON matching this JSON Schema, no prose:\n${JSON.stringify(schema)}`;
+}
+
+function toGeminiSchema(schema: JsonSchema): any {
+  const typeMap: Record<JsonSchema['type'], Type> = {
+    object: Type.OBJECT,
+    array: Type.ARRAY,
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+  };
+  const out: any = { type: typeMap[schema.type] };
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.required) out.required = schema.required;
+  if (schema.items) out.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  return out;
+}
+
+async function postJson(url: string, headers: Record<string, string>, payload: unknown, signal?: AbortSignal): Promise<any> {
+  const controller = linkedController(signal, REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+      signal: controller.signal
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const error: any = new Error(data?.error?.message || data?.message || `HTTP ${response.status}`);
+      error.status = response.status;
+      throw error;
+    }
+    return data;
+  } finally {
+    controller.dispose();
+  }
+}
+
+/** Ungrounded answers to a search request would be invented, so refuse them; callers word the advice */
+function requireNoSearch(request: CompletionRequest, provider: AiProvider) {
+  if (request.useSearch) throw new Error(`Search grounding is not supported by the ${provider === 'OPENAI' ? 'OpenAI-compatible' : 'custom'} provider.`);
+}
+
+/* ===================== ADAPTERS ===================== */
+
+function geminiParams(request: CompletionRequest) {
+  // Gemini rejects responseSchema alongside the search tool, so grounded calls describe the schema in-prompt
+  const nativeSchema = request.schema && !request.useSearch;
+  return {
+    model: GEMINI_MODELS[request.tier || 'FAST'],
+    contents: request.schema && !nativeSchema ? request.prompt + schemaInstruction(request.schema) : request.prompt,
+    config: {
+      ...(request.useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+      ...(nativeSchema ? { responseMimeType: "application/json", responseSchema: toGeminiSchema(request.schema!) } : {}),
+      ...(request.thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget: request.thinkingBudget } } : {}),
+      ...(request.maxOutputTokens ? { maxOutputTokens: request.maxOutputTokens } : {}),
+      ...(request.signal ? { abortSignal: request.signal } : {}),
+    }
+  };
+}
+
+function createGeminiAdapter(apiKey?: string): LlmAdapter {
+  return {
+    provider: 'GEMINI',
+    supportsSearch: true,
+    complete: async (request) => {
+      const ai = new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent(geminiParams(request));
+      return {
+        text: response.text || "",
+        groundingSources: response.candidates?.[0]?.groundingMetadata?.groundingChunks || []
+      };
+    },
+    stream: async (request, onText) => {
+      const ai = new GoogleGenAI({ apiKey });
+      const chunks = await ai.models.generateContentStream(geminiParams(request));
+      let text = "";
+      let groundingSources: any[] = [];
+      for await (const chunk of chunks) {
+        throwIfAborted(request.signal);
+        // Grounding metadata arrives on later chunks; keep the most complete set
+        const sources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+        if (sources && sources.length >= groundingSources.length) groundingSources = sources;
+        if (chunk.text) {
+          text += chunk.text;
+          onText(text);
+        }
+      }
+      return { text, groundingSources };
+    }
+  };
+}
+
+function createOpenAiAdapter(apiKey: string, config?: ApiConfig): LlmAdapter {
+  const baseUrl = config?.baseUrl || OPENAI_DEFAULT_BASE_URL;
+  const endpoint = joinUrl(baseUrl, '/chat/completions');
+  const headers = authHeaders(apiKey, config?.authType);
+
+  const buildPayload = (request: CompletionRequest): Record<string, any> => {
+    const payload: Record<string, any> = {
+      model: config?.model || OPENAI_DEFAULT_MODEL,
+      messages: [{ role: 'user', content: request.prompt }],
+    };
+    if (request.maxOutputTokens) payload.max_tokens = request.maxOutputTokens;
+    if (request.schema) {
+      payload.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: request.schema, strict: false }
+      };
+    }
+    return payload;
+  };
+
+  return {
+    provider: 'OPENAI',
+    supportsSearch: false,
+    complete: async (request) => {
+      requireNoSearch(request, 'OPENAI');
+      const data = await postJson(endpoint, headers, buildPayload(request), request.signal);
+      return { text: data?.choices?.[0]?.message?.content || "", groundingSources: [] };
+    },
+    stream: async (request, onText) => {
+      requireNoSearch(request, 'OPENAI');
+      const controller = linkedController(request.signal, REQUEST_TIMEOUT_MS);
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Accept': 'text/event-stream', 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ ...buildPayload(request), stream: true }),
+          signal: controller.signal
+        });
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => ({}));
+          const error: any = new Error(data?.error?.message || `HTTP ${response.status}`);
+          error.status = response.status;
+          throw error;
+        }
+
+        // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]"
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        let text = "";
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || "";
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+            try {
+              const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+              if (delta) {
+                text += delta;
+                onText(text);
+              }
+            } catch { /* partial or keep-alive line */ }
+          }
+        }
+        return { text, groundingSources: [] };
+      } finally {
+        controller.dispose();
+      }
+    }
+  };
+}
+
+/**
+ * Generic HTTP node. POSTs a provider-neutral envelope to the configured
+ * completion endpoint and accepts the common response shapes.
+ */
+function createGenericHttpAdapter(config: ApiConfig): LlmAdapter {
+  const adapter: LlmAdapter = {
+    provider: 'CUSTOM',
+    supportsSearch: false,
+    complete: async (request) => {
+      requireNoSearch(request, 'CUSTOM');
+      if (!config.completionEndpoint?.trim()) throw new Error("Custom provider has no completion endpoint configured.");
+      const data = await postJson(
+        joinUrl(config.baseUrl, config.completionEndpoint),
+        authHeaders(config.apiKey, config.authType),
+        {
+          model: config.model,
+          prompt: request.schema ? request.prompt + schemaInstruction(request.schema) : request.prompt,
+          responseSchema: request.schema,
+          maxOutputTokens: request.maxOutputTokens,
+        },
+        request.signal
+      );
+      const text =
+        (typeof data === 'string' ? data : null) ??
+        data?.text ??
+        data?.output ??
+        data?.choices?.[0]?.message?.content ??
+        data?.candidates?.[0]?.content?.parts?.[0]?.text ??
+        (typeof data === 'object' ? JSON.stringify(data) : "");
+      return { text, groundingSources: [] };
+    },
+    stream: async (request, onText) => {
+      const result = await adapter.complete(request);
+      onText(result.text);
+      return result;
+    }
+  };
+  return adapter;
+}
+
+/* ===================== FACTORY ===================== */
+
+export const llmAdapter = {
+  fromCredentials: (credentials: LlmCredentials): LlmAdapter => {
+    switch (credentials.provider) {
+      case 'OPENAI':
+        if (!credentials.apiKey) throw new Error("OpenAI provider selected but no API key is configured.");
+        return createOpenAiAdapter(credentials.apiKey, credentials.config);
+      case 'CUSTOM':
+        if (!credentials.config) throw new Error("Custom provider selected but no API configuration is stored.");
+        return createGenericHttpAdapter(credentials.config);
+      default:
+        return createGeminiAdapter(credentials.apiKey);
+    }
+  },
+
+  /**
+   * Picks the adapter for the user's active provider, running on that user's
+   * own verified credentials.
+   */
+  forUser: (user: User): LlmAdapter => {
+    return llmAdapter.fromCredentials(credentialService.resolve(user));
+  },
+
+  /**
+   * Whether the user's active provider can ground answers in web search, so
+   * screens can disable lead generation without resolving credentials.
+   */
+  supportsSearch: (user: User): boolean => {
+    return user.activeAiProvider !== 'OPENAI' && user.activeAiProvider !== 'CUSTOM';
+  },
+
+  /**
+   * Key status for whichever provider is active. CUSTOM nodes share the
+   * gemini status slot, as they always have.
+   */
+  getKeyStatus: (user: User): ApiKeyStatus => {
+    return user.activeAiProvider === 'OPENAI' ? user.openaiKeyStatus : user.geminiKeyStatus;
+  }
+};
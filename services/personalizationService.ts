@@ -0,0 +1,192 @@
+import { OutreachLead, SEOAudit } from '../types';
+import { siteAuditor, defaultFetcher, ResourceFetcher, PageSummary } from './siteAuditor';
+import { reportService } from './reportService';
+import { isAbortError } from './abortUtils';
+
+/**
+ * Outreach Personalization
+ * Builds a brief of everything known about one recipient (intake fields, the
+ * stored audit and optionally a snapshot of their homepage), turns it into a
+ * drafting prompt with tone, length and call-to-action presets, and checks
+ * the returned draft for facts the brief does not contain. The user's own
+ * template is passed along as a style guide, not as content to copy.
+ */
+
+export type PersonalizationTone = 'FRIENDLY' | 'PROFESSIONAL' | 'DIRECT';
+export type PersonalizationLength = 'SHORT' | 'MEDIUM' | 'LONG';
+export type PersonalizationCta = 'CALL' | 'REPLY' | 'AUDIT';
+
+export interface PersonalizationSettings {
+  tone: PersonalizationTone;
+  length: PersonalizationLength;
+  cta: PersonalizationCta;
+  /** Fetch each recipient's homepage and add what it says to the brief */
+  fetchSite: boolean;
+}
+
+export interface SenderIdentity {
+  name: string;
+  email: string;
+  agency?: string;
+}
+
+export interface SiteSnapshot extends PageSummary {
+  url: string;
+}
+
+/** The only facts a personalized draft may state */
+export interface OutreachBrief {
+  recipient: { email: string; businessName?: string; website?: string; location?: string };
+  issues: string[];
+  notes?: string;
+  /** Custom intake columns */
+  extra: Record<string, string>;
+  site?: SiteSnapshot;
+  sender: SenderIdentity;
+}
+
+export interface DraftText {
+  subject: string;
+  body: string;
+}
+
+export const DEFAULT_PERSONALIZATION: PersonalizationSettings = { tone: 'FRIENDLY', length: 'MEDIUM', cta: 'CALL', fetchSite: false };
+
+export const TONE_PRESETS: Record<PersonalizationTone, { label: string; instruction: string }> = {
+  FRIENDLY: { label: 'Friendly', instruction: 'Warm and conversational, like a helpful local expert. Contractions are fine.' },
+  PROFESSIONAL: { label: 'Professional', instruction: 'Polished and courteous. No slang, no exclamation marks.' },
+  DIRECT: { label: 'Direct', instruction: 'Plain and to the point. Lead with the problem, skip pleasantries.' },
+};
+
+export const LENGTH_PRESETS: Record<PersonalizationLength, { label: string; maxWords: number }> = {
+  SHORT: { label: 'Short', maxWords: 80 },
+  MEDIUM: { label: 'Medium', maxWords: 140 },
+  LONG: { label: 'Long', maxWords: 220 },
+};
+
+export const CTA_PRESETS: Record<PersonalizationCta, { label: string; instruction: string }> = {
+  CALL: { label: 'Book a call', instruction: 'Ask for a short call this week.' },
+  REPLY: { label: 'Ask for a reply', instruction: 'Ask them to reply if they would like to hear more.' },
+  AUDIT: { label: 'Offer the audit', instruction: 'Offer to send the full SEO audit for their site.' },
+};
+
+const MAX_BRIEF_ISSUES = 8;
+
+/**
+ * SEO topics a draft tends to invent. A draft may only raise one when the
+ * brief or the user's template mentions it too.
+ */
+const ISSUE_TOPICS: { label: string; pattern: RegExp }[] = [
+  { label: 'meta description', pattern: /meta descriptions?/i },
+  { label: 'title tag', pattern: /title tags?|page titles?|<title>/i },
+  { label: 'H1 heading', pattern: /\bh1\b|headings?/i },
+  { label: 'canonical tag', pattern: /canonical/i },
+  { label: 'sitemap', pattern: /sitemap/i },
+  { label: 'robots rules', pattern: /robots|noindex|nofollow/i },
+  { label: 'image alt text', pattern: /\balt\b|alt text|alt tags?|alt attributes?/i },
+  { label: 'HTTPS', pattern: /\bhttps\b|\bssl\b|secure connection|not secure/i },
+  { label: 'site speed', pattern: /\bslow|speed|load(?:s|ing)? time|response time/i },
+  { label: 'mobile experience', pattern: /mobile/i },
+  { label: 'Google Business Profile', pattern: /google (?:my )?business|business profile|\bgbp\b|maps listing/i },
+  { label: 'reviews', pattern: /\breviews?\b|star rating/i },
+  { label: 'backlinks', pattern: /backlinks?|link building/i },
+  { label: 'structured data', pattern: /schema markup|structured data/i },
+  { label: 'broken links', pattern: /broken links?|\b404\b/i },
+];
+
+const NUMBER = /\$?\b\d[\d,.]*%?/g;
+const DOMAIN = /\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})\b/gi;
+const PLACEHOLDER = /\[[^\]\n]{1,40}\]|\{[^}\n]{1,40}\}/;
+
+function cleanToken(token: string): string {
+  return token.replace(/[.,]+$/, '').toLowerCase();
+}
+
+export const personalizationService = {
+  /** Homepage summary, or the reason the site could not be read */
+  snapshot: async (website: string, fetcher: ResourceFetcher = defaultFetcher, signal?: AbortSignal): Promise<{ site?: SiteSnapshot; error?: string }> => {
+    const url = /^https?:\/\//i.test(website.trim()) ? website.trim() : `https://${website.trim()}`;
+    try {
+      const page = await fetcher(url, signal);
+      if (!page.ok) return { error: `Homepage returned HTTP ${page.status}` };
+      if (!page.body.trim()) return { error: 'Homepage was empty' };
+      return { site: { url: page.finalUrl, ...siteAuditor.describeHtml(page.body) } };
+    } catch (err: any) {
+      if (isAbortError(err, signal)) throw err;
+      return { error: `Homepage could not be fetched: ${err?.message || 'request failed'}` };
+    }
+  },
+
+  /** Intake issues first, then the stored audit's measured findings */
+  buildBrief: (lead: OutreachLead, sender: SenderIdentity, audit?: SEOAudit | null, site?: SiteSnapshot): OutreachBrief => {
+    const issues = [
+      ...(lead.seoErrors || '').split(';').map(i => i.trim()).filter(Boolean),
+      ...(audit ? reportService.items(audit).map(item => item.evidence ? `${item.issue} (${item.evidence})` : item.issue) : []),
+    ];
+    const extra: Record<string, string> = {};
+    Object.entries(lead.customFields || {}).forEach(([key, value]) => { if (value.trim()) extra[key] = value.trim(); });
+
+    return {
+      recipient: {
+        email: lead.email,
+        businessName: lead.businessName || audit?.businessName,
+        website: lead.website || audit?.websiteUrl,
+        location: lead.location,
+      },
+      issues: issues.filter((issue, i) => issues.indexOf(issue) === i).slice(0, MAX_BRIEF_ISSUES),
+      notes: lead.notes,
+      extra,
+      site,
+      sender,
+    };
+  },
+
+  buildPrompt: (brief: OutreachBrief, settings: PersonalizationSettings, styleGuide: DraftText, rejected: string[] = []): string => {
+    const retry = rejected.length > 0
+      ? `\nYour previous draft was rejected for these reasons. Fix every one:\n${rejected.map(r => `- ${r}`).join('\n')}\n`
+      : '';
+    return `Write a cold outreach email from ${brief.sender.name || brief.sender.email} to the business described in the BRIEF.
+
+BRIEF (the only facts you may state):
+${JSON.stringify(brief, null, 2)}
+
+STYLE GUIDE (the sender's own template; match its voice, structure, greeting and sign-off, but do not copy facts that the BRIEF does not support):
+Subject: ${styleGuide.subject}
+${styleGuide.body}
+
+RULES:
+- Tone: ${TONE_PRESETS[settings.tone].instruction}
+- Length: at most ${LENGTH_PRESETS[settings.length].maxWords} words in the body.
+- Call to action: ${CTA_PRESETS[settings.cta].instruction}
+- Mention at most two issues from the BRIEF, in plain language.
+- Never state numbers, names, web addresses, reviews, rankings or problems that are not in the BRIEF or the STYLE GUIDE.
+- Sign off as ${brief.sender.name || brief.sender.email}${brief.sender.agency ? ` from ${brief.sender.agency}` : ''}. Leave no placeholders in brackets or braces.
+${retry}
+Return JSON with "subject" and "body".`;
+  },
+
+  /**
+   * Reasons the draft cannot be sent: topics, numbers and web addresses that
+   * appear in neither the brief nor the style guide, and unfilled placeholders.
+   */
+  unsupportedClaims: (draft: DraftText, brief: OutreachBrief, styleGuide: DraftText, settings: PersonalizationSettings): string[] => {
+    const text = `${draft.subject}\n${draft.body}`;
+    const source = [JSON.stringify(brief), styleGuide.subject, styleGuide.body, CTA_PRESETS[settings.cta].instruction].join('\n');
+    const sourceLower = source.toLowerCase();
+    const problems: string[] = [];
+
+    ISSUE_TOPICS.forEach(topic => {
+      if (topic.pattern.test(text) && !topic.pattern.test(source)) problems.push(`Mentions ${topic.label}, which is not in the brief`);
+    });
+
+    const numbers = (text.match(NUMBER) || []).map(cleanToken).filter(n => /\d/.test(n) && !sourceLower.includes(n));
+    numbers.filter((n, i) => numbers.indexOf(n) === i).forEach(n => problems.push(`States "${n}", which is not in the brief`));
+
+    const domains = Array.from(text.matchAll(DOMAIN), m => cleanToken(m[1])).filter(d => !sourceLower.includes(d));
+    domains.filter((d, i) => domains.indexOf(d) === i).forEach(d => problems.push(`Mentions ${d}, which is not in the brief`));
+
+    const placeholder = text.match(PLACEHOLDER);
+    if (placeholder) problems.push(`Leaves the placeholder ${placeholder[0]} unfilled`);
+    return problems;
+  },
+};
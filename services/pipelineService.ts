@@ -0,0 +1,111 @@
+import { StoredLead, PipelineStage, PipelineTrigger, StageChange, SentEmail } from '../types';
+import { backendService } from './backendService';
+import { normalizeDomain } from './leadUtils';
+
+/**
+ * Sales Pipeline
+ * Tracks stored leads through user-configurable stages. Every move is kept
+ * in the lead's stage history. Sending or opening a campaign email moves
+ * the matching lead forward on its own as soon as the event is recorded,
+ * but never backwards and never out of a won or lost stage.
+ */
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'new', name: 'New', color: '#64748b', kind: 'OPEN' },
+  { id: 'contacted', name: 'Contacted', color: '#2563eb', kind: 'OPEN', triggers: ['EMAIL_SENT'] },
+  { id: 'opened', name: 'Opened', color: '#4f46e5', kind: 'OPEN', triggers: ['EMAIL_OPENED'] },
+  { id: 'replied', name: 'Replied', color: '#7c3aed', kind: 'OPEN' },
+  { id: 'meeting', name: 'Meeting', color: '#0891b2', kind: 'OPEN' },
+  { id: 'proposal', name: 'Proposal', color: '#d97706', kind: 'OPEN' },
+  { id: 'won', name: 'Won', color: '#059669', kind: 'WON' },
+  { id: 'lost', name: 'Lost', color: '#dc2626', kind: 'LOST' },
+];
+
+const MAX_HISTORY = 100;
+
+function withMove(lead: StoredLead, toStageId: string, fromStageId: string | null, reason: StageChange['reason'], detail?: string): StoredLead {
+  const change: StageChange = { fromStageId, toStageId, at: new Date().toISOString(), reason };
+  if (detail) change.detail = detail;
+  return { ...lead, stageId: toStageId, stageHistory: [...(lead.stageHistory || []), change].slice(-MAX_HISTORY) };
+}
+
+/** Stored leads the email was addressed to, matched by site or by address */
+function leadsForEmail(userId: string, email: SentEmail): StoredLead[] {
+  const domain = email.website ? normalizeDomain(email.website) : '';
+  const recipient = email.recipient.trim().toLowerCase();
+  return backendService.getLeads(userId).filter(l =>
+    (domain && l.domain === domain) || (recipient && l.audit.email.trim().toLowerCase() === recipient)
+  );
+}
+
+export const pipelineService = {
+  getStages: (userId: string): PipelineStage[] => {
+    const saved = backendService.getPipelineStages(userId);
+    return saved && saved.length > 0 ? saved : DEFAULT_PIPELINE_STAGES;
+  },
+
+  /**
+   * Leads in a stage that no longer exists fall back to the first stage the
+   * next time they are read.
+   */
+  saveStages: (userId: string, stages: PipelineStage[]) => {
+    const cleaned = stages.map(s => ({ ...s, name: s.name.trim() }));
+    if (cleaned.length === 0) throw new Error('Add at least one stage.');
+    if (cleaned.some(s => !s.name)) throw new Error('Every stage needs a name.');
+    const names = cleaned.map(s => s.name.toLowerCase());
+    if (names.some((n, i) => names.indexOf(n) !== i)) throw new Error('Stage names must be unique.');
+    if (cleaned[0].kind !== 'OPEN') throw new Error('The first stage must be an open stage; new leads start there.');
+    backendService.savePipelineStages(userId, cleaned);
+  },
+
+  stageOf: (lead: StoredLead, stages: PipelineStage[]): PipelineStage => {
+    return stages.find(s => s.id === lead.stageId) || stages[0];
+  },
+
+  /** Manual move from the board or the drawer. Returns the saved lead. */
+  moveLead: (lead: StoredLead, toStageId: string, stages: PipelineStage[]): StoredLead => {
+    const from = lead.stageId && stages.some(s => s.id === lead.stageId) ? lead.stageId : null;
+    if ((from || stages[0].id) === toStageId) return lead;
+    if (!stages.some(s => s.id === toStageId)) throw new Error('Unknown pipeline stage.');
+    const moved = withMove(lead, toStageId, from, 'MANUAL');
+    backendService.updateStoredLead(moved);
+    return moved;
+  },
+
+  /**
+   * Applies an email event to every stored lead the email was sent to.
+   * Returns the number of leads that moved.
+   */
+  recordEmailEvent: (userId: string, email: SentEmail, trigger: PipelineTrigger): number => {
+    const stages = pipelineService.getStages(userId);
+    const targetIdx = stages.findIndex(s => s.triggers?.includes(trigger));
+    if (targetIdx === -1) return 0;
+
+    let moved = 0;
+    leadsForEmail(userId, email).forEach(lead => {
+      const current = pipelineService.stageOf(lead, stages);
+      const currentIdx = stages.indexOf(current);
+      if (current.kind !== 'OPEN' || currentIdx >= targetIdx) return;
+      const from = lead.stageId && stages.some(s => s.id === lead.stageId) ? lead.stageId : null;
+      backendService.updateStoredLead(withMove(lead, stages[targetIdx].id, from, trigger, email.subject));
+      moved++;
+    });
+    return moved;
+  },
+
+  /**
+   * Records an open and, in the same step, moves the lead to the stage that
+   * listens for opens. A repeat open of the same email changes nothing.
+   */
+  recordOpen: (userId: string, emailId: string): number => {
+    const email = backendService.simulateEmailOpen(emailId);
+    return email ? pipelineService.recordEmailEvent(userId, email, 'EMAIL_OPENED') : 0;
+  },
+
+  /** Whole days since the lead entered its current stage */
+  daysInStage: (lead: StoredLead, now: Date = new Date()): number => {
+    const last = lead.stageHistory?.[lead.stageHistory.length - 1];
+    const since = last ? last.at : lead.firstSeenAt;
+    return Math.max(0, Math.floor((now.getTime() - new Date(since).getTime()) / 86400000));
+  },
+};
@@ -0,0 +1,43 @@
+import { User } from '../types';
+import { backendService } from './backendService';
+
+/**
+ * Plan Limits & Quota Accounting
+ * Single place that decides how big a run may be and charges a query to the
+ * user, so manual, batch and scheduled runs all bill the same way.
+ */
+
+export const PLAN_LIMITS = {
+  TRIAL: { maxResultsPerRun: 15 },
+  PAID: { maxResultsPerRun: 50 },
+};
+
+export const MIN_RESULTS_PER_RUN = 5;
+export const DEFAULT_RESULTS_PER_RUN = 15;
+
+export const planService = {
+  maxResultsPerRun: (user: User): number => PLAN_LIMITS[user.status].maxResultsPerRun,
+
+  clampResultCount: (user: User, requested: number): number => {
+    const max = planService.maxResultsPerRun(user);
+    if (!Number.isFinite(requested)) return Math.min(DEFAULT_RESULTS_PER_RUN, max);
+    return Math.max(MIN_RESULTS_PER_RUN, Math.min(max, Math.round(requested)));
+  },
+
+  isLocked: (user: User): boolean => user.status === 'TRIAL' && user.trialQueriesRemaining <= 0,
+
+  /**
+   * Charges one query and persists the user. Returns the updated record.
+   * Counts come from the stored record, not the caller's copy: runs overlap,
+   * and a snapshot taken before a long run would overwrite charges made since.
+   */
+  chargeQuery: (user: User): User => {
+    const stored = backendService.getUsers().find(u => u.id === user.id) || user;
+    const updatedUser = { ...stored, totalQueriesUsed: stored.totalQueriesUsed + 1 };
+    if (stored.status === 'TRIAL') {
+      updatedUser.trialQueriesRemaining = Math.max(0, stored.trialQueriesRemaining - 1);
+    }
+    backendService.updateUser(updatedUser);
+    return updatedUser;
+  }
+};
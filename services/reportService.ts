@@ -0,0 +1,308 @@
+import { SEOAudit, AuditSeverity, ReportBranding } from '../types';
+import { backendService } from './backendService';
+import { exportService } from './exportService';
+import { normalizeDomain } from './leadUtils';
+import { zipArchive } from './zipArchive';
+
+/**
+ * Audit Report Generator
+ * Renders one SEOAudit as a self-contained, printable HTML document in the
+ * agency's colors. PDF is produced by the browser's print dialog so the same
+ * markup serves both formats; the HTML file is also what gets attached to
+ * outreach emails.
+ */
+
+export interface ReportItem {
+  severity: AuditSeverity;
+  category: 'On-Page' | 'Technical' | 'Local SEO';
+  issue: string;
+  evidence?: string;
+  fix: string;
+}
+
+const SEVERITY_ORDER: Record<AuditSeverity, number> = { CRITICAL: 0, WARNING: 1, NOTICE: 2 };
+
+const SEVERITY_COLORS: Record<AuditSeverity, { bg: string; fg: string; label: string }> = {
+  CRITICAL: { bg: '#fee2e2', fg: '#b91c1c', label: 'Critical' },
+  WARNING: { bg: '#fef3c7', fg: '#b45309', label: 'Warning' },
+  NOTICE: { bg: '#f1f5f9', fg: '#475569', label: 'Notice' },
+};
+
+/* ===== RECOMMENDED FIXES ===== */
+
+// Keyed by siteAuditor check id
+const CHECK_FIXES: Record<string, string> = {
+  title: 'Write a unique 50-60 character title that leads with the main service and city.',
+  meta_description: 'Add a 120-160 character meta description naming the service, the area served and a call to action.',
+  h1: 'Give the page exactly one H1 that names the core service and location.',
+  canonical: 'Add a self-referencing <link rel="canonical"> so search engines consolidate ranking signals on one URL.',
+  robots_meta: 'Remove noindex/nofollow from the robots meta tag on every page that should rank.',
+  https: 'Install a TLS certificate (free via Let\'s Encrypt) and serve every page over HTTPS.',
+  https_redirect: 'Add a permanent 301 redirect from http:// to https:// for all URLs.',
+  reachability: 'Fix the hosting or DNS configuration so the homepage answers with HTTP 200.',
+  response_time: 'Enable caching and compression, or move to faster hosting, to bring server response under one second.',
+  robots_txt: 'Publish a robots.txt that allows crawling and points to the XML sitemap.',
+  sitemap: 'Generate an XML sitemap and submit it in Google Search Console.',
+};
+
+// Fallbacks for model-reported issues that were not measured
+const KEYWORD_FIXES: { pattern: RegExp; fix: string }[] = [
+  { pattern: /meta description/i, fix: CHECK_FIXES.meta_description },
+  { pattern: /title/i, fix: CHECK_FIXES.title },
+  { pattern: /\bh1\b|heading/i, fix: CHECK_FIXES.h1 },
+  { pattern: /canonical/i, fix: CHECK_FIXES.canonical },
+  { pattern: /noindex|nofollow/i, fix: CHECK_FIXES.robots_meta },
+  { pattern: /sitemap/i, fix: CHECK_FIXES.sitemap },
+  { pattern: /robots\.txt/i, fix: CHECK_FIXES.robots_txt },
+  { pattern: /https|ssl|certificate/i, fix: CHECK_FIXES.https },
+  { pattern: /speed|slow|load time|performance/i, fix: 'Compress images, defer non-critical scripts and enable caching to cut load time.' },
+  { pattern: /mobile|responsive|viewport/i, fix: 'Use a responsive layout with a viewport meta tag and check it with Google\'s Mobile-Friendly Test.' },
+  { pattern: /\balt\b|image/i, fix: 'Add descriptive alt text to every meaningful image.' },
+  { pattern: /schema|structured data/i, fix: 'Add LocalBusiness structured data (JSON-LD) with name, address, phone and opening hours.' },
+  { pattern: /link/i, fix: 'Repair or remove broken links and link related service pages to each other.' },
+];
+
+const LOCAL_SEO_FIX = 'Claim and complete the Google Business Profile, and keep name, address and phone identical across directories.';
+const GENERIC_FIX = 'Review and correct this issue; we can walk you through it on a short call.';
+
+function fixFor(issue: string): string {
+  return KEYWORD_FIXES.find(rule => rule.pattern.test(issue))?.fix || GENERIC_FIX;
+}
+
+/* ===== RENDERING ===== */
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function safeColor(value: string, fallback: string): string {
+  return /^#[0-9a-f]{3,8}$/i.test(value.trim()) ? value.trim() : fallback;
+}
+
+function safeImageUrl(value?: string): string | null {
+  if (!value) return null;
+  return /^(https?:\/\/|data:image\/)/i.test(value.trim()) ? value.trim() : null;
+}
+
+/** Only http, https and mailto links; a bare domain is read as https */
+function safeLinkUrl(value?: string): string | null {
+  const url = (value || '').trim();
+  if (!url) return null;
+  if (/^(https?:\/\/|mailto:)/i.test(url)) return url;
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) ? null : `https://${url}`;
+}
+
+function itemRows(items: ReportItem[]): string {
+  return items.map(item => {
+    const sev = SEVERITY_COLORS[item.severity];
+    return `<tr>
+      <td><span class="sev" style="background:${sev.bg};color:${sev.fg}">${sev.label}</span></td>
+      <td><div class="issue">${escapeHtml(item.issue)}</div>${item.evidence ? `<div class="evidence">${escapeHtml(item.evidence)}</div>` : ''}</td>
+      <td class="fix">${escapeHtml(item.fix)}</td>
+    </tr>`;
+  }).join('');
+}
+
+export const reportService = {
+  /** Saved branding, or defaults derived from the user's account */
+  getBranding: (userId: string): ReportBranding => {
+    const saved = backendService.getReportBranding(userId);
+    if (saved) return saved;
+    const user = backendService.getUsers().find(u => u.id === userId);
+    return {
+      agencyName: user?.name || 'Your Agency',
+      primaryColor: '#2563eb',
+      accentColor: '#0f172a',
+      senderName: user?.name || '',
+      senderEmail: user?.emailConnection?.email || user?.email || '',
+    };
+  },
+
+  saveBranding: (userId: string, branding: ReportBranding) => {
+    if (!branding.agencyName.trim()) throw new Error('Agency name is required.');
+    if (!branding.senderEmail.includes('@')) throw new Error('A sender email is required for the contact block.');
+    backendService.saveReportBranding(userId, branding);
+  },
+
+  /**
+   * Flattens an audit into report rows, most severe first. Measured findings
+   * are preferred; model-reported issues are listed as warnings.
+   */
+  items: (audit: SEOAudit): ReportItem[] => {
+    const items: ReportItem[] = audit.auditFindings && audit.auditFindings.length > 0
+      ? audit.auditFindings.map(f => ({
+          severity: f.severity,
+          category: f.category === 'ON_PAGE' ? 'On-Page' as const : 'Technical' as const,
+          issue: f.message,
+          evidence: f.evidence,
+          fix: CHECK_FIXES[f.check] || fixFor(f.message),
+        }))
+      : [
+          ...audit.onPageIssues.map(issue => ({ severity: 'WARNING' as const, category: 'On-Page' as const, issue, fix: fixFor(issue) })),
+          ...audit.technicalIssues.map(issue => ({ severity: 'WARNING' as const, category: 'Technical' as const, issue, fix: fixFor(issue) })),
+        ];
+
+    if (audit.localSeoIssues.hasIssues) {
+      items.push({ severity: 'WARNING', category: 'Local SEO', issue: audit.localSeoIssues.reason || 'Local listing problems found', fix: LOCAL_SEO_FIX });
+    }
+    return items.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  },
+
+  buildHtml: (audit: SEOAudit, branding: ReportBranding): string => {
+    const primary = safeColor(branding.primaryColor, '#2563eb');
+    const accent = safeColor(branding.accentColor, '#0f172a');
+    const logo = safeImageUrl(branding.logoUrl);
+    const website = safeLinkUrl(branding.senderWebsite);
+    const domain = normalizeDomain(audit.websiteUrl) || audit.websiteUrl;
+    const items = reportService.items(audit);
+    const counts = (['CRITICAL', 'WARNING', 'NOTICE'] as AuditSeverity[]).map(s => ({ severity: s, count: items.filter(i => i.severity === s).length }));
+    const dated = new Date(audit.auditedAt || Date.now()).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+    const summary = items.length === 0
+      ? `We reviewed ${domain} on ${dated} and found no significant SEO problems.`
+      : `We reviewed ${domain} on ${dated} and found ${items.length} ${items.length === 1 ? 'issue' : 'issues'} that affect how ${audit.businessName} appears in search. `
+        + (counts[0].count > 0
+          ? `${counts[0].count} ${counts[0].count === 1 ? 'is' : 'are'} critical and likely costing you visibility today.`
+          : 'None are critical, but fixing them will strengthen your rankings against local competitors.');
+
+    const sections = (['On-Page', 'Technical', 'Local SEO'] as ReportItem['category'][])
+      .map(category => ({ category, rows: items.filter(i => i.category === category) }))
+      .filter(s => s.rows.length > 0)
+      .map(s => `<h2>${s.category} <span class="count">${s.rows.length}</span></h2>
+        <table><thead><tr><th style="width:90px">Severity</th><th>Issue</th><th style="width:38%">Recommended fix</th></tr></thead>
+        <tbody>${itemRows(s.rows)}</tbody></table>`)
+      .join('');
+
+    const contact = [
+      branding.senderName && `<strong>${escapeHtml(branding.senderName)}</strong>`,
+      escapeHtml(branding.agencyName),
+      branding.senderEmail && `<a href="mailto:${escapeHtml(branding.senderEmail)}">${escapeHtml(branding.senderEmail)}</a>`,
+      branding.senderPhone && escapeHtml(branding.senderPhone),
+      branding.senderWebsite && (website
+        ? `<a href="${escapeHtml(website)}">${escapeHtml(branding.senderWebsite)}</a>`
+        : escapeHtml(branding.senderWebsite)),
+    ].filter(Boolean).join('<br>');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>SEO Audit - ${escapeHtml(audit.businessName)}</title>
+<style>
+  @page { margin: 16mm; }
+  * { box-sizing: border-box; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1e293b; margin: 0; font-size: 13px; line-height: 1.5; }
+  .page { max-width: 860px; margin: 0 auto; padding: 32px; }
+  header { display: flex; justify-content: space-between; align-items: center; border-bottom: 4px solid ${primary}; padding-bottom: 16px; }
+  header img { max-height: 56px; max-width: 220px; }
+  .agency { font-size: 18px; font-weight: 800; color: ${accent}; }
+  .kicker { font-size: 10px; font-weight: 800; letter-spacing: .15em; text-transform: uppercase; color: ${primary}; margin-top: 28px; }
+  h1 { font-size: 28px; margin: 4px 0 2px; color: ${accent}; }
+  .site { color: #64748b; }
+  .summary { background: #f8fafc; border-left: 4px solid ${primary}; padding: 16px 20px; margin: 24px 0; border-radius: 6px; }
+  .stats { display: flex; gap: 12px; margin-top: 12px; flex-wrap: wrap; }
+  .stat { padding: 8px 14px; border-radius: 6px; font-weight: 700; font-size: 12px; }
+  h2 { font-size: 15px; color: ${accent}; margin: 28px 0 8px; text-transform: uppercase; letter-spacing: .08em; }
+  h2 .count { background: ${primary}; color: #fff; border-radius: 10px; padding: 1px 8px; font-size: 11px; vertical-align: middle; }
+  table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+  tr { page-break-inside: avoid; }
+  th { text-align: left; font-size: 10px; text-transform: uppercase; letter-spacing: .1em; color: #64748b; border-bottom: 2px solid #e2e8f0; padding: 6px 8px; }
+  td { border-bottom: 1px solid #f1f5f9; padding: 10px 8px; vertical-align: top; }
+  .sev { display: inline-block; font-size: 10px; font-weight: 800; text-transform: uppercase; padding: 2px 8px; border-radius: 4px; }
+  .issue { font-weight: 600; }
+  .evidence { font-family: Menlo, Consolas, monospace; font-size: 10px; color: #94a3b8; word-break: break-all; margin-top: 2px; }
+  .fix { color: #334155; }
+  .contact { margin-top: 36px; padding: 20px; border-radius: 8px; background: ${accent}; color: #fff; display: flex; justify-content: space-between; gap: 24px; page-break-inside: avoid; }
+  .contact a { color: #fff; }
+  .contact .cta { font-size: 16px; font-weight: 800; max-width: 55%; }
+  footer { margin-top: 16px; font-size: 10px; color: #94a3b8; text-align: center; }
+</style>
+</head>
+<body>
+<div class="page">
+  <header>
+    ${logo ? `<img src="${escapeHtml(logo)}" alt="${escapeHtml(branding.agencyName)}">` : `<div class="agency">${escapeHtml(branding.agencyName)}</div>`}
+    <div class="site">${escapeHtml(dated)}</div>
+  </header>
+
+  <div class="kicker">SEO Audit Report</div>
+  <h1>${escapeHtml(audit.businessName)}</h1>
+  <div class="site">${escapeHtml(audit.websiteUrl)}</div>
+
+  <div class="summary">
+    <div class="kicker" style="margin-top:0">Executive Summary</div>
+    <p>${escapeHtml(summary)}</p>
+    <div class="stats">
+      ${counts.map(c => `<span class="stat" style="background:${SEVERITY_COLORS[c.severity].bg};color:${SEVERITY_COLORS[c.severity].fg}">${c.count} ${SEVERITY_COLORS[c.severity].label}</span>`).join('')}
+      ${audit.opportunityScore !== undefined ? `<span class="stat" style="background:${primary};color:#fff">Opportunity ${audit.opportunityScore}/100</span>` : ''}
+    </div>
+  </div>
+
+  ${sections}
+
+  <div class="contact">
+    <div class="cta">Want these fixed? We can walk you through every item on a short call.</div>
+    <div>${contact}</div>
+  </div>
+  <footer>Prepared by ${escapeHtml(branding.agencyName)} for ${escapeHtml(audit.businessName)}.</footer>
+</div>
+</body>
+</html>`;
+  },
+
+  fileName: (audit: SEOAudit): string => {
+    const slug = (normalizeDomain(audit.websiteUrl) || audit.businessName).replace(/[^a-z0-9.]+/gi, '-').replace(/^-|-$/g, '');
+    return `SEO-Audit-${slug || 'report'}.html`;
+  },
+
+  download: (audits: SEOAudit[], branding: ReportBranding) => {
+    if (audits.length === 1) {
+      const blob = new Blob([reportService.buildHtml(audits[0], branding)], { type: 'text/html;charset=utf-8' });
+      exportService.download(blob, reportService.fileName(audits[0]));
+      return;
+    }
+    const encoder = new TextEncoder();
+    const taken = new Set<string>();
+    const entries = audits.map(audit => {
+      let path = reportService.fileName(audit);
+      for (let i = 2; taken.has(path); i++) path = reportService.fileName(audit).replace(/\.html$/, `-${i}.html`);
+      taken.add(path);
+      return { path, data: encoder.encode(reportService.buildHtml(audit, branding)) };
+    });
+    const stamp = new Date().toISOString().split('T')[0];
+    exportService.download(new Blob([zipArchive.create(entries)], { type: 'application/zip' }), `SEO_Audit_Reports_${stamp}.zip`);
+  },
+
+  /** Opens the report in a new window and hands it to the print dialog for Save as PDF */
+  print: (audit: SEOAudit, branding: ReportBranding) => {
+    const win = window.open('', '_blank');
+    if (!win) throw new Error('Pop-up blocked. Allow pop-ups to print the report.');
+    win.document.open();
+    win.document.write(reportService.buildHtml(audit, branding));
+    win.document.close();
+    let printed = false;
+    const printOnce = () => {
+      if (printed || win.closed) return;
+      printed = true;
+      win.print();
+    };
+    win.onload = printOnce;
+    // Some browsers never fire onload for document.write content
+    setTimeout(printOnce, 800);
+  },
+
+  /** Stored audits keyed by domain, for matching outreach recipients to their report */
+  auditsByDomain: (userId: string): Map<string, SEOAudit> => {
+    return new Map(backendService.getLeads(userId).map(l => [l.domain, l.audit]));
+  },
+
+  findAudit: (index: Map<string, SEOAudit>, website?: string): SEOAudit | null => {
+    const domain = normalizeDomain(website || '');
+    return (domain && index.get(domain)) || null;
+  },
+};
@@ -0,0 +1,212 @@
+import { User, SEOAudit, SavedSearch, SavedSearchFilters, SearchQuery } from '../types';
+import { performSEOLeadGen } from '../geminiService';
+import { backendService } from './backendService';
+import { planService } from './planService';
+import { credentialService } from './credentialService';
+import { llmAdapter } from './llmAdapter';
+import { schemaValidator } from './schemaValidator';
+import { cronSchedule } from './cronSchedule';
+import { normalizeDomain } from './leadUtils';
+import { isAbortError } from './abortUtils';
+import { OPPORTUNITY_RANK, hasEmail } from './leadQuery';
+
+/**
+ * Saved Searches & Scheduled Runs
+ * A saved search is a niche/location/size/filter definition plus a cron
+ * schedule. `runDue` is the scheduler tick: the app calls it on an interval
+ * while open, and a companion worker can call it the same way. Every run that
+ * finishes is billed through planService exactly like a manual search; a
+ * cancelled run keeps what it found but is not charged.
+ */
+
+export interface SavedSearchInput {
+  name: string;
+  query: SearchQuery;
+  filters: SavedSearchFilters;
+  schedule: string;
+  enabled?: boolean;
+}
+
+export interface SavedSearchRunResult {
+  user: User;
+  search: SavedSearch;
+  leads: SEOAudit[];
+  netNew: SEOAudit[];
+}
+
+// Searches currently running in this process, so overlapping ticks never double-bill
+const running = new Set<string>();
+
+function computeNextRun(schedule: string, from: Date): string | undefined {
+  return cronSchedule.nextRun(schedule, from)?.toISOString();
+}
+
+export const savedSearchService = {
+  create: (user: User, input: SavedSearchInput): SavedSearch => {
+    const error = cronSchedule.validate(input.schedule);
+    if (error) throw new Error(`Invalid schedule: ${error}`);
+
+    const search: SavedSearch = {
+      id: `SRCH-${Math.random().toString(36).substring(2, 9)}`,
+      userId: user.id,
+      name: input.name.trim() || `${input.query.niche} • ${input.query.location}`,
+      query: { ...input.query, count: planService.clampResultCount(user, input.query.count) },
+      filters: input.filters,
+      schedule: input.schedule.trim(),
+      enabled: input.enabled ?? true,
+      createdAt: new Date().toISOString(),
+      nextRunAt: computeNextRun(input.schedule, new Date()),
+      lastRunDomains: [],
+    };
+    backendService.saveSavedSearch(search);
+    return search;
+  },
+
+  setEnabled: (search: SavedSearch, enabled: boolean): SavedSearch => {
+    // Re-enabling schedules from now rather than replaying runs missed while paused
+    const updated = { ...search, enabled, nextRunAt: enabled ? computeNextRun(search.schedule, new Date()) : search.nextRunAt };
+    backendService.saveSavedSearch(updated);
+    return updated;
+  },
+
+  applyFilters: (leads: SEOAudit[], filters: SavedSearchFilters): SEOAudit[] => {
+    return leads.filter(lead => {
+      if (filters.minOpportunity && OPPORTUNITY_RANK[lead.opportunityLevel] < OPPORTUNITY_RANK[filters.minOpportunity]) return false;
+      if (filters.requireEmail && !hasEmail(lead)) return false;
+      if (filters.localSeoIssuesOnly && !lead.localSeoIssues.hasIssues) return false;
+      return true;
+    });
+  },
+
+  /**
+   * Leads whose domain was not returned by the previous run.
+   */
+  diff: (previousDomains: string[], leads: SEOAudit[]): SEOAudit[] => {
+    const previous = new Set(previousDomains);
+    return leads.filter(lead => {
+      const domain = normalizeDomain(lead.websiteUrl);
+      return !domain || !previous.has(domain);
+    });
+  },
+
+  isDue: (search: SavedSearch, now: Date = new Date()): boolean => {
+    return search.enabled && !!search.nextRunAt && new Date(search.nextRunAt).getTime() <= now.getTime();
+  },
+
+  /**
+   * Runs one saved search now, charges the query, stores the leads, diffs
+   * against the previous run and notifies the user of net-new businesses.
+   * A cancelled run is recorded as CANCELLED and not charged.
+   */
+  run: async (user: User, search: SavedSearch, signal?: AbortSignal): Promise<SavedSearchRunResult> => {
+    const now = new Date();
+    const base: SavedSearch = { ...search, lastRunAt: now.toISOString(), nextRunAt: computeNextRun(search.schedule, now) };
+
+    if (planService.isLocked(user)) {
+      const locked: SavedSearch = { ...base, lastRunStatus: 'LOCKED', lastRunError: 'No queries remaining on this plan' };
+      backendService.saveSavedSearch(locked);
+      return { user, search: locked, leads: [], netNew: [] };
+    }
+
+    running.add(search.id);
+    try {
+      const query = { ...search.query, count: planService.clampResultCount(user, search.query.count) };
+      const { leads: found, rejected, cancelled } = await performSEOLeadGen(user, query.niche, query.location, {
+        count: query.count,
+        signal
+      });
+      const leads = savedSearchService.applyFilters(found, search.filters);
+      const netNew = savedSearchService.diff(search.lastRunDomains, leads);
+      // A full library does not fail the run; the notice tells the user what the library missed or dropped
+      let libraryNotice: string | undefined;
+      try {
+        libraryNotice = backendService.upsertLeads(user.id, leads, { niche: query.niche, location: query.location }).notice;
+      } catch (err: any) {
+        libraryNotice = err.message;
+      }
+
+      const stopped = cancelled ? `Stopped after ${found.length} of ${query.count} results, which were kept.` : undefined;
+      const completed: SavedSearch = {
+        ...base,
+        lastRunStatus: cancelled ? 'CANCELLED' : 'OK',
+        lastRunError: [stopped, libraryNotice].filter(Boolean).join(' ') || undefined,
+        lastNetNewCount: netNew.length,
+        // A cancelled run only saw part of the market, so keep the previous baseline too
+        lastRunDomains: [
+          ...(cancelled ? search.lastRunDomains : []),
+          ...leads.map(l => normalizeDomain(l.websiteUrl)).filter(Boolean)
+        ],
+      };
+      backendService.saveSavedSearch(completed);
+
+      if (netNew.length > 0) {
+        backendService.addNotification({
+          id: `NTF-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+          userId: user.id,
+          savedSearchId: search.id,
+          searchName: search.name,
+          createdAt: now.toISOString(),
+          netNew: netNew.map(l => ({ businessName: l.businessName, websiteUrl: l.websiteUrl })),
+          read: false,
+        });
+      }
+
+      backendService.logActivity({
+        id: `LOG-${Date.now()}`,
+        timestamp: now.toISOString(),
+        userId: user.id,
+        userEmail: user.email,
+        accountStatus: user.status,
+        type: 'LEAD_GEN',
+        input: { niche: query.niche, location: query.location, status: 'SCHEDULED', scheduledTime: search.nextRunAt },
+        output: {
+          rowCount: leads.length,
+          success: true,
+          validCount: netNew.length,
+          rejectedCount: rejected.length,
+          rejectionReasons: schemaValidator.summarizeRejections(rejected),
+          cancelled
+        }
+      });
+
+      return { user: cancelled ? user : planService.chargeQuery(user), search: completed, leads, netNew };
+    } catch (err: any) {
+      const aborted = isAbortError(err, signal);
+      const failed: SavedSearch = aborted
+        ? { ...base, lastRunStatus: 'CANCELLED', lastRunError: 'Stopped before any results came back' }
+        : { ...base, lastRunStatus: 'ERROR', lastRunError: err.message };
+      backendService.saveSavedSearch(failed);
+      backendService.logActivity({
+        id: `LOG-${Date.now()}`,
+        timestamp: now.toISOString(),
+        userId: user.id,
+        userEmail: user.email,
+        accountStatus: user.status,
+        type: 'LEAD_GEN',
+        input: { niche: search.query.niche, location: search.query.location, status: 'SCHEDULED' },
+        output: aborted ? { rowCount: 0, success: true, cancelled: true } : { rowCount: 0, success: false, error: err.message }
+      });
+      const updatedUser = !aborted && credentialService.isAuthError(err) ? credentialService.markFailed(user) : user;
+      return { user: updatedUser, search: failed, leads: [], netNew: [] };
+    } finally {
+      running.delete(search.id);
+    }
+  },
+
+  /**
+   * Scheduler tick. Runs every due search for the user one after another and
+   * returns the user as charged by those runs.
+   */
+  runDue: async (user: User, options: { signal?: AbortSignal; onRun?: (result: SavedSearchRunResult) => void } = {}): Promise<User> => {
+    let current = user;
+    const due = backendService.getSavedSearches(user.id).filter(s => savedSearchService.isDue(s) && !running.has(s.id));
+    for (const search of due) {
+      // A failed key would fail every remaining search; leave them for the next tick
+      if (options.signal?.aborted || llmAdapter.getKeyStatus(current) !== 'VERIFIED') break;
+      const result = await savedSearchService.run(current, search, options.signal);
+      current = result.user;
+      options.onRun?.(result);
+    }
+    return current;
+  }
+};
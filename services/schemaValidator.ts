@@ -0,0 +1,163 @@
+import { SEOAudit, OutreachLead, OpportunityLevel, ValidationStatus, RejectedRow } from '../types';
+
+/**
+ * Runtime Schema Validation & Repair
+ * Model output is untrusted. Every row is coerced into the shape the UI expects,
+ * missing fields are defaulted, and rows that cannot be repaired are quarantined
+ * with a reason instead of leaking into state.
+ */
+
+export interface ValidationReport<T> {
+  valid: T[];
+  rejected: RejectedRow[];
+  repairedCount: number;
+}
+
+export interface DraftPayload {
+  subject: string;
+  body: string;
+}
+
+const VALIDATION_STATUSES: ValidationStatus[] = ['VALID', 'RISKY', 'INVALID', 'UNCHECKED'];
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return '';
+}
+
+function asStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(asString).filter(Boolean);
+  const single = asString(value);
+  return single ? [single] : [];
+}
+
+function asBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') return ['true', 'yes', 'y', '1'].includes(value.trim().toLowerCase());
+  return Boolean(value);
+}
+
+function coerceOpportunityLevel(value: unknown): OpportunityLevel | null {
+  const normalized = asString(value).toLowerCase();
+  if (normalized === 'high' || normalized === 'h') return OpportunityLevel.HIGH;
+  if (normalized === 'medium' || normalized === 'med' || normalized === 'm') return OpportunityLevel.MEDIUM;
+  if (normalized === 'low' || normalized === 'l') return OpportunityLevel.LOW;
+  return null;
+}
+
+function coerceValidationStatus(value: unknown): ValidationStatus | null {
+  const normalized = asString(value).toUpperCase() as ValidationStatus;
+  return VALIDATION_STATUSES.includes(normalized) ? normalized : null;
+}
+
+function runRows<T>(raw: unknown, repairRow: (row: Record<string, any>) => { value?: T; reason?: string; repaired: boolean }): ValidationReport<T> {
+  const report: ValidationReport<T> = { valid: [], rejected: [], repairedCount: 0 };
+  if (!Array.isArray(raw)) {
+    if (raw !== null && raw !== undefined) {
+      report.rejected.push({ index: -1, reason: 'Payload is not an array', raw });
+    }
+    return report;
+  }
+
+  raw.forEach((row, index) => {
+    if (!isRecord(row)) {
+      report.rejected.push({ index, reason: 'Row is not an object', raw: row });
+      return;
+    }
+    const result = repairRow(row);
+    if (result.value) {
+      report.valid.push(result.value);
+      if (result.repaired) report.repairedCount++;
+    } else {
+      report.rejected.push({ index, reason: result.reason || 'Unrepairable row', raw: row });
+    }
+  });
+
+  return report;
+}
+
+export const schemaValidator = {
+  validateSEOAudits: (raw: unknown): ValidationReport<SEOAudit> => runRows(raw, (row) => {
+    const businessName = asString(row.businessName);
+    const websiteUrl = asString(row.websiteUrl);
+    if (!businessName && !websiteUrl) {
+      return { reason: 'Missing both businessName and websiteUrl', repaired: false };
+    }
+
+    let repaired = !businessName || !websiteUrl;
+    const level = coerceOpportunityLevel(row.opportunityLevel);
+    if (row.opportunityLevel !== undefined && level !== row.opportunityLevel) repaired = true;
+    if (!Array.isArray(row.onPageIssues) || !Array.isArray(row.technicalIssues) || !isRecord(row.localSeoIssues)) {
+      repaired = true;
+    }
+
+    const local = isRecord(row.localSeoIssues) ? row.localSeoIssues : {};
+    return {
+      repaired,
+      value: {
+        websiteUrl,
+        businessName: businessName || websiteUrl,
+        email: asString(row.email),
+        phone: asString(row.phone),
+        contactPageUrl: asString(row.contactPageUrl),
+        onPageIssues: asStringArray(row.onPageIssues),
+        technicalIssues: asStringArray(row.technicalIssues),
+        localSeoIssues: {
+          hasIssues: asBoolean(local.hasIssues),
+          reason: asString(local.reason),
+        },
+        opportunityLevel: level || OpportunityLevel.MEDIUM,
+      },
+    };
+  }),
+
+  validateOutreachLeads: (raw: unknown): ValidationReport<OutreachLead> => runRows(raw, (row) => {
+    const email = asString(row.email).toLowerCase();
+    if (!email || !email.includes('@')) {
+      return { reason: email ? `Malformed email "${email}"` : 'Missing email', repaired: false };
+    }
+
+    const status = coerceValidationStatus(row.validationStatus);
+    const lead: OutreachLead = { email, validationStatus: status || 'UNCHECKED' };
+    (['businessName', 'website', 'location', 'seoErrors', 'notes', 'validationReason'] as const).forEach(key => {
+      const value = asString(row[key]);
+      if (value) lead[key] = value;
+    });
+
+    return { value: lead, repaired: status !== row.validationStatus };
+  }),
+
+  /**
+   * Draft payloads are single objects. Falls back to the caller's template for
+   * any field the model failed to produce.
+   */
+  validateDraftPayload: (raw: unknown, fallback: DraftPayload): { payload: DraftPayload; error?: string } => {
+    if (!isRecord(raw)) {
+      return { payload: fallback, error: 'Draft payload is not an object' };
+    }
+    const subject = asString(raw.subject);
+    const body = typeof raw.body === 'string' ? raw.body.trim() : '';
+    const missing = [!subject && 'subject', !body && 'body'].filter(Boolean);
+    return {
+      payload: { subject: subject || fallback.subject, body: body || fallback.body },
+      error: missing.length > 0 ? `Draft missing ${missing.join(' and ')}` : undefined,
+    };
+  },
+
+  /**
+   * Groups rejection reasons for display, e.g. ["Missing email (3)"].
+   */
+  summarizeRejections: (rejected: RejectedRow[]): string[] => {
+    const counts = new Map<string, number>();
+    rejected.forEach(r => {
+      const key = r.reason.replace(/"[^"]*"/g, '').replace(/\s+/g, ' ').trim();
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return Array.from(counts.entries()).map(([reason, count]) => `${reason} (${count})`);
+  }
+};
@@ -0,0 +1,90 @@
+import { SEOAudit, OpportunityLevel, ScoringWeights, ScoreComponent } from '../types';
+
+/**
+ * Opportunity Scoring Engine
+ * Turns an audit into a 0–100 score from weighted, capped rules and derives the
+ * opportunity level from thresholds. Every point is attributed to a rule so a
+ * rep can explain exactly why a lead ranks where it does.
+ */
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  onPageIssue: 6,
+  onPageCap: 30,
+  technicalIssue: 8,
+  technicalCap: 30,
+  criticalFinding: 5,
+  criticalCap: 15,
+  localSeoIssues: 15,
+  hasEmail: 10,
+  hasPhone: 5,
+  highThreshold: 60,
+  mediumThreshold: 35,
+};
+
+export const SCORING_WEIGHT_LABELS: Record<keyof ScoringWeights, string> = {
+  onPageIssue: 'Points per on-page issue',
+  onPageCap: 'On-page cap',
+  technicalIssue: 'Points per technical issue',
+  technicalCap: 'Technical cap',
+  criticalFinding: 'Points per critical finding',
+  criticalCap: 'Critical cap',
+  localSeoIssues: 'Local SEO issues present',
+  hasEmail: 'Email available',
+  hasPhone: 'Phone available',
+  highThreshold: 'High threshold (score ≥)',
+  mediumThreshold: 'Medium threshold (score ≥)',
+};
+
+function capped(rule: string, label: string, count: number, each: number, cap: number): ScoreComponent {
+  const points = Math.min(count * each, cap);
+  return { rule, label, points, detail: `${count} × ${each}${count * each > cap ? ` (capped at ${cap})` : ''}` };
+}
+
+function flag(rule: string, label: string, present: boolean, points: number, detail: string): ScoreComponent {
+  return { rule, label, points: present ? points : 0, detail };
+}
+
+export const scoringService = {
+  breakdown: (lead: SEOAudit, weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS): ScoreComponent[] => {
+    const criticalCount = (lead.auditFindings || []).filter(f => f.severity === 'CRITICAL').length;
+    const email = (lead.email || '').trim();
+    const phone = (lead.phone || '').trim();
+
+    return [
+      capped('on_page', 'On-page issues', lead.onPageIssues.length, weights.onPageIssue, weights.onPageCap),
+      capped('technical', 'Technical issues', lead.technicalIssues.length, weights.technicalIssue, weights.technicalCap),
+      capped('critical', 'Critical findings', criticalCount, weights.criticalFinding, weights.criticalCap),
+      flag('local_seo', 'Local SEO issues', lead.localSeoIssues.hasIssues, weights.localSeoIssues, lead.localSeoIssues.hasIssues ? (lead.localSeoIssues.reason || 'Issues reported') : 'None reported'),
+      flag('email', 'Email available', email.includes('@'), weights.hasEmail, email || 'Not found'),
+      flag('phone', 'Phone available', phone.replace(/\D/g, '').length >= 7, weights.hasPhone, phone || 'Not found'),
+    ];
+  },
+
+  levelFor: (score: number, weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS): OpportunityLevel => {
+    if (score >= weights.highThreshold) return OpportunityLevel.HIGH;
+    if (score >= weights.mediumThreshold) return OpportunityLevel.MEDIUM;
+    return OpportunityLevel.LOW;
+  },
+
+  /**
+   * Scores a lead and overwrites its opportunity level with the derived one,
+   * unless a rep has set the level by hand.
+   */
+  score: (lead: SEOAudit, weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS): SEOAudit => {
+    const scoreBreakdown = scoringService.breakdown(lead, weights);
+    const total = scoreBreakdown.reduce((sum, c) => sum + c.points, 0);
+    const opportunityScore = Math.max(0, Math.min(100, Math.round(total)));
+    const isManual = lead.opportunityLevelSource === 'MANUAL';
+    return {
+      ...lead,
+      opportunityScore,
+      scoreBreakdown,
+      opportunityLevel: isManual ? lead.opportunityLevel : scoringService.levelFor(opportunityScore, weights),
+      opportunityLevelSource: isManual ? 'MANUAL' : 'SCORED',
+    };
+  },
+
+  scoreLeads: (leads: SEOAudit[], weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS): SEOAudit[] => {
+    return leads.map(lead => scoringService.score(lead, weights));
+  }
+};
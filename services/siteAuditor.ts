@@ -0,0 +1,352 @@
+import { SEOAudit, AuditFinding, AuditCategory, AuditSeverity } from '../types';
+import { linkedController, throwIfAborted } from './abortUtils';
+
+/**
+ * Deterministic Website Auditor
+ * Fetches a lead's site and measures real on-page and technical signals.
+ * Every issue it reports carries the evidence it was derived from, so nothing
+ * in an audit is invented by the model.
+ */
+
+export interface FetchedResource {
+  url: string;
+  finalUrl: string;
+  status: number;
+  ok: boolean;
+  body: string;
+  elapsedMs: number;
+}
+
+/**
+ * Pluggable transport. The default goes through the fetch proxy; tests and
+ * server-side workers can inject a fetcher that serves saved HTML fixtures instead.
+ */
+export type ResourceFetcher = (url: string, signal?: AbortSignal) => Promise<FetchedResource>;
+
+/** Plain-text description of a page, for grounding outreach copy */
+export interface PageSummary {
+  title: string;
+  description: string;
+  headings: string[];
+  excerpt: string;
+}
+
+export interface SiteAuditReport {
+  url: string;
+  findings: AuditFinding[];
+  responseTimeMs?: number;
+  auditedAt: string;
+  error?: string;
+}
+
+const TITLE_MIN = 30;
+const TITLE_MAX = 60;
+const META_DESC_MIN = 70;
+const META_DESC_MAX = 160;
+const SLOW_RESPONSE_MS = 3000;
+const AUDIT_CONCURRENCY = 4;
+
+export const FETCH_PROXY_PATH = '/api/fetch';
+
+/**
+ * The fetch proxy itself could not be used: the browser blocked the request
+ * or the endpoint is missing. Nothing was learned about the site, so callers
+ * record an audit error instead of a finding.
+ */
+export function isTransportError(err: any): boolean {
+  return err instanceof TypeError || err?.name === 'TransportError';
+}
+
+function transportError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'TransportError';
+  return error;
+}
+
+/**
+ * Fetches through the server-side proxy (api/fetch.ts) because browsers
+ * cannot read third-party pages directly. Upstream failures the proxy saw
+ * are thrown as plain errors; a missing or broken proxy as a TransportError.
+ */
+export const defaultFetcher: ResourceFetcher = async (url, signal) => {
+  const controller = linkedController(signal, 20000);
+  try {
+    const response = await fetch(`${FETCH_PROXY_PATH}?url=${encodeURIComponent(url)}`, { signal: controller.signal });
+    const payload = await response.json().catch(() => null);
+    if (!payload) throw transportError(`Fetch proxy unavailable (HTTP ${response.status})`);
+    if (!response.ok) throw new Error(payload.error || `Fetch failed (HTTP ${response.status})`);
+    return payload as FetchedResource;
+  } finally {
+    controller.dispose();
+  }
+};
+
+/* ===================== HTML HELPERS ===================== */
+
+function finding(check: string, category: AuditCategory, severity: AuditSeverity, message: string, evidence: string): AuditFinding {
+  return { check, category, severity, message, evidence };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ');
+}
+
+function collapse(text: string): string {
+  return decodeEntities(text.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function getAttr(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  if (!match) return null;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+}
+
+function findTags(html: string, tagName: string): string[] {
+  return html.match(new RegExp(`<${tagName}\\b[^>]*>`, 'gi')) || [];
+}
+
+function findMeta(html: string, name: string): string | null {
+  const tag = findTags(html, 'meta').find(t => (getAttr(t, 'name') || '').toLowerCase() === name);
+  return tag ? getAttr(tag, 'content') : null;
+}
+
+function truncate(text: string, max = 80): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function normalizeSiteUrl(websiteUrl: string): URL | null {
+  const raw = (websiteUrl || '').trim();
+  if (!raw) return null;
+  try {
+    return new URL(/^https?:\/\//i.test(raw) ? raw : `https://${raw}`);
+  } catch {
+    return null;
+  }
+}
+
+function unfetched(url: string, auditedAt: string, err: any): SiteAuditReport {
+  return { url, findings: [], auditedAt, error: `Site could not be fetched: ${err?.message || 'request failed'}` };
+}
+
+/* ===================== AUDITOR ===================== */
+
+export const siteAuditor = {
+  /**
+   * Pure HTML analysis. Takes raw markup and reports on-page findings.
+   * Has no network access so it can be run directly against saved fixtures.
+   */
+  analyzeHtml: (html: string): AuditFinding[] => {
+    const findings: AuditFinding[] = [];
+    const head = html.match(/<head\b[^>]*>([\s\S]*?)<\/head>/i)?.[1] ?? html;
+
+    // Title
+    const titleMatch = head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+    const title = titleMatch ? collapse(titleMatch[1]) : '';
+    if (!title) {
+      findings.push(finding('title', 'ON_PAGE', 'CRITICAL', 'Missing title tag', 'No <title> element found in <head>'));
+    } else if (title.length < TITLE_MIN) {
+      findings.push(finding('title', 'ON_PAGE', 'WARNING', `Title too short (${title.length} chars, recommended ${TITLE_MIN}-${TITLE_MAX})`, `<title>${truncate(title)}</title>`));
+    } else if (title.length > TITLE_MAX) {
+      findings.push(finding('title', 'ON_PAGE', 'WARNING', `Title too long (${title.length} chars, recommended ${TITLE_MIN}-${TITLE_MAX})`, `<title>${truncate(title)}</title>`));
+    }
+
+    // Meta description
+    const description = findMeta(head, 'description');
+    if (description === null || !description.trim()) {
+      findings.push(finding('meta_description', 'ON_PAGE', 'CRITICAL', 'Missing meta description', 'No <meta name="description"> with content'));
+    } else {
+      const len = description.trim().length;
+      if (len < META_DESC_MIN) {
+        findings.push(finding('meta_description', 'ON_PAGE', 'WARNING', `Meta description too short (${len} chars, recommended ${META_DESC_MIN}-${META_DESC_MAX})`, truncate(description.trim())));
+      } else if (len > META_DESC_MAX) {
+        findings.push(finding('meta_description', 'ON_PAGE', 'NOTICE', `Meta description too long (${len} chars, recommended ${META_DESC_MIN}-${META_DESC_MAX})`, truncate(description.trim())));
+      }
+    }
+
+    // H1 headings
+    const h1s = html.match(/<h1\b[^>]*>[\s\S]*?<\/h1>/gi) || [];
+    if (h1s.length === 0) {
+      findings.push(finding('h1', 'ON_PAGE', 'CRITICAL', 'Missing H1 heading', 'No <h1> element found on the page'));
+    } else if (h1s.length > 1) {
+      findings.push(finding('h1', 'ON_PAGE', 'WARNING', `Multiple H1 headings (${h1s.length} found)`, h1s.slice(0, 3).map(h => `"${truncate(collapse(h), 40)}"`).join(', ')));
+    }
+
+    // Canonical
+    const canonical = findTags(head, 'link').find(t => (getAttr(t, 'rel') || '').toLowerCase().split(/\s+/).includes('canonical'));
+    if (!canonical || !getAttr(canonical, 'href')) {
+      findings.push(finding('canonical', 'TECHNICAL', 'WARNING', 'Missing canonical tag', 'No <link rel="canonical" href="..."> in <head>'));
+    }
+
+    // Robots meta
+    const robots = findMeta(head, 'robots');
+    if (robots) {
+      const directives = robots.toLowerCase().split(/\s*,\s*/);
+      if (directives.includes('noindex') || directives.includes('none')) {
+        findings.push(finding('robots_meta', 'TECHNICAL', 'CRITICAL', 'Page is blocked from indexing (noindex)', `<meta name="robots" content="${robots}">`));
+      } else if (directives.includes('nofollow')) {
+        findings.push(finding('robots_meta', 'TECHNICAL', 'WARNING', 'Page links are not followed (nofollow)', `<meta name="robots" content="${robots}">`));
+      }
+    }
+
+    // Image alt coverage
+    const images = findTags(html, 'img');
+    if (images.length > 0) {
+      // alt="" is a valid marker for decorative images, so only a missing attribute counts
+      const missingAlt = images.filter(t => getAttr(t, 'alt') === null);
+      if (missingAlt.length > 0) {
+        const coverage = Math.round(((images.length - missingAlt.length) / images.length) * 100);
+        findings.push(finding(
+          'image_alt',
+          'ON_PAGE',
+          coverage < 50 ? 'WARNING' : 'NOTICE',
+          `${missingAlt.length} of ${images.length} images missing alt text (${coverage}% coverage)`,
+          missingAlt.slice(0, 3).map(t => getAttr(t, 'src') || '<img>').join(', ')
+        ));
+      }
+    }
+
+    return findings;
+  },
+
+  /** Title, meta description, top headings and the opening body text of a page */
+  describeHtml: (html: string): PageSummary => {
+    const head = html.match(/<head\b[^>]*>([\s\S]*?)<\/head>/i)?.[1] ?? html;
+    const titleMatch = head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+    const bodyHtml = (html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html)
+      .replace(/<(script|style|noscript|svg|nav|footer)\b[\s\S]*?<\/\1>/gi, ' ');
+    const headings = (bodyHtml.match(/<h[12]\b[^>]*>[\s\S]*?<\/h[12]>/gi) || []).map(collapse).filter(Boolean);
+    return {
+      title: titleMatch ? collapse(titleMatch[1]) : '',
+      description: (findMeta(head, 'description') || '').trim(),
+      headings: headings.filter((h, i) => headings.indexOf(h) === i).slice(0, 6).map(h => truncate(h, 120)),
+      excerpt: truncate(collapse(bodyHtml), 600),
+    };
+  },
+
+  /**
+   * Full site audit: homepage markup, HTTPS redirect, robots.txt, sitemap.xml
+   * and response time. Failures are reported rather than thrown so a single
+   * dead site never sinks a batch: a site the proxy could not reach becomes a
+   * finding, while a proxy that could not be used becomes the report's error.
+   */
+  auditSite: async (websiteUrl: string, fetcher: ResourceFetcher = defaultFetcher, signal?: AbortSignal): Promise<SiteAuditReport> => {
+    const auditedAt = new Date().toISOString();
+    const site = normalizeSiteUrl(websiteUrl);
+    if (!site) {
+      return { url: websiteUrl, findings: [], auditedAt, error: 'Invalid website URL' };
+    }
+
+    const findings: AuditFinding[] = [];
+    let origin = `https://${site.host}`;
+    let homepage: FetchedResource;
+    try {
+      homepage = await fetcher(`${origin}${site.pathname}${site.search}`, signal);
+    } catch (httpsErr: any) {
+      throwIfAborted(signal);
+      if (isTransportError(httpsErr)) return unfetched(site.href, auditedAt, httpsErr);
+      // Fall back to plain HTTP so sites without TLS still get audited
+      try {
+        origin = `http://${site.host}`;
+        homepage = await fetcher(`${origin}${site.pathname}${site.search}`, signal);
+        findings.push(finding('https', 'TECHNICAL', 'CRITICAL', 'Site is not served over HTTPS', `GET https://${site.host}/ failed: ${httpsErr?.message || 'request failed'}`));
+      } catch (err: any) {
+        throwIfAborted(signal);
+        if (isTransportError(err)) return unfetched(site.href, auditedAt, err);
+        return {
+          url: site.href,
+          findings: [finding('reachability', 'TECHNICAL', 'CRITICAL', 'Website could not be reached', err?.message || 'Request failed')],
+          auditedAt,
+          error: err?.message || 'Request failed',
+        };
+      }
+    }
+
+    if (!homepage.ok) {
+      findings.push(finding('reachability', 'TECHNICAL', 'CRITICAL', `Homepage returned HTTP ${homepage.status}`, `GET ${homepage.url} → ${homepage.status}`));
+    } else {
+      findings.push(...siteAuditor.analyzeHtml(homepage.body));
+    }
+
+    if (homepage.elapsedMs > SLOW_RESPONSE_MS) {
+      findings.push(finding('response_time', 'TECHNICAL', homepage.elapsedMs > SLOW_RESPONSE_MS * 2 ? 'WARNING' : 'NOTICE', `Slow server response (${(homepage.elapsedMs / 1000).toFixed(1)}s)`, `GET ${homepage.url} took ${homepage.elapsedMs}ms`));
+    }
+
+    const [httpProbe, robotsTxt, sitemap] = await Promise.allSettled([
+      fetcher(`http://${site.host}/`, signal),
+      fetcher(`${origin}/robots.txt`, signal),
+      fetcher(`${origin}/sitemap.xml`, signal),
+    ]);
+    throwIfAborted(signal);
+
+    if (origin.startsWith('https://') && httpProbe.status === 'fulfilled' && !httpProbe.value.finalUrl.toLowerCase().startsWith('https://')) {
+      findings.push(finding('https_redirect', 'TECHNICAL', 'CRITICAL', 'HTTP does not redirect to HTTPS', `GET http://${site.host}/ → ${httpProbe.value.finalUrl} (${httpProbe.value.status})`));
+    }
+
+    // A probe the proxy could not make says nothing about the site
+    const unknown = (probe: PromiseSettledResult<FetchedResource>) => probe.status === 'rejected' && isTransportError(probe.reason);
+
+    const robotsOk = robotsTxt.status === 'fulfilled' && robotsTxt.value.ok;
+    if (!robotsOk && !unknown(robotsTxt)) {
+      const detail = robotsTxt.status === 'fulfilled' ? `HTTP ${robotsTxt.value.status}` : 'request failed';
+      findings.push(finding('robots_txt', 'TECHNICAL', 'NOTICE', 'Missing robots.txt', `GET ${origin}/robots.txt → ${detail}`));
+    }
+
+    const sitemapDeclared = robotsOk && /^\s*sitemap\s*:/im.test((robotsTxt as PromiseFulfilledResult<FetchedResource>).value.body);
+    const sitemapOk = sitemap.status === 'fulfilled' && sitemap.value.ok && /<(urlset|sitemapindex)\b/i.test(sitemap.value.body);
+    if (!sitemapOk && !sitemapDeclared && !unknown(sitemap)) {
+      const detail = sitemap.status === 'fulfilled' ? `HTTP ${sitemap.value.status}` : 'request failed';
+      findings.push(finding('sitemap', 'TECHNICAL', 'WARNING', 'No XML sitemap found', `GET ${origin}/sitemap.xml → ${detail}; no Sitemap directive in robots.txt`));
+    }
+
+    return { url: homepage.finalUrl, findings, responseTimeMs: homepage.elapsedMs, auditedAt };
+  },
+
+  /**
+   * Writes a report onto a lead. Issue lists are rebuilt entirely from the
+   * measured findings so any model-supplied issues are discarded.
+   */
+  applyReport: (lead: SEOAudit, report: SiteAuditReport): SEOAudit => {
+    const format = (f: AuditFinding) => `${f.message} — ${f.evidence}`;
+    return {
+      ...lead,
+      onPageIssues: report.findings.filter(f => f.category === 'ON_PAGE').map(format),
+      technicalIssues: report.findings.filter(f => f.category === 'TECHNICAL').map(format),
+      auditFindings: report.findings,
+      auditedAt: report.auditedAt,
+      auditError: report.error,
+    };
+  },
+
+  /**
+   * Audits a batch of leads with bounded concurrency, preserving order.
+   * onAudited fires as each lead finishes, for progress reporting. Rejects
+   * with an AbortError once the signal fires.
+   */
+  auditLeads: async (
+    leads: SEOAudit[],
+    options: { fetcher?: ResourceFetcher; onAudited?: (index: number, lead: SEOAudit) => void; signal?: AbortSignal } = {}
+  ): Promise<SEOAudit[]> => {
+    const { fetcher = defaultFetcher, onAudited, signal } = options;
+    const audited: SEOAudit[] = new Array(leads.length);
+    let cursor = 0;
+
+    const worker = async () => {
+      while (cursor < leads.length) {
+        throwIfAborted(signal);
+        const idx = cursor++;
+        const report = await siteAuditor.auditSite(leads[idx].websiteUrl, fetcher, signal);
+        audited[idx] = siteAuditor.applyReport(leads[idx], report);
+        onAudited?.(idx, audited[idx]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(AUDIT_CONCURRENCY, leads.length) }, worker));
+    return audited;
+  }
+};
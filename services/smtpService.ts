@@ -5,12 +5,72 @@
  * It requires a valid OAuth2 Access Token to communicate with Google's servers.
  */
 
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  /** Text content; encoded as UTF-8 base64 in the MIME part */
+  content: string;
+}
+
 export interface SMTPPayload {
   to: string;
   subject: string;
   body: string;
   sender: string;
   accessToken?: string; // Real-world OAuth2 token
+  attachments?: EmailAttachment[];
+}
+
+const toBase64 = (text: string) => btoa(unescape(encodeURIComponent(text)));
+
+// RFC 2045 caps encoded lines at 76 characters
+const wrap76 = (encoded: string) => encoded.replace(/.{76}/g, '$&\r\n');
+
+function buildMime(payload: SMTPPayload): string {
+  const utf8Subject = `=?utf-8?B?${toBase64(payload.subject)}?=`;
+  const headers = [
+    `MIME-Version: 1.0`,
+    `to: ${payload.to}`,
+    `from: ${payload.sender}`,
+    `subject: ${utf8Subject}`,
+  ];
+
+  if (!payload.attachments || payload.attachments.length === 0) {
+    return [
+      `Content-Type: text/plain; charset="UTF-8"`,
+      `Content-Transfer-Encoding: 7bit`,
+      ...headers,
+      ``,
+      payload.body
+    ].join('\r\n');
+  }
+
+  const boundary = `ce_${Math.random().toString(36).substring(2)}${Date.now().toString(36)}`;
+  const parts = [
+    [
+      `--${boundary}`,
+      `Content-Type: text/plain; charset="UTF-8"`,
+      `Content-Transfer-Encoding: base64`,
+      ``,
+      wrap76(toBase64(payload.body)),
+    ].join('\r\n'),
+    ...payload.attachments.map(a => [
+      `--${boundary}`,
+      `Content-Type: ${a.mimeType}; charset="UTF-8"; name="${a.fileName.replace(/"/g, '')}"`,
+      `Content-Disposition: attachment; filename="${a.fileName.replace(/"/g, '')}"`,
+      `Content-Transfer-Encoding: base64`,
+      ``,
+      wrap76(toBase64(a.content)),
+    ].join('\r\n')),
+  ];
+
+  return [
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    ...headers,
+    ``,
+    ...parts,
+    `--${boundary}--`,
+  ].join('\r\n');
 }
 
 export const smtpService = {
@@ -18,7 +78,7 @@ export const smtpService = {
    * Executes a physical dispatch via the Gmail API.
    * This lands the email in the recipient's inbox and your 'Sent' folder.
    */
-  dispatch: async (payload: SMTPPayload): Promise<{ success: boolean; messageId?: string; error?: string }> => {
+  dispatch: async (payload: SMTPPayload, signal?: AbortSignal): Promise<{ success: boolean; messageId?: string; error?: string }> => {
     if (!payload.accessToken) {
       return { 
         success: false, 
@@ -29,17 +89,7 @@ export const smtpService = {
     try {
       // 1. Construct the RFC822 Email Message
       // Gmail API requires a raw MIME message
-      const utf8Subject = `=?utf-8?B?${btoa(unescape(encodeURIComponent(payload.subject)))}?=`;
-      const emailContent = [
-        `Content-Type: text/plain; charset="UTF-8"`,
-        `MIME-Version: 1.0`,
-        `Content-Transfer-Encoding: 7bit`,
-        `to: ${payload.to}`,
-        `from: ${payload.sender}`,
-        `subject: ${utf8Subject}`,
-        ``,
-        payload.body
-      ].join('\r\n');
+      const emailContent = buildMime(payload);
 
       // 2. Base64URL Encode the message (as required by Gmail API)
       const encodedMessage = btoa(unescape(encodeURIComponent(emailContent)))
@@ -56,7 +106,8 @@ export const smtpService = {
         },
         body: JSON.stringify({
           raw: encodedMessage
-        })
+        }),
+        signal
       });
 
       const data = await response.json();
@@ -70,6 +121,8 @@ export const smtpService = {
         messageId: data.id
       };
     } catch (error: any) {
+      // Cancellation is not a delivery failure; let the caller stop the run
+      if (signal?.aborted) throw error;
       console.error("[PHYSICAL_DISPATCH_FAULT]", error);
       return {
         success: false,
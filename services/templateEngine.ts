@@ -0,0 +1,168 @@
+import { OutreachLead } from '../types';
+
+/**
+ * Merge-Tag Templates
+ * Renders campaign subjects and bodies per recipient. Tags name an
+ * OutreachLead field or a custom column kept from the intake file:
+ *   {Business_Name}                 the field value
+ *   {Business_Name|there}           fallback when the field is empty
+ *   {#if SEO_Errors}...{else}...{/if}  block chosen by whether the field has a value
+ * Tag names ignore case, spaces and underscores. Unknown tags are left in
+ * place when rendering so they stay visible; check() reports them.
+ */
+
+export interface TemplateContext {
+  senderEmail?: string;
+}
+
+export interface TemplateIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+type Node =
+  | { kind: 'text'; value: string }
+  | { kind: 'tag'; name: string; fallback?: string; raw: string }
+  | { kind: 'if'; name: string; negate: boolean; then: Node[]; otherwise: Node[] };
+
+const BUILT_IN_TAGS: Record<string, (lead: OutreachLead, context: TemplateContext) => string | undefined> = {
+  Business_Name: lead => lead.businessName,
+  Website: lead => lead.website,
+  Email: lead => lead.email,
+  Location: lead => lead.location,
+  SEO_Errors: lead => lead.seoErrors,
+  Top_Issue: lead => lead.seoErrors?.split(';')[0].trim(),
+  Notes: lead => lead.notes,
+  Sender_Email: (_, context) => context.senderEmail,
+};
+
+const TOKEN = /\{([^{}\n]*)\}/g;
+
+function keyOf(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const BUILT_IN_BY_KEY = new Map(Object.keys(BUILT_IN_TAGS).map(name => [keyOf(name), BUILT_IN_TAGS[name]]));
+
+/** Builds the node tree and collects structural problems along the way */
+function parse(template: string): { nodes: Node[]; issues: string[] } {
+  const root: Node[] = [];
+  // Each open block remembers where its children go and whether {else} was seen
+  const stack: { node: Extract<Node, { kind: 'if' }>; inElse: boolean }[] = [];
+  const issues: string[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  let last = 0;
+  for (const match of template.matchAll(TOKEN)) {
+    if (match.index! > last) target().push({ kind: 'text', value: template.slice(last, match.index) });
+    last = match.index! + match[0].length;
+    const inner = match[1].trim();
+
+    const ifMatch = inner.match(/^#if\s+(!?)\s*(.+)$/i);
+    if (ifMatch) {
+      const node: Node = { kind: 'if', name: ifMatch[2].trim(), negate: ifMatch[1] === '!', then: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (/^else$/i.test(inner)) {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        issues.push('{else} without a matching {#if}');
+        target().push({ kind: 'text', value: match[0] });
+      } else {
+        top.inElse = true;
+      }
+    } else if (/^\/if$/i.test(inner)) {
+      if (!stack.pop()) {
+        issues.push('{/if} without a matching {#if}');
+        target().push({ kind: 'text', value: match[0] });
+      }
+    } else {
+      const pipe = inner.indexOf('|');
+      const name = (pipe === -1 ? inner : inner.slice(0, pipe)).trim();
+      target().push({ kind: 'tag', name, fallback: pipe === -1 ? undefined : inner.slice(pipe + 1), raw: match[0] });
+    }
+  }
+  if (last < template.length) target().push({ kind: 'text', value: template.slice(last) });
+  stack.forEach(open => issues.push(`{#if ${open.node.name}} is never closed with {/if}`));
+  return { nodes: root, issues };
+}
+
+/** Visits every tag with the {#if} conditions that must hold for it to render */
+function walkTags(nodes: Node[], visit: (name: string, fallback: string | undefined, guards: Extract<Node, { kind: 'if' }>[]) => void, guards: Extract<Node, { kind: 'if' }>[] = []) {
+  nodes.forEach(node => {
+    if (node.kind === 'tag') visit(node.name, node.fallback, guards);
+    if (node.kind === 'if') {
+      // A condition handles the empty case itself, so treat it like a fallback
+      visit(node.name, '', guards);
+      walkTags(node.then, visit, [...guards, node]);
+      walkTags(node.otherwise, visit, [...guards, { ...node, negate: !node.negate }]);
+    }
+  });
+}
+
+export const templateEngine = {
+  /** "Contact First Name" -> "Contact_First_Name", used for custom intake columns */
+  tagName: (label: string): string => label.trim().replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'Column',
+
+  /** undefined when no lead field or custom column answers to the tag */
+  valueOf: (name: string, lead: OutreachLead, context: TemplateContext = {}): string | undefined => {
+    const key = keyOf(name);
+    const builtIn = BUILT_IN_BY_KEY.get(key);
+    if (builtIn) return (builtIn(lead, context) || '').trim();
+    const custom = Object.keys(lead.customFields || {}).find(k => keyOf(k) === key);
+    return custom === undefined ? undefined : lead.customFields![custom].trim();
+  },
+
+  render: (template: string, lead: OutreachLead, context: TemplateContext = {}): string => {
+    const renderNodes = (nodes: Node[]): string => nodes.map(node => {
+      if (node.kind === 'text') return node.value;
+      const value = templateEngine.valueOf(node.name, lead, context);
+      if (node.kind === 'if') return renderNodes(!!value !== node.negate ? node.then : node.otherwise);
+      if (value === undefined) return node.raw;
+      return value || node.fallback || '';
+    }).join('');
+    return renderNodes(parse(template).nodes);
+  },
+
+  /** Built-in tags plus every custom column found on the leads */
+  availableTags: (leads: OutreachLead[]): string[] => {
+    const tags = Object.keys(BUILT_IN_TAGS);
+    leads.forEach(lead => Object.keys(lead.customFields || {}).forEach(name => {
+      if (!tags.some(t => keyOf(t) === keyOf(name))) tags.push(name);
+    }));
+    return tags;
+  },
+
+  /**
+   * Errors block generation: broken {#if} blocks and tags nothing answers to.
+   * Warnings flag plain tags that come out empty for some recipients.
+   */
+  check: (template: string, leads: OutreachLead[], context: TemplateContext = {}): TemplateIssue[] => {
+    const { nodes, issues } = parse(template);
+    const result: TemplateIssue[] = issues.map(message => ({ severity: 'error', message }));
+    const known = new Set(templateEngine.availableTags(leads).map(keyOf));
+    const reported = new Set<string>();
+
+    walkTags(nodes, (name, fallback, guards) => {
+      const key = keyOf(name);
+      if (reported.has(key)) return;
+      if (!known.has(key)) {
+        reported.add(key);
+        result.push({ severity: 'error', message: `Unknown tag {${name}}` });
+        return;
+      }
+      if (fallback !== undefined) return;
+      // Only recipients that actually reach the tag count against it
+      const reaching = leads.filter(l => guards.every(g => !!templateEngine.valueOf(g.name, l, context) !== g.negate));
+      const missing = reaching.filter(l => !templateEngine.valueOf(name, l, context)).length;
+      if (missing > 0) {
+        reported.add(key);
+        result.push({ severity: 'warning', message: `{${name}} is empty for ${missing} of ${leads.length} recipients. Add a fallback like {${name}|...}` });
+      }
+    });
+    return result;
+  },
+};
@@ -0,0 +1,85 @@
+import { zipArchive } from './zipArchive';
+
+/**
+ * XLSX Workbook Reader
+ * Reads the first worksheet of an .xlsx file into rows of display strings.
+ * Shared strings, inline strings, booleans and numbers are supported;
+ * formulas come back as their cached value and dates as serial numbers.
+ */
+
+function parseXml(data: Uint8Array): Document {
+  return new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+}
+
+function elements(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+/** All text runs of a string item, so rich text keeps every segment */
+function textOf(element: Element): string {
+  return elements(element, 't').map(t => t.textContent || '').join('');
+}
+
+/** "AB12" -> 27 */
+function columnIndex(ref: string): number {
+  const letters = (ref.match(/^[A-Z]+/i)?.[0] || '').toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function resolveTarget(target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  return `xl/${target}`.replace(/[^/]+\/\.\.\//g, '');
+}
+
+export const xlsxReader = {
+  /** Quick check on the ZIP signature before trying to read a workbook */
+  isXlsx: (bytes: Uint8Array): boolean => bytes.length > 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04,
+
+  readFirstSheet: async (bytes: Uint8Array): Promise<string[][]> => {
+    const files = new Map((await zipArchive.read(bytes)).map(e => [e.path.replace(/^\//, ''), e.data]));
+    const workbook = files.get('xl/workbook.xml');
+    if (!workbook) throw new Error('This file is not an Excel workbook.');
+
+    const firstSheet = elements(parseXml(workbook), 'sheet')[0];
+    if (!firstSheet) throw new Error('The workbook has no sheets.');
+    const relId = firstSheet.getAttribute('r:id') || firstSheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+
+    let sheetPath = 'xl/worksheets/sheet1.xml';
+    const rels = files.get('xl/_rels/workbook.xml.rels');
+    if (rels && relId) {
+      const rel = elements(parseXml(rels), 'Relationship').find(r => r.getAttribute('Id') === relId);
+      if (rel?.getAttribute('Target')) sheetPath = resolveTarget(rel.getAttribute('Target')!);
+    }
+    const sheet = files.get(sheetPath);
+    if (!sheet) throw new Error('The first worksheet could not be found.');
+
+    const sharedData = files.get('xl/sharedStrings.xml');
+    const shared = sharedData ? elements(parseXml(sharedData), 'si').map(textOf) : [];
+
+    const rows: string[][] = [];
+    elements(parseXml(sheet), 'row').forEach(rowEl => {
+      const rowNumber = Number(rowEl.getAttribute('r')) || rows.length + 1;
+      const row: string[] = [];
+      elements(rowEl, 'c').forEach(cell => {
+        const ref = cell.getAttribute('r');
+        const col = ref ? columnIndex(ref) : row.length;
+        const type = cell.getAttribute('t');
+        const raw = elements(cell, 'v')[0]?.textContent ?? '';
+        let value: string;
+        if (type === 's') value = shared[Number(raw)] ?? '';
+        else if (type === 'inlineStr') value = textOf(cell);
+        else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+        else value = raw;
+        row[col] = value;
+      });
+      // Sparse rows leave holes; blank rows keep their position
+      rows[rowNumber - 1] = Array.from(row, v => v ?? '');
+    });
+
+    const filled = Array.from(rows, r => r || []);
+    while (filled.length > 0 && filled[filled.length - 1].every(v => !v.trim())) filled.pop();
+    return filled;
+  },
+};
@@ -0,0 +1,136 @@
+/**
+ * Minimal ZIP Container
+ * Just enough of the ZIP format to build and read Office Open XML packages in
+ * the browser without a dependency. Written entries are stored uncompressed,
+ * which every spreadsheet app accepts; reading also inflates deflated entries
+ * through the platform DecompressionStream.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  u16(value: number) { this.bytes(new Uint8Array([value & 0xff, (value >>> 8) & 0xff])); }
+  u32(value: number) { this.bytes(new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff])); }
+  bytes(data: Uint8Array) {
+    this.chunks.push(data);
+    this.length += data.length;
+  }
+
+  toUint8Array(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    this.chunks.forEach(chunk => { out.set(chunk, offset); offset += chunk.length; });
+    return out;
+  }
+}
+
+export const zipArchive = {
+  create: (entries: ZipEntry[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const out = new ByteWriter();
+    const central = new ByteWriter();
+
+    entries.forEach(entry => {
+      const name = encoder.encode(entry.path);
+      const crc = crc32(entry.data);
+      const offset = out.length;
+
+      // Local file header; version 2.0, UTF-8 names (flag bit 11), stored, no timestamp
+      out.u32(0x04034b50); out.u16(20); out.u16(0x0800); out.u16(0);
+      out.u16(0); out.u16(0x21);
+      out.u32(crc); out.u32(entry.data.length); out.u32(entry.data.length);
+      out.u16(name.length); out.u16(0);
+      out.bytes(name);
+      out.bytes(entry.data);
+
+      central.u32(0x02014b50); central.u16(20); central.u16(20); central.u16(0x0800); central.u16(0);
+      central.u16(0); central.u16(0x21);
+      central.u32(crc); central.u32(entry.data.length); central.u32(entry.data.length);
+      central.u16(name.length); central.u16(0); central.u16(0);
+      central.u16(0); central.u16(0); central.u32(0);
+      central.u32(offset);
+      central.bytes(name);
+    });
+
+    const centralOffset = out.length;
+    const centralBytes = central.toUint8Array();
+    out.bytes(centralBytes);
+
+    // End of central directory
+    out.u32(0x06054b50); out.u16(0); out.u16(0);
+    out.u16(entries.length); out.u16(entries.length);
+    out.u32(centralBytes.length); out.u32(centralOffset);
+    out.u16(0);
+
+    return out.toUint8Array();
+  },
+
+  /**
+   * Lists the entries of an archive, inflating as needed. Encrypted and
+   * ZIP64 archives are not supported.
+   */
+  read: async (bytes: Uint8Array): Promise<ZipEntry[]> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const decoder = new TextDecoder();
+
+    // The end-of-central-directory record sits in the last 64KB + 22 bytes
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+      if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+    }
+    if (eocd === -1) throw new Error('Not a ZIP archive.');
+
+    const count = view.getUint16(eocd + 10, true);
+    let cursor = view.getUint32(eocd + 16, true);
+    const entries: ZipEntry[] = [];
+
+    for (let n = 0; n < count; n++) {
+      if (view.getUint32(cursor, true) !== 0x02014b50) throw new Error('Corrupt ZIP central directory.');
+      const flags = view.getUint16(cursor + 8, true);
+      const method = view.getUint16(cursor + 10, true);
+      const compressedSize = view.getUint32(cursor + 20, true);
+      const nameLength = view.getUint16(cursor + 28, true);
+      const extraLength = view.getUint16(cursor + 30, true);
+      const commentLength = view.getUint16(cursor + 32, true);
+      const localOffset = view.getUint32(cursor + 42, true);
+      const path = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+      cursor += 46 + nameLength + extraLength + commentLength;
+
+      if (flags & 0x1) throw new Error('Encrypted ZIP archives are not supported.');
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) {
+        entries.push({ path, data: raw });
+      } else if (method === 8) {
+        const stream = new Blob([raw]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        entries.push({ path, data: new Uint8Array(await new Response(stream).arrayBuffer()) });
+      } else {
+        throw new Error(`Unsupported ZIP compression method ${method}.`);
+      }
+    }
+    return entries;
+  }
+};
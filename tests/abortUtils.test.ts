@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { isAbortError, linkedController, throwIfAborted } from '../services/abortUtils';
+
+describe('isAbortError', () => {
+  it('follows the caller signal rather than the error', () => {
+    const caller = new AbortController();
+    const aborted = new Error('This operation was aborted');
+    aborted.name = 'AbortError';
+    expect(isAbortError(aborted, caller.signal)).toBe(false);
+    caller.abort();
+    expect(isAbortError(new Error('HTTP 500'), caller.signal)).toBe(true);
+  });
+
+  it('recognizes a user cancel without a signal', () => {
+    const caller = new AbortController();
+    caller.abort();
+    let thrown: unknown;
+    try { throwIfAborted(caller.signal); } catch (err) { thrown = err; }
+    expect(isAbortError(thrown)).toBe(true);
+    expect(isAbortError(new Error('Request aborted by upstream'))).toBe(false);
+  });
+});
+
+describe('linkedController', () => {
+  it('aborts with a TimeoutError that is not a user cancel', async () => {
+    const caller = new AbortController();
+    const controller = linkedController(caller.signal, 10);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    controller.dispose();
+    expect(controller.signal.aborted).toBe(true);
+    expect(controller.signal.reason).toMatchObject({ name: 'TimeoutError', message: 'Request timed out after 0.01s' });
+    expect(isAbortError(controller.signal.reason, caller.signal)).toBe(false);
+  });
+
+  it('aborts when the caller cancels', () => {
+    const caller = new AbortController();
+    const controller = linkedController(caller.signal, 1000);
+    caller.abort();
+    controller.dispose();
+    expect(controller.signal.aborted).toBe(true);
+    expect(isAbortError(controller.signal.reason, caller.signal)).toBe(true);
+  });
+});
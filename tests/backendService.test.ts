@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { backendService } from '../services/backendService';
+import { SEOAudit, OpportunityLevel } from '../types';
+
+const store = new Map<string, string>();
+let quota = Infinity;
+(globalThis as any).localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    if (value.length > quota) {
+      const error = new Error('The quota has been exceeded.');
+      error.name = 'QuotaExceededError';
+      throw error;
+    }
+    store.set(key, value);
+  },
+  removeItem: (key: string) => { store.delete(key); },
+};
+
+const audit = (domain: string): SEOAudit => ({
+  websiteUrl: `https://${domain}/`,
+  businessName: domain,
+  email: '',
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.MEDIUM,
+});
+
+const STORAGE_FULL = /Browser storage is full/;
+
+describe('backendService lead library', () => {
+  beforeEach(() => {
+    store.clear();
+    quota = Infinity;
+  });
+
+  it('keeps only the most recent sightings of a lead', () => {
+    for (let i = 0; i < 15; i++) backendService.upsertLeads('USR-1', [audit('acme.example')], { niche: `niche ${i}`, location: 'Denver' });
+    const [lead] = backendService.getLeads('USR-1');
+    expect(lead.sightings).toHaveLength(10);
+    expect(lead.sightings[9].niche).toBe('niche 14');
+  });
+
+  it('reports a full storage from every write helper', () => {
+    const [stored] = backendService.upsertLeads('USR-1', [audit('acme.example')], { niche: 'plumbers', location: 'Denver' }).leads;
+    quota = 0;
+    expect(() => backendService.upsertLeads('USR-1', [audit('beta.example')], { niche: 'plumbers', location: 'Denver' })).toThrow(STORAGE_FULL);
+    expect(() => backendService.updateStoredAudit('USR-1', { ...stored.audit, notes: 'Call back' })).toThrow(STORAGE_FULL);
+    expect(() => backendService.updateStoredLead({ ...stored, stageId: 'won' })).toThrow(STORAGE_FULL);
+    expect(() => backendService.deleteLead(stored.id)).toThrow(STORAGE_FULL);
+    expect(backendService.getLeads('USR-1')).toEqual([stored]);
+  });
+
+  it('caps each account on its own, dropping the least recently seen leads', () => {
+    const seeded = Array.from({ length: 1500 }, (_, i) => ({
+      id: `USR-1:lead${i}.example`,
+      userId: 'USR-1',
+      domain: `lead${i}.example`,
+      audit: audit(`lead${i}.example`),
+      firstSeenAt: '2026-01-01T00:00:00.000Z',
+      // lead0 was seen most recently, lead1499 longest ago
+      lastSeenAt: new Date(Date.UTC(2026, 0, 1) + (1500 - i) * 60000).toISOString(),
+      sightings: [],
+    }));
+    store.set('seo_saas_leads_v8', JSON.stringify(seeded));
+
+    const other = backendService.upsertLeads('USR-2', [audit('other.example')], { niche: 'plumbers', location: 'Denver' });
+    expect(other.notice).toBeUndefined();
+    expect(backendService.getLeads('USR-1')).toHaveLength(1500);
+
+    const { notice } = backendService.upsertLeads('USR-1', [audit('new1.example'), audit('new2.example')], { niche: 'plumbers', location: 'Denver' });
+    expect(notice).toBe('The lead library is full, so the 2 least recently seen leads were removed.');
+    const ids = backendService.getLeads('USR-1').map(l => l.id);
+    expect(ids).toHaveLength(1500);
+    expect(ids).toContain('USR-1:new1.example');
+    expect(ids).toContain('USR-1:lead0.example');
+    expect(ids).not.toContain('USR-1:lead1499.example');
+    expect(ids).not.toContain('USR-1:lead1498.example');
+    expect(backendService.getLeads('USR-2')).toHaveLength(1);
+  });
+});
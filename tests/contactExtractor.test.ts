@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { contactExtractor } from '../services/contactExtractor';
+import { ResourceFetcher } from '../services/siteAuditor';
+import { SEOAudit } from '../types';
+
+const lead = {
+  websiteUrl: 'acme.example',
+  businessName: 'Acme Plumbing',
+  email: 'info@acme.example',
+  phone: '',
+  contactPageUrl: '',
+} as SEOAudit;
+
+const HOMEPAGE = '<html><body><a href="/contact">Contact us</a><a href="mailto:owner@acme.example">Email the owner</a></body></html>';
+
+describe('contactExtractor.discover', () => {
+  it('promotes a scraped address over the model guess', async () => {
+    const fetcher: ResourceFetcher = async url => {
+      const body = url === 'https://acme.example' ? HOMEPAGE : '<p>Call (303) 555-0142</p>';
+      return { url, finalUrl: url, status: 200, ok: true, body, elapsedMs: 50 };
+    };
+    const found = await contactExtractor.discover(lead, fetcher);
+    expect(found.email).toBe('owner@acme.example');
+    expect(found.contactPageUrl).toBe('https://acme.example/contact');
+    expect(found.contactsError).toBeUndefined();
+  });
+
+  it('records why discovery failed instead of silently keeping the guess', async () => {
+    const fetcher: ResourceFetcher = async () => { throw new TypeError('Failed to fetch'); };
+    const found = await contactExtractor.discover(lead, fetcher);
+    expect(found.email).toBe('info@acme.example');
+    expect(found.contactsError).toBe('Homepage could not be fetched: Failed to fetch');
+    expect(found.contactCandidates?.every(c => c.source === 'MODEL')).toBe(true);
+  });
+
+  it('records a homepage that answered with an error status', async () => {
+    const fetcher: ResourceFetcher = async url => ({ url, finalUrl: url, status: 503, ok: false, body: '', elapsedMs: 50 });
+    const found = await contactExtractor.discover(lead, fetcher);
+    expect(found.contactsError).toBe('Homepage returned HTTP 503');
+  });
+});
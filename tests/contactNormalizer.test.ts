@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { contactNormalizer } from '../services/contactNormalizer';
+import { exportService, BUILT_IN_PROFILES } from '../services/exportService';
+import { SEOAudit, OpportunityLevel } from '../types';
+
+describe('contactNormalizer.regionFromLocation', () => {
+  it.each([
+    ['Austin, TX', 'US'],
+    ['Sacramento, CA', 'US'],
+    ['Dover, DE', 'US'],
+    ['Indianapolis, IN', 'US'],
+    ['Berlin, DE', 'DE'],
+    ['Toronto, CA', 'CA'],
+    ['Mumbai, IN', 'IN'],
+    ['Amsterdam, NL', 'NL'],
+    ["St. John's, NL", 'CA'],
+    ['Leeds, UK', 'GB'],
+    ['Lyon, FR', 'FR'],
+    ['Hamburg, Germany', 'DE'],
+    ['London, ON', 'CA'],
+    ['Paris, TX', 'US'],
+    ['Toronto', 'CA'],
+    ['Springfield', 'US'],
+  ])('reads %s as %s', (location, region) => {
+    expect(contactNormalizer.regionFromLocation(location)).toBe(region);
+  });
+});
+
+describe('exportService phones', () => {
+  const lead: SEOAudit = {
+    websiteUrl: 'https://baeckerei.example/',
+    businessName: 'Bäckerei Example',
+    email: 'info@baeckerei.example',
+    phone: '030 1234567',
+    contactPageUrl: '',
+    onPageIssues: [],
+    technicalIssues: [],
+    localSeoIssues: { hasIssues: false, reason: '' },
+    opportunityLevel: OpportunityLevel.MEDIUM,
+  };
+  const phoneProfile = { ...BUILT_IN_PROFILES[0], columns: [{ header: 'Phone', field: 'phone' as const }] };
+
+  it('reads national numbers in the region of the search location', () => {
+    expect(exportService.toCsv([lead], phoneProfile, 'Berlin, DE')).toBe('\uFEFFPhone\r\n+49301234567');
+    expect(JSON.parse(exportService.toJson([lead], 'Berlin, DE'))[0].phone).toBe('+49301234567');
+  });
+
+  it('leaves a number as stored when it does not parse in the default region', () => {
+    expect(exportService.toCsv([lead], phoneProfile)).toBe('\uFEFFPhone\r\n030 1234567');
+  });
+});
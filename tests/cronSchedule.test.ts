@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { cronSchedule, CRON_PRESETS } from '../services/cronSchedule';
+
+// Local time, so the tests hold in any time zone; 6 January 2025 is a Monday
+const at = (day: number, hour = 0, minute = 0, month = 0) => new Date(2025, month, day, hour, minute);
+
+describe('cronSchedule.nextRun', () => {
+  it('returns the first matching minute strictly after the start', () => {
+    expect(cronSchedule.nextRun('0 8 * * *', at(6, 7, 59))).toEqual(at(6, 8));
+    expect(cronSchedule.nextRun('0 8 * * *', at(6, 8))).toEqual(at(7, 8));
+  });
+
+  it('ignores seconds on the start time', () => {
+    expect(cronSchedule.nextRun('* * * * *', new Date(2025, 0, 6, 8, 0, 45))).toEqual(at(6, 8, 1));
+  });
+
+  it('expands steps from the start of the range', () => {
+    expect(cronSchedule.nextRun('0 */6 * * *', at(6, 6, 1))).toEqual(at(6, 12));
+    expect(cronSchedule.nextRun('10-40/15 * * * *', at(6, 9, 26))).toEqual(at(6, 9, 40));
+    expect(cronSchedule.nextRun('10-40/15 * * * *', at(6, 9, 41))).toEqual(at(6, 10, 10));
+    expect(cronSchedule.nextRun('30/10 9 * * *', at(6, 9, 51))).toEqual(at(7, 9, 30));
+  });
+
+  it('handles lists and ranges', () => {
+    expect(cronSchedule.nextRun('15 9 1,15 * *', at(2, 9))).toEqual(at(15, 9, 15));
+    expect(cronSchedule.nextRun('0 8 * * 1-5', at(10, 8))).toEqual(at(13, 8));
+  });
+
+  it('treats weekday 7 as Sunday', () => {
+    expect(cronSchedule.nextRun('0 8 * * 7', at(6))).toEqual(at(12, 8));
+  });
+
+  it('matches either the day of month or the weekday when both are restricted', () => {
+    // The 20th or any Monday, whichever comes first
+    expect(cronSchedule.nextRun('0 8 20 * 1', at(6, 9))).toEqual(at(13, 8));
+    expect(cronSchedule.nextRun('0 8 20 * 1', at(18))).toEqual(at(20, 8));
+    expect(cronSchedule.nextRun('0 8 14 * 1', at(13, 9))).toEqual(at(14, 8));
+  });
+
+  it('uses only the restricted day field when the other is a wildcard', () => {
+    expect(cronSchedule.nextRun('0 8 20 * *', at(6))).toEqual(at(20, 8));
+    expect(cronSchedule.nextRun('0 8 * * 3', at(6))).toEqual(at(8, 8));
+  });
+
+  it('rolls over months and skips days a month does not have', () => {
+    expect(cronSchedule.nextRun('0 8 1 * *', at(31, 9))).toEqual(at(1, 8, 0, 1));
+    expect(cronSchedule.nextRun('0 0 31 * *', at(1, 0, 0, 1))).toEqual(at(31, 0, 0, 2));
+  });
+
+  it('gives up on expressions that never match', () => {
+    expect(cronSchedule.nextRun('0 0 31 2 *', at(6))).toBeNull();
+  });
+
+  it('schedules every preset', () => {
+    CRON_PRESETS.forEach(preset => expect(cronSchedule.nextRun(preset.expression, at(6))).toBeInstanceOf(Date));
+  });
+});
+
+describe('cronSchedule.validate', () => {
+  it('accepts well-formed expressions', () => {
+    ['* * * * *', '0 8 * * 1-5', ' 15 9 1,15 * * ', '*/5 0-23/2 1-31 1-12 0-7', '59 23 31 12 7'].forEach(expression =>
+      expect(cronSchedule.validate(expression)).toBeNull());
+  });
+
+  it.each([
+    ['0 8 * *', 'Cron expression needs 5 fields: minute hour day month weekday'],
+    ['0 8 * * * *', 'Cron expression needs 5 fields: minute hour day month weekday'],
+    ['1,,2 * * * *', 'Empty list item in "1,,2"'],
+    ['1, * * * *', 'Empty list item in "1,"'],
+    ['-5 * * * *', 'Invalid value "-5"'],
+    ['1- * * * *', 'Invalid value "1-"'],
+    ['*/ * * * *', 'Invalid value "*/"'],
+    ['1/2/3 * * * *', 'Invalid value "1/2/3"'],
+    ['a * * * *', 'Invalid value "a"'],
+    ['1.5 * * * *', 'Invalid value "1.5"'],
+    ['*/0 * * * *', 'Invalid step "*/0"'],
+    ['60 * * * *', 'Value "60" out of range 0-59'],
+    ['0 24 * * *', 'Value "24" out of range 0-23'],
+    ['0 0 0 * *', 'Value "0" out of range 1-31'],
+    ['0 0 * 13 *', 'Value "13" out of range 1-12'],
+    ['0 0 * * 8', 'Value "8" out of range 0-7'],
+    ['5-1 * * * *', 'Value "5-1" out of range 0-59'],
+  ])('rejects %j', (expression, message) => {
+    expect(cronSchedule.validate(expression)).toBe(message);
+    expect(() => cronSchedule.nextRun(expression)).toThrow(message);
+  });
+});
+
+describe('cronSchedule.describe', () => {
+  it('names presets and echoes anything else', () => {
+    expect(cronSchedule.describe(' 0 8 * * 1-5 ')).toBe('Weekdays at 08:00');
+    expect(cronSchedule.describe('5 4 * * *')).toBe('5 4 * * *');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { emailVerifier, MxResolver } from '../services/emailVerifier';
+
+const MX = [{ exchange: 'mx.acme.example', priority: 10 }];
+const offline: MxResolver = async () => { throw new Error('DNS lookup failed: HTTP 503'); };
+
+describe('emailVerifier.verify', () => {
+  it('passes an address whose domain has a mail server', async () => {
+    const result = await emailVerifier.verify('jane@acme.example', { mxResolver: async () => MX });
+    expect(result).toEqual({ status: 'VALID', reasons: ['Syntax and mail server OK'], suggestion: undefined });
+  });
+
+  it('leaves an address unchecked when the MX lookup fails', async () => {
+    const result = await emailVerifier.verify('jane@acme.example', { mxResolver: offline });
+    expect(result.status).toBe('UNCHECKED');
+    expect(result.reasons).toEqual(['MX lookup unavailable']);
+  });
+
+  it('keeps a risky verdict when the MX lookup fails', async () => {
+    const result = await emailVerifier.verify('info@acme.example', { mxResolver: offline });
+    expect(result.status).toBe('RISKY');
+    expect(result.reasons).toContain('MX lookup unavailable');
+  });
+});
+
+describe('emailVerifier.withDnsCache', () => {
+  it('looks a domain up once', async () => {
+    let calls = 0;
+    const cached = emailVerifier.withDnsCache({ mxResolver: async () => { calls++; return MX; } });
+    await cached.mxResolver!('acme.example');
+    await cached.mxResolver!('acme.example');
+    expect(calls).toBe(1);
+  });
+
+  it('retries a domain whose lookup failed', async () => {
+    let calls = 0;
+    const cached = emailVerifier.withDnsCache({
+      mxResolver: async () => {
+        if (++calls === 1) throw new Error('Request timed out after 6s');
+        return MX;
+      },
+    });
+    await expect(cached.mxResolver!('acme.example')).rejects.toThrow('Request timed out after 6s');
+    await expect(cached.mxResolver!('acme.example')).resolves.toEqual(MX);
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { exportService, BUILT_IN_PROFILES } from '../services/exportService';
+import { leadImport } from '../services/leadImport';
+import { SEOAudit, OpportunityLevel, ExportProfile } from '../types';
+
+const lead = (businessName: string, phone = ''): SEOAudit => ({
+  websiteUrl: 'https://acme.example/',
+  businessName,
+  email: 'owner@acme.example',
+  phone,
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.HIGH,
+});
+
+const nameOnly: ExportProfile = { id: 'names', name: 'Names', columns: [{ header: 'Business Name', field: 'businessName' }] };
+
+/** The data line the exporter writes for a single business name */
+const cell = (businessName: string) => exportService.toCsv([lead(businessName)], nameOnly).split('\r\n')[1];
+
+describe('exportService.toCsv', () => {
+  it('starts with a BOM and uses CRLF line endings', () => {
+    expect(exportService.toCsv([lead('Acme')], nameOnly)).toBe('﻿Business Name\r\nAcme');
+  });
+
+  it.each([
+    ['Acme Plumbing', 'Acme Plumbing'],
+    ['Smith, Jones & Co', '"Smith, Jones & Co"'],
+    ['The "Best" Plumber', '"The ""Best"" Plumber"'],
+    ['Line one\nLine two', '"Line one\nLine two"'],
+    [' padded ', '" padded "'],
+    ['=HYPERLINK("http://evil.example","click")', `"'=HYPERLINK(""http://evil.example"",""click"")"`],
+    ['+cmd|" /C calc"!A0', `"'+cmd|"" /C calc""!A0"`],
+    ['-2+3+cmd|x', "'-2+3+cmd|x"],
+    ['@SUM(A1:A9)', "'@SUM(A1:A9)"],
+    ['\t=1+1', "'\t=1+1"],
+    ['Acme = best', 'Acme = best'],
+  ])('writes %j as %j', (value, expected) => {
+    expect(cell(value)).toBe(expected);
+  });
+
+  it('leaves phone numbers importable', () => {
+    const profile: ExportProfile = { id: 'phones', name: 'Phones', columns: [{ header: 'Phone', field: 'phone' }, { header: 'Note', field: 'constant', value: '-5' }] };
+    expect(exportService.toCsv([lead('Acme', '(415) 555-0100')], profile, 'San Francisco, CA').split('\r\n')[1]).toBe('+14155550100,-5');
+  });
+
+  it('reads back through the importer unchanged apart from the formula guard', () => {
+    const names = ['Smith, Jones & Co', 'The "Best" Plumber', 'Line one\r\nLine two', '=1+1', 'Plain'];
+    const rows = leadImport.parseCsv(exportService.toCsv(names.map(name => lead(name)), nameOnly));
+    expect(rows.map(r => r[0])).toEqual(['Business Name', ...names.slice(0, 3), "'=1+1", 'Plain']);
+  });
+
+  it('round-trips the default profile into the importer mapping', () => {
+    const csv = exportService.toCsv([lead('Acme, Inc.', '415-555-0100')], BUILT_IN_PROFILES[0], 'San Francisco, CA');
+    const rows = leadImport.parseCsv(csv);
+    const hasHeader = leadImport.detectHeader(rows);
+    const { leads } = leadImport.build(rows, leadImport.autoMap(rows, hasHeader), hasHeader);
+    expect(hasHeader).toBe(true);
+    expect(leads).toEqual([expect.objectContaining({ email: 'owner@acme.example', businessName: 'Acme, Inc.', website: 'https://acme.example/' })]);
+  });
+});
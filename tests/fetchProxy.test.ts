@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GET, fetchPublicUrl, HostResolver } from '../api/fetch';
+
+const call = async (target?: string, headers: Record<string, string> = { 'Sec-Fetch-Site': 'same-origin' }) => {
+  const query = target === undefined ? '' : `?url=${encodeURIComponent(target)}`;
+  const response = await GET(new Request(`https://app.example/api/fetch${query}`, { headers }));
+  return { status: response.status, body: await response.json() };
+};
+
+const PRIVATE = { error: 'Private network addresses cannot be fetched' };
+
+/** Answers from a fixed table instead of DNS */
+const dns = (table: Record<string, string[]>): HostResolver => async host => {
+  if (!table[host]) throw Object.assign(new Error('not found'), { code: 'ENOTFOUND' });
+  return table[host];
+};
+
+describe('fetch proxy', () => {
+  it('requires a url', async () => {
+    expect(await call()).toEqual({ status: 400, body: { error: 'Missing url parameter' } });
+  });
+
+  it('refuses non-http schemes', async () => {
+    expect((await call('file:///etc/passwd')).status).toBe(400);
+    expect((await call('javascript:alert(1)')).status).toBe(400);
+  });
+
+  it.each([
+    'http://localhost:3000/',
+    'http://127.0.0.1/',
+    'http://10.0.0.8/',
+    'http://172.20.1.1/',
+    'http://192.168.1.1/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::1]/',
+    'http://printer.local/',
+  ])('refuses private address %s', async target => {
+    expect(await call(target)).toEqual({ status: 400, body: PRIVATE });
+  });
+
+  it.each([
+    ['no browser headers', {}],
+    ['a cross-site request', { 'Sec-Fetch-Site': 'cross-site' }],
+    ['another origin', { Origin: 'https://evil.example' }],
+  ])('refuses %s', async (_, headers) => {
+    expect(await call('https://acme.example/', headers)).toEqual({ status: 403, body: { error: 'The fetch proxy only serves this app' } });
+  });
+
+  it('accepts a same-origin caller identified by Origin', async () => {
+    expect(await call('http://127.0.0.1/', { Origin: 'https://app.example' })).toEqual({ status: 400, body: PRIVATE });
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it.each([
+    ['loopback', ['127.0.0.1']],
+    ['cloud metadata', ['169.254.169.254']],
+    ['a private address among public ones', ['93.184.216.34', '10.1.2.3']],
+    ['IPv6 loopback', ['::1']],
+  ])('refuses a public name that resolves to %s', async (_, addresses) => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    await expect(fetchPublicUrl('https://internal.example/', dns({ 'internal.example': addresses }))).rejects.toMatchObject({ status: 400, message: PRIVATE.error });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('reports a name that does not resolve as an upstream failure', async () => {
+    await expect(fetchPublicUrl('https://gone.example/', dns({}))).rejects.toThrow('ENOTFOUND');
+  });
+
+  it('checks every redirect hop', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 302, headers: { Location: 'http://metadata.example/latest/' } }));
+    const resolve = dns({ 'acme.example': ['93.184.216.34'], 'metadata.example': ['169.254.169.254'] });
+    await expect(fetchPublicUrl('https://acme.example/', resolve)).rejects.toMatchObject({ status: 400, message: PRIVATE.error });
+  });
+
+  it('returns the page from a public host', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('<h1>Acme</h1>', { status: 200 }));
+    const page = await fetchPublicUrl('https://acme.example/', dns({ 'acme.example': ['93.184.216.34'] }));
+    expect(page).toMatchObject({ url: 'https://acme.example/', finalUrl: 'https://acme.example/', status: 200, ok: true, body: '<h1>Acme</h1>' });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { performSEOLeadGen, LEAD_GEN_NEEDS_SEARCH } from '../geminiService';
+import { llmAdapter, LlmAdapter } from '../services/llmAdapter';
+
+const row = (domain: string) => JSON.stringify({
+  websiteUrl: `https://${domain}/`,
+  businessName: domain,
+  email: '',
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+});
+
+/** Grounded adapter that streams the given text in one chunk */
+function streamingAdapter(text: string): LlmAdapter {
+  return {
+    provider: 'GEMINI',
+    supportsSearch: true,
+    complete: async () => ({ text, groundingSources: [] }),
+    stream: async (_, onText) => {
+      onText(text);
+      return { text, groundingSources: [] };
+    },
+  };
+}
+
+const offline = {
+  resolver: async () => true,
+  probe: async () => true,
+  fetcher: async (url: string) => { throw new TypeError(`Failed to fetch ${url}`); },
+};
+
+describe('performSEOLeadGen', () => {
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it('keeps streamed rows when the full response does not parse', async () => {
+    // Cut off mid-object, as a stream that hits the output limit is
+    vi.spyOn(llmAdapter, 'forUser').mockReturnValue(streamingAdapter(`[${row('a.example')},${row('b.example')},{"websiteUrl": "https://c.ex`));
+    const { leads } = await performSEOLeadGen({} as any, 'plumbers', 'Denver', { count: 3, ...offline });
+    expect(leads.map(l => l.businessName).sort()).toEqual(['a.example', 'b.example']);
+  });
+
+  it('adds rows only the final pass found without duplicating streamed ones', async () => {
+    // A fenced answer hides the array from the incremental parser after the first row
+    const text = `[${row('a.example')}]\n\`\`\`json\n[${row('a.example')},${row('b.example')}]\n\`\`\``;
+    vi.spyOn(llmAdapter, 'forUser').mockReturnValue(streamingAdapter(text));
+    const { leads } = await performSEOLeadGen({} as any, 'plumbers', 'Denver', { count: 2, ...offline });
+    expect(leads.map(l => l.businessName).sort()).toEqual(['a.example', 'b.example']);
+  });
+
+  it('refuses providers without search grounding before asking for businesses', async () => {
+    const stream = vi.fn();
+    vi.spyOn(llmAdapter, 'forUser').mockReturnValue({ ...streamingAdapter('[]'), provider: 'OPENAI', supportsSearch: false, stream });
+    await expect(performSEOLeadGen({} as any, 'plumbers', 'Denver', offline)).rejects.toThrow(LEAD_GEN_NEEDS_SEARCH);
+    expect(stream).not.toHaveBeenCalled();
+  });
+});
+
+describe('llmAdapter search grounding', () => {
+  it('reports search support from the active provider alone', () => {
+    expect(llmAdapter.supportsSearch({ activeAiProvider: 'GEMINI' } as any)).toBe(true);
+    expect(llmAdapter.supportsSearch({ activeAiProvider: 'OPENAI' } as any)).toBe(false);
+    expect(llmAdapter.supportsSearch({ activeAiProvider: 'CUSTOM' } as any)).toBe(false);
+  });
+
+  it('rejects grounded requests on other providers with a neutral error', async () => {
+    const adapter = llmAdapter.fromCredentials({ provider: 'OPENAI', apiKey: 'sk-test' });
+    await expect(adapter.complete({ prompt: 'List plumbers', useSearch: true })).rejects.toThrow('Search grounding is not supported by the OpenAI-compatible provider.');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { leadImport, CUSTOM_COLUMN } from '../services/leadImport';
+import { exportService, BUILT_IN_PROFILES } from '../services/exportService';
+import { SEOAudit, OpportunityLevel } from '../types';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/import/${name}`, import.meta.url));
+const text = (name: string) => fixture(name).toString('utf8');
+
+const audit: SEOAudit = {
+  websiteUrl: 'https://acme.example/',
+  businessName: 'Acme, Inc.',
+  email: 'owner@acme.example',
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: ['Missing H1'],
+  technicalIssues: ['Slow server'],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.HIGH,
+};
+
+describe('leadImport.parseCsv', () => {
+  it('handles a BOM, quoted fields, doubled quotes and embedded newlines', () => {
+    expect(leadImport.parseCsv(text('quoted.csv'))).toEqual([
+      ['Email', 'Business Name', 'Notes'],
+      ['owner@acme.example', 'Smith, Jones & Co', 'Said "call back" on Monday'],
+      ['  info@bright.example  ', 'Bright Dental', 'First line\r\nsecond line, with a comma'],
+      [''],
+      ['hello@corner.example', 'Corner Café', ''],
+    ]);
+  });
+
+  it('detects the delimiter when a quoted cell spans lines', () => {
+    expect(leadImport.parseCsv(text('semicolon-multiline.csv'))).toEqual([
+      ['Email', 'Business', 'Notes'],
+      ['owner@acme.example', 'Acme', 'Called twice, no answer,\r\nleft voicemail, try again, later'],
+      ['hi@bright.example', 'Bright, Dental', 'Booked'],
+    ]);
+  });
+
+  it.each([
+    ['tabs.tsv', ['owner@acme.example', 'Acme, Inc.', 'https://acme.example/']],
+    ['pipes.txt', ['Company', 'Work Email', 'City']],
+  ])('detects the delimiter in %s', (name, firstRow) => {
+    expect(leadImport.parseCsv(text(name))[0]).toEqual(firstRow);
+  });
+
+  it('uses an explicit delimiter over detection', () => {
+    expect(leadImport.parseCsv('a;b,c\n', ',')).toEqual([['a;b', 'c']]);
+  });
+
+  it('keeps a final row without a line break', () => {
+    expect(leadImport.parseCsv('Email\nowner@acme.example')).toEqual([['Email'], ['owner@acme.example']]);
+  });
+});
+
+describe('leadImport.readFile', () => {
+  it('falls back to Windows-1252 for files that are not UTF-8', async () => {
+    const rows = await leadImport.readFile(new File([fixture('windows-1252.csv')], 'export.csv'));
+    expect(rows[1]).toEqual(['bonjour@cafe.example', 'Café Crème']);
+  });
+
+  it('refuses legacy .xls files', async () => {
+    const xls = new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+    await expect(leadImport.readFile(new File([xls], 'leads.xls'))).rejects.toThrow('Legacy .xls files are not supported');
+  });
+});
+
+describe('leadImport header detection and mapping', () => {
+  it.each(BUILT_IN_PROFILES.map(p => [p.name, p] as const))('recognises the %s export', (_, profile) => {
+    const rows = leadImport.parseCsv(exportService.toCsv([audit], profile));
+    expect(leadImport.detectHeader(rows)).toBe(true);
+    const mapping = leadImport.autoMap(rows, true);
+    expect(mapping[profile.columns.findIndex(c => c.field === 'email')]).toBe('email');
+    const { leads, invalid } = leadImport.build(rows, mapping, true);
+    expect(invalid).toEqual([]);
+    expect(leads).toEqual([expect.objectContaining({ email: 'owner@acme.example', businessName: 'Acme, Inc.' })]);
+  });
+
+  it('joins every issue column of the default export and skips a clean Local SEO column', () => {
+    const rows = leadImport.parseCsv(exportService.toCsv([audit], BUILT_IN_PROFILES[0]));
+    const { leads } = leadImport.build(rows, leadImport.autoMap(rows, true), true);
+    expect(leads[0].seoErrors).toBe('Missing H1; Slow server');
+  });
+
+  it('treats a first row of addresses as data and finds the email column', () => {
+    const rows = leadImport.parseCsv(text('tabs.tsv'));
+    expect(leadImport.detectHeader(rows)).toBe(false);
+    expect(leadImport.autoMap(rows, false)).toEqual(['email', null, null]);
+  });
+
+  it('treats an unknown first row as a header when the rows under it hold addresses', () => {
+    const rows = [['Contact', 'Shop'], ['owner@acme.example', 'Acme']];
+    expect(leadImport.detectHeader(rows)).toBe(true);
+    expect(leadImport.autoMap(rows, true)).toEqual(['email', CUSTOM_COLUMN]);
+  });
+
+  it('maps aliases, keeps other named columns as custom tags and reports bad rows', () => {
+    const rows = leadImport.parseCsv(text('quoted.csv'));
+    const mapping = leadImport.autoMap(rows, true);
+    expect(mapping).toEqual(['email', 'businessName', 'notes']);
+
+    const pipes = leadImport.parseCsv(text('pipes.txt'));
+    expect(leadImport.autoMap(pipes, true)).toEqual(['businessName', 'email', 'location']);
+
+    const { leads, blankRows } = leadImport.build(rows, mapping, true);
+    expect(blankRows).toBe(1);
+    expect(leads.map(l => l.email)).toEqual(['owner@acme.example', 'info@bright.example', 'hello@corner.example']);
+    expect(leads[1].notes).toBe('First line\r\nsecond line, with a comma');
+  });
+
+  it('counts duplicates and rejects missing or malformed addresses with their line numbers', () => {
+    const rows = [['Email', 'Company'], ['owner@acme.example', 'Acme'], ['OWNER@acme.example', 'Acme again'], ['', 'Nobody'], ['not-an-email', 'Broken']];
+    const preview = leadImport.build(rows, leadImport.autoMap(rows, true), true);
+    expect(preview.duplicates).toBe(1);
+    expect(preview.invalid.map(r => [r.index, r.reason.split(':')[0]])).toEqual([[4, 'Missing email'], [5, 'Malformed email']]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { leadQuery, EMPTY_LEAD_FILTERS, LeadFilters } from '../services/leadQuery';
+import { SEOAudit, OpportunityLevel } from '../types';
+
+const lead = (businessName: string, fields: Partial<SEOAudit> = {}): SEOAudit => ({
+  websiteUrl: `https://${businessName.toLowerCase().replace(/\W+/g, '')}.example/`,
+  businessName,
+  email: '',
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.MEDIUM,
+  ...fields,
+});
+
+const acme = lead('Acme Plumbing', { opportunityLevel: OpportunityLevel.HIGH, opportunityScore: 70, email: 'owner@acme.example', onPageIssues: ['Missing H1', 'Thin content'] });
+const bright = lead('bright Dental', { opportunityLevel: OpportunityLevel.HIGH, opportunityScore: 85, technicalIssues: ['No HTTPS redirect'], localSeoIssues: { hasIssues: true, reason: 'No Google Business Profile' } });
+const corner = lead('Corner Cafe', { opportunityLevel: OpportunityLevel.LOW, phone: '415-555-0100', email: 'not listed', verification: { status: 'UNGROUNDED', reasons: [], checkedAt: '2025-01-06T00:00:00.000Z' } });
+const delta = lead('Delta Roofing', { onPageIssues: ['Missing meta description'], technicalIssues: ['Slow server', 'No sitemap'] });
+const all = [acme, bright, corner, delta];
+
+const names = (leads: SEOAudit[]) => leads.map(l => l.businessName);
+const filter = (patch: Partial<LeadFilters>) => names(leadQuery.filter(all, { ...EMPTY_LEAD_FILTERS, ...patch }));
+
+describe('leadQuery.filter', () => {
+  it('keeps everything with empty filters', () => {
+    expect(filter({})).toEqual(names(all));
+    expect(leadQuery.isFiltered(EMPTY_LEAD_FILTERS)).toBe(false);
+    expect(leadQuery.isFiltered({ ...EMPTY_LEAD_FILTERS, text: '   ' })).toBe(false);
+  });
+
+  it('filters by any of the chosen levels', () => {
+    expect(filter({ levels: [OpportunityLevel.LOW, OpportunityLevel.MEDIUM] })).toEqual(['Corner Cafe', 'Delta Roofing']);
+  });
+
+  it('applies the flag filters together', () => {
+    expect(filter({ hasEmailOnly: true })).toEqual(['Acme Plumbing']);
+    expect(filter({ localSeoIssuesOnly: true })).toEqual(['bright Dental']);
+    expect(filter({ verifiedOnly: true })).toEqual(['Acme Plumbing', 'bright Dental', 'Delta Roofing']);
+    expect(filter({ hasEmailOnly: true, localSeoIssuesOnly: true })).toEqual([]);
+  });
+
+  it('matches every search term, case-insensitively, across names, contacts and issues', () => {
+    expect(filter({ text: '  SITEMAP ' })).toEqual(['Delta Roofing']);
+    expect(filter({ text: 'google profile' })).toEqual(['bright Dental']);
+    expect(filter({ text: '415-555' })).toEqual(['Corner Cafe']);
+    expect(filter({ text: 'acme.example' })).toEqual(['Acme Plumbing']);
+    expect(filter({ text: 'missing   h1' })).toEqual(['Acme Plumbing']);
+    expect(filter({ text: 'missing dental' })).toEqual([]);
+  });
+});
+
+describe('leadQuery.sort', () => {
+  it('returns the input untouched without a key', () => {
+    expect(leadQuery.sort(all, null, 'asc')).toBe(all);
+  });
+
+  it('sorts by level, then by score within a level, with unscored leads last', () => {
+    expect(names(leadQuery.sort(all, 'opportunity', 'desc'))).toEqual(['bright Dental', 'Acme Plumbing', 'Delta Roofing', 'Corner Cafe']);
+    expect(names(leadQuery.sort(all, 'opportunity', 'asc'))).toEqual(['Corner Cafe', 'Delta Roofing', 'Acme Plumbing', 'bright Dental']);
+  });
+
+  it('sorts names without regard to case', () => {
+    expect(names(leadQuery.sort(all, 'businessName', 'asc'))).toEqual(['Acme Plumbing', 'bright Dental', 'Corner Cafe', 'Delta Roofing']);
+  });
+
+  it('keeps discovery order for ties in both directions', () => {
+    expect(names(leadQuery.sort(all, 'onPageCount', 'desc'))).toEqual(['Acme Plumbing', 'Delta Roofing', 'bright Dental', 'Corner Cafe']);
+    expect(names(leadQuery.sort(all, 'technicalCount', 'asc'))).toEqual(['Acme Plumbing', 'Corner Cafe', 'bright Dental', 'Delta Roofing']);
+  });
+
+  it('does not modify the input', () => {
+    const input = [...all];
+    leadQuery.sort(input, 'businessName', 'desc');
+    expect(input).toEqual(all);
+  });
+});
+
+describe('leadQuery.page', () => {
+  const rows = Array.from({ length: 7 }, (_, i) => i);
+
+  it('slices full and partial pages', () => {
+    expect(leadQuery.page(rows, 0, 3)).toEqual({ rows: [0, 1, 2], page: 0, pageCount: 3 });
+    expect(leadQuery.page(rows, 2, 3)).toEqual({ rows: [6], page: 2, pageCount: 3 });
+  });
+
+  it('does not add a page when the rows fill the last one exactly', () => {
+    expect(leadQuery.page(rows.slice(0, 6), 5, 3)).toEqual({ rows: [3, 4, 5], page: 1, pageCount: 2 });
+  });
+
+  it('clamps a page past the end after the list shrinks', () => {
+    expect(leadQuery.page(rows, 9, 3)).toEqual({ rows: [6], page: 2, pageCount: 3 });
+  });
+
+  it('clamps a negative page to the first', () => {
+    expect(leadQuery.page(rows, -1, 3)).toEqual({ rows: [0, 1, 2], page: 0, pageCount: 3 });
+  });
+
+  it('gives an empty list a single empty page', () => {
+    expect(leadQuery.page([], 4, 25)).toEqual({ rows: [], page: 0, pageCount: 1 });
+  });
+});
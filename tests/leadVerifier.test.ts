@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { leadVerifier, DomainResolver, ReachabilityProbe } from '../services/leadVerifier';
+import { SEOAudit, OpportunityLevel } from '../types';
+
+const lead = (websiteUrl: string, businessName = 'Acme Plumbing'): SEOAudit => ({
+  websiteUrl,
+  businessName,
+  email: '',
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.MEDIUM,
+});
+
+const resolves: DomainResolver = async domain => domain !== 'gone.example';
+/** Answers only at the listed URLs, like sites reached through the proxy */
+const answersAt = (...urls: string[]): ReachabilityProbe => async url => urls.includes(url);
+const chunks = [{ web: { uri: 'https://acme.example/', title: 'Acme Plumbing' } }];
+
+describe('leadVerifier.verifyLead', () => {
+  it('verifies a grounded lead whose site answers', async () => {
+    const result = await leadVerifier.verifyLead(lead('https://acme.example'), chunks, { resolver: resolves, probe: answersAt('https://acme.example/') });
+    expect(result).toMatchObject({ status: 'VERIFIED', grounded: true, resolves: true, responds: true, reasons: [] });
+  });
+
+  it('accepts a site that only answers over plain HTTP', async () => {
+    const result = await leadVerifier.verifyLead(lead('acme.example'), [], { resolver: resolves, probe: answersAt('http://acme.example/') });
+    expect(result.status).toBe('VERIFIED');
+    expect(result.responds).toBe(true);
+  });
+
+  it('fails a domain that does not resolve without probing it', async () => {
+    const probed: string[] = [];
+    const result = await leadVerifier.verifyLead(lead('https://gone.example'), [], {
+      resolver: resolves,
+      probe: async url => { probed.push(url); return true; },
+    });
+    expect(result).toMatchObject({ status: 'FAILED', resolves: false, reasons: ['gone.example does not resolve'] });
+    expect(probed).toEqual([]);
+  });
+
+  it('fails a site nothing answers at', async () => {
+    const result = await leadVerifier.verifyLead(lead('https://acme.example'), [], { resolver: resolves, probe: answersAt() });
+    expect(result).toMatchObject({ status: 'FAILED', responds: false, reasons: ['acme.example did not respond'] });
+  });
+
+  it('does not fail a lead when the checks could not run', async () => {
+    const result = await leadVerifier.verifyLead(lead('https://acme.example'), [], {
+      resolver: async () => { throw new Error('DNS lookup failed: HTTP 503'); },
+      probe: async () => { throw new TypeError('Failed to fetch'); },
+    });
+    expect(result).toMatchObject({ status: 'VERIFIED', resolves: undefined, responds: undefined });
+    expect(result.reasons).toEqual(['DNS check unavailable', 'Reachability check unavailable']);
+  });
+
+  it('flags a lead no search source mentions', async () => {
+    const result = await leadVerifier.verifyLead(lead('https://other.example', 'Other Co'), chunks, { resolver: resolves, probe: answersAt('https://other.example/') });
+    expect(result).toMatchObject({ status: 'UNGROUNDED', grounded: false });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { personalizationService, DEFAULT_PERSONALIZATION, OutreachBrief, DraftText } from '../services/personalizationService';
+
+const brief: OutreachBrief = {
+  recipient: { email: 'owner@acme.example', businessName: 'Acme Plumbing', website: 'https://acme.example/', location: 'Denver, CO' },
+  issues: ['Missing meta description', 'Homepage took 4.2s to respond'],
+  extra: {},
+  sender: { name: 'Sam', email: 'sam@rank.example', agency: 'Rank Co' },
+};
+
+const styleGuide: DraftText = {
+  subject: 'Quick idea for {Business_Name}',
+  body: 'Hi there,\n\nI help local businesses get found on Google.\n\nBest,\nSam',
+};
+
+const check = (body: string, subject = 'Quick idea for Acme Plumbing', guide = styleGuide, source = brief) =>
+  personalizationService.unsupportedClaims({ subject, body }, source, guide, DEFAULT_PERSONALIZATION);
+
+describe('personalizationService.unsupportedClaims', () => {
+  it('passes a draft that only uses facts from the brief', () => {
+    expect(check('Hi Acme Plumbing team,\n\nYour homepage is missing a meta description and took 4.2s to respond on acme.example. Could we talk this week?\n\nBest,\nSam (sam@rank.example)')).toEqual([]);
+  });
+
+  it('flags an invented topic', () => {
+    expect(check('Your site also has no sitemap.')).toEqual(['Mentions sitemap, which is not in the brief']);
+  });
+
+  it('flags invented numbers once each, including money and percentages', () => {
+    expect(check('You could see 30% more calls, worth $5,000. Yes, 30% more.')).toEqual([
+      'States "30%", which is not in the brief',
+      'States "$5,000", which is not in the brief',
+    ]);
+  });
+
+  it('flags domains the brief does not name', () => {
+    expect(check('Your competitor bestplumbers.example ranks above acme.example. See https://www.bestplumbers.example.')).toEqual([
+      'Mentions bestplumbers.example, which is not in the brief',
+      'Mentions www.bestplumbers.example, which is not in the brief',
+    ]);
+  });
+
+  it.each(['Hi [First Name],', 'Hi {First_Name},'])('flags the leftover placeholder in %j', body => {
+    expect(check(body)).toEqual([`Leaves the placeholder ${body.slice(3, -1)} unfilled`]);
+  });
+
+  it('checks the subject as well as the body', () => {
+    expect(check('Hi there', 'Fix your broken links')).toEqual(['Mentions broken links, which is not in the brief']);
+  });
+
+  it('allows topics and numbers the style guide mentions', () => {
+    const guide = { subject: 'Reviews for {Business_Name}', body: 'We got one client 50 new reviews in 3 months.' };
+    expect(check('We got one client 50 new reviews in 3 months.', 'Reviews for Acme Plumbing', guide)).toEqual([]);
+  });
+
+  it('allows facts from the notes, custom columns and homepage snapshot', () => {
+    const rich: OutreachBrief = {
+      ...brief,
+      notes: 'Open since 1998',
+      extra: { Partner_Site: 'denverpipes.example' },
+      site: { url: 'https://acme.example/', title: 'Acme Plumbing', description: '', headings: ['24/7 emergency service'], excerpt: '' },
+    };
+    expect(check('Open since 1998 and partnered with denverpipes.example, your 24/7 emergency service stands out.', undefined, styleGuide, rich)).toEqual([]);
+  });
+
+  it('allows what the chosen call to action asks for', () => {
+    const draft = { subject: 'Acme Plumbing', body: 'Can I send the full SEO audit for your site?' };
+    expect(personalizationService.unsupportedClaims(draft, brief, styleGuide, { ...DEFAULT_PERSONALIZATION, cta: 'AUDIT' })).toEqual([]);
+  });
+
+  it('lists every problem in a heavily invented draft', () => {
+    expect(check('Your 12 reviews and missing sitemap on acme-plumbing.example cost you [Amount].')).toEqual([
+      'Mentions sitemap, which is not in the brief',
+      'Mentions reviews, which is not in the brief',
+      'States "12", which is not in the brief',
+      'Mentions acme-plumbing.example, which is not in the brief',
+      'Leaves the placeholder [Amount] unfilled',
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { pipelineService, DEFAULT_PIPELINE_STAGES } from '../services/pipelineService';
+import { backendService } from '../services/backendService';
+import { SEOAudit, OpportunityLevel, SentEmail, StoredLead, PipelineStage } from '../types';
+
+const store = new Map<string, string>();
+(globalThis as any).localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => { store.set(key, value); },
+  removeItem: (key: string) => { store.delete(key); },
+};
+
+const USER = 'user-1';
+
+const audit = (domain: string, email = ''): SEOAudit => ({
+  websiteUrl: `https://${domain}/`,
+  businessName: domain,
+  email,
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.MEDIUM,
+});
+
+let nextId = 0;
+const email = (fields: Partial<SentEmail> = {}): SentEmail => ({
+  id: `MSG-${++nextId}`,
+  campaignId: 'CAMP-1',
+  recipient: 'owner@acme.example',
+  businessName: 'Acme',
+  website: 'https://www.acme.example/',
+  subject: 'Quick idea for Acme',
+  body: '',
+  status: 'SENT',
+  opened: false,
+  timestamp: new Date().toISOString(),
+  ...fields,
+});
+
+const lead = (domain: string): StoredLead => backendService.getLeads(USER).find(l => l.domain === domain)!;
+/** Current stage followed by the reason for each move */
+const trail = (l: StoredLead) => [l.stageId, ...(l.stageHistory || []).map(c => c.reason)];
+
+beforeEach(() => {
+  store.clear();
+  backendService.upsertLeads(USER, [audit('acme.example'), audit('bright.example', 'Hi@Bright.example')], { niche: 'plumbers', location: 'Denver' });
+});
+
+describe('pipelineService stages', () => {
+  it('starts with the defaults and places unstaged leads in the first stage', () => {
+    const stages = pipelineService.getStages(USER);
+    expect(stages).toBe(DEFAULT_PIPELINE_STAGES);
+    expect(pipelineService.stageOf(lead('acme.example'), stages).id).toBe('new');
+  });
+
+  it('gives sends and opens their own default stages', () => {
+    expect(DEFAULT_PIPELINE_STAGES.filter(s => s.triggers?.length).map(s => [s.id, s.triggers])).toEqual([
+      ['contacted', ['EMAIL_SENT']],
+      ['opened', ['EMAIL_OPENED']],
+    ]);
+  });
+
+  it.each([
+    [[], 'Add at least one stage.'],
+    [[{ id: 'a', name: '  ', color: '#000', kind: 'OPEN' }], 'Every stage needs a name.'],
+    [[{ id: 'a', name: 'New', color: '#000', kind: 'OPEN' }, { id: 'b', name: ' new ', color: '#000', kind: 'OPEN' }], 'Stage names must be unique.'],
+    [[{ id: 'a', name: 'Won', color: '#000', kind: 'WON' }], 'The first stage must be an open stage; new leads start there.'],
+  ] as [PipelineStage[], string][])('rejects invalid stage lists: %#', (stages, message) => {
+    expect(() => pipelineService.saveStages(USER, stages)).toThrow(message);
+  });
+
+  it('saves trimmed stages per user and falls back to the first for removed stages', () => {
+    pipelineService.saveStages(USER, [{ id: 'todo', name: ' To do ', color: '#000', kind: 'OPEN' }, { id: 'done', name: 'Done', color: '#000', kind: 'WON' }]);
+    const stages = pipelineService.getStages(USER);
+    expect(stages.map(s => s.name)).toEqual(['To do', 'Done']);
+    expect(pipelineService.getStages('someone-else')).toBe(DEFAULT_PIPELINE_STAGES);
+    expect(pipelineService.stageOf({ ...lead('acme.example'), stageId: 'proposal' }, stages).id).toBe('todo');
+  });
+});
+
+describe('pipelineService.moveLead', () => {
+  it('moves and records the change', () => {
+    const moved = pipelineService.moveLead(lead('acme.example'), 'meeting', DEFAULT_PIPELINE_STAGES);
+    expect(lead('acme.example')).toEqual(moved);
+    expect(moved.stageHistory).toEqual([expect.objectContaining({ fromStageId: null, toStageId: 'meeting', reason: 'MANUAL' })]);
+  });
+
+  it('ignores a move to the current stage and refuses unknown stages', () => {
+    const current = lead('acme.example');
+    expect(pipelineService.moveLead(current, 'new', DEFAULT_PIPELINE_STAGES)).toBe(current);
+    expect(() => pipelineService.moveLead(current, 'nowhere', DEFAULT_PIPELINE_STAGES)).toThrow('Unknown pipeline stage.');
+  });
+});
+
+describe('pipelineService email events', () => {
+  it('moves the lead matched by website domain or recipient address', () => {
+    expect(pipelineService.recordEmailEvent(USER, email(), 'EMAIL_SENT')).toBe(1);
+    expect(pipelineService.recordEmailEvent(USER, email({ website: undefined, recipient: ' hi@bright.EXAMPLE ' }), 'EMAIL_SENT')).toBe(1);
+    expect(lead('acme.example').stageHistory).toEqual([expect.objectContaining({ toStageId: 'contacted', reason: 'EMAIL_SENT', detail: 'Quick idea for Acme' })]);
+    expect(lead('bright.example').stageId).toBe('contacted');
+  });
+
+  it('moves an opened email on from contacted to opened when the open is recorded', () => {
+    const sent = email();
+    backendService.logSentEmail(sent);
+    pipelineService.recordEmailEvent(USER, sent, 'EMAIL_SENT');
+
+    expect(pipelineService.recordOpen(USER, sent.id)).toBe(1);
+    expect(backendService.getSentEmails()[0]).toMatchObject({ id: sent.id, opened: true, openedAt: expect.any(String) });
+    expect(trail(lead('acme.example'))).toEqual(['opened', 'EMAIL_SENT', 'EMAIL_OPENED']);
+  });
+
+  it('records an open only once and ignores unknown emails', () => {
+    const sent = email();
+    backendService.logSentEmail(sent);
+    pipelineService.recordOpen(USER, sent.id);
+    pipelineService.moveLead(lead('acme.example'), 'new', DEFAULT_PIPELINE_STAGES);
+
+    expect(pipelineService.recordOpen(USER, sent.id)).toBe(0);
+    expect(pipelineService.recordOpen(USER, 'missing')).toBe(0);
+    expect(lead('acme.example').stageId).toBe('new');
+  });
+
+  it('never moves a lead backwards or out of a won or lost stage', () => {
+    pipelineService.moveLead(lead('acme.example'), 'meeting', DEFAULT_PIPELINE_STAGES);
+    pipelineService.moveLead(lead('bright.example'), 'lost', DEFAULT_PIPELINE_STAGES);
+    expect(pipelineService.recordEmailEvent(USER, email(), 'EMAIL_OPENED')).toBe(0);
+    expect(pipelineService.recordEmailEvent(USER, email({ website: undefined, recipient: 'hi@bright.example' }), 'EMAIL_SENT')).toBe(0);
+    expect(lead('acme.example').stageId).toBe('meeting');
+    expect(lead('bright.example').stageId).toBe('lost');
+  });
+
+  it('does nothing when no stage listens for the event', () => {
+    pipelineService.saveStages(USER, [{ id: 'todo', name: 'To do', color: '#000', kind: 'OPEN' }]);
+    expect(pipelineService.recordEmailEvent(USER, email(), 'EMAIL_SENT')).toBe(0);
+  });
+
+  it('leaves other users\' leads alone', () => {
+    expect(pipelineService.recordEmailEvent('user-2', email(), 'EMAIL_SENT')).toBe(0);
+    expect(lead('acme.example').stageId).toBeUndefined();
+  });
+});
+
+describe('pipelineService.daysInStage', () => {
+  it('counts whole days since the last move, or since the lead was found', () => {
+    const found = lead('acme.example');
+    const now = new Date(new Date(found.firstSeenAt).getTime() + 3.5 * 86400000);
+    expect(pipelineService.daysInStage(found, now)).toBe(3);
+    const moved = { ...found, stageHistory: [{ fromStageId: null, toStageId: 'meeting', at: new Date(now.getTime() - 86400000).toISOString(), reason: 'MANUAL' as const }] };
+    expect(pipelineService.daysInStage(moved, now)).toBe(1);
+    expect(pipelineService.daysInStage(moved, new Date(0))).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { planService } from '../services/planService';
+import { backendService } from '../services/backendService';
+import { User } from '../types';
+
+const store = new Map<string, string>();
+(globalThis as any).localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => { store.set(key, value); },
+  removeItem: (key: string) => { store.delete(key); },
+};
+
+describe('planService.chargeQuery', () => {
+  let user: User;
+
+  beforeEach(() => {
+    store.clear();
+    user = backendService.register('Rep', 'rep@agency.example');
+  });
+
+  it('charges from the stored record so overlapping runs do not lose a query', () => {
+    // Both runs captured the user before either finished
+    const manualRunSnapshot = { ...user };
+    const scheduledRunSnapshot = { ...user };
+
+    planService.chargeQuery(scheduledRunSnapshot);
+    const afterBoth = planService.chargeQuery(manualRunSnapshot);
+
+    expect(afterBoth.totalQueriesUsed).toBe(user.totalQueriesUsed + 2);
+    expect(afterBoth.trialQueriesRemaining).toBe(user.trialQueriesRemaining - 2);
+    expect(backendService.getUsers()[0].totalQueriesUsed).toBe(user.totalQueriesUsed + 2);
+  });
+});
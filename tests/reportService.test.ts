@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { reportService } from '../services/reportService';
+import { SEOAudit, ReportBranding, OpportunityLevel } from '../types';
+
+const audit: SEOAudit = {
+  websiteUrl: 'https://acme.example/',
+  businessName: 'Acme Plumbing',
+  email: '',
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.MEDIUM,
+};
+
+const branding = (senderWebsite: string): ReportBranding => ({
+  agencyName: 'Rank Co',
+  primaryColor: '#1d4ed8',
+  accentColor: '#f59e0b',
+  senderName: 'Sam',
+  senderEmail: 'sam@rank.example',
+  senderWebsite,
+});
+
+describe('reportService.buildHtml sender website', () => {
+  it('links http and https addresses', () => {
+    expect(reportService.buildHtml(audit, branding('https://rank.example'))).toContain('<a href="https://rank.example">https://rank.example</a>');
+  });
+
+  it('links a bare domain over https', () => {
+    expect(reportService.buildHtml(audit, branding('rank.example'))).toContain('<a href="https://rank.example">rank.example</a>');
+  });
+
+  it.each(['javascript:alert(document.cookie)', 'data:text/html,<script>alert(1)</script>', ' JavaScript:alert(1)'])('prints %s as text without a link', website => {
+    const html = reportService.buildHtml(audit, branding(website));
+    expect(html).not.toMatch(/href="\s*(javascript|data):/i);
+    expect(html).not.toContain('<script>alert(1)</script>');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { savedSearchService } from '../services/savedSearchService';
+import { backendService } from '../services/backendService';
+import { performSEOLeadGen } from '../geminiService';
+import { SEOAudit, OpportunityLevel, User } from '../types';
+
+vi.mock('../geminiService', () => ({ performSEOLeadGen: vi.fn() }));
+
+const store = new Map<string, string>();
+(globalThis as any).localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => { store.set(key, value); },
+  removeItem: (key: string) => { store.delete(key); },
+};
+
+const audit = (domain: string): SEOAudit => ({
+  websiteUrl: `https://${domain}/`,
+  businessName: domain,
+  email: '',
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.MEDIUM,
+});
+
+const leadGen = vi.mocked(performSEOLeadGen);
+
+describe('savedSearchService.run', () => {
+  let user: User;
+
+  beforeEach(() => {
+    store.clear();
+    leadGen.mockReset();
+    user = backendService.register('Rep', 'rep@agency.example');
+  });
+
+  const create = () => savedSearchService.create(user, {
+    name: 'Denver plumbers',
+    query: { niche: 'plumbers', location: 'Denver', count: 10 },
+    filters: {},
+    schedule: '0 8 * * *',
+  });
+
+  it('charges a finished run', async () => {
+    leadGen.mockResolvedValue({ leads: [audit('a.example')], rejected: [] });
+    const result = await savedSearchService.run(user, create());
+    expect(result.search).toMatchObject({ lastRunStatus: 'OK', lastNetNewCount: 1, lastRunDomains: ['a.example'] });
+    expect(result.user.totalQueriesUsed).toBe(user.totalQueriesUsed + 1);
+  });
+
+  it('records a cancelled run without charging and keeps its leads', async () => {
+    const search = { ...create(), lastRunDomains: ['old.example'] };
+    leadGen.mockResolvedValue({ leads: [audit('a.example'), audit('b.example')], rejected: [], cancelled: true });
+    const result = await savedSearchService.run(user, search);
+
+    expect(result.user).toBe(user);
+    expect(backendService.getUsers()[0].totalQueriesUsed).toBe(user.totalQueriesUsed);
+    expect(result.search).toMatchObject({
+      lastRunStatus: 'CANCELLED',
+      lastRunError: 'Stopped after 2 of 10 results, which were kept.',
+      lastRunDomains: ['old.example', 'a.example', 'b.example'],
+    });
+    expect(backendService.getSavedSearches(user.id)[0].lastRunStatus).toBe('CANCELLED');
+    expect(backendService.getLeads(user.id).map(l => l.domain).sort()).toEqual(['a.example', 'b.example']);
+  });
+
+  it('records a run aborted before any results as cancelled, not failed', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    leadGen.mockRejectedValue(new DOMException('The operation was aborted.', 'AbortError'));
+    const result = await savedSearchService.run(user, create(), controller.signal);
+
+    expect(result.user).toBe(user);
+    expect(result.search).toMatchObject({ lastRunStatus: 'CANCELLED', lastRunError: 'Stopped before any results came back' });
+    expect(backendService.getUsers()[0].totalQueriesUsed).toBe(user.totalQueriesUsed);
+  });
+
+  it('records other failures as errors without charging', async () => {
+    leadGen.mockRejectedValue(new Error('Model overloaded'));
+    const result = await savedSearchService.run(user, create());
+    expect(result.search).toMatchObject({ lastRunStatus: 'ERROR', lastRunError: 'Model overloaded' });
+    expect(result.user.totalQueriesUsed).toBe(user.totalQueriesUsed);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { schemaValidator } from '../services/schemaValidator';
+import { OpportunityLevel } from '../types';
+
+const row = {
+  websiteUrl: 'https://acme.example/',
+  businessName: 'Acme Plumbing',
+  email: 'owner@acme.example',
+  phone: '555-0100',
+  contactPageUrl: 'https://acme.example/contact',
+  onPageIssues: ['Missing H1'],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: true, reason: 'No map embed' },
+  opportunityLevel: 'High',
+};
+
+describe('schemaValidator.validateSEOAudits', () => {
+  it('accepts a complete row without counting a repair', () => {
+    const report = schemaValidator.validateSEOAudits([row]);
+    expect(report).toEqual({ valid: [{ ...row, opportunityLevel: OpportunityLevel.HIGH }], rejected: [], repairedCount: 0 });
+  });
+
+  it.each([
+    ['a string', 'not json'],
+    ['an object', { leads: [row] }],
+    ['a number', 42],
+  ])('rejects a payload that is %s', (_, payload) => {
+    expect(schemaValidator.validateSEOAudits(payload)).toEqual({
+      valid: [],
+      rejected: [{ index: -1, reason: 'Payload is not an array', raw: payload }],
+      repairedCount: 0,
+    });
+  });
+
+  it('treats a missing payload as empty rather than rejected', () => {
+    expect(schemaValidator.validateSEOAudits(undefined).rejected).toEqual([]);
+    expect(schemaValidator.validateSEOAudits(null).rejected).toEqual([]);
+  });
+
+  it('quarantines rows that are not objects or name no business, keeping their index', () => {
+    const report = schemaValidator.validateSEOAudits([null, 'Acme', ['Acme'], row, { businessName: '  ', websiteUrl: null, email: 'a@b.example' }]);
+    expect(report.valid).toHaveLength(1);
+    expect(report.rejected.map(r => [r.index, r.reason])).toEqual([
+      [0, 'Row is not an object'],
+      [1, 'Row is not an object'],
+      [2, 'Row is not an object'],
+      [4, 'Missing both businessName and websiteUrl'],
+    ]);
+  });
+
+  it('repairs loose rows and counts each once', () => {
+    const report = schemaValidator.validateSEOAudits([
+      { websiteUrl: ' https://bright.example/ ', onPageIssues: 'Slow server', localSeoIssues: { hasIssues: 'yes' }, opportunityLevel: 'h' },
+      { businessName: 'Corner Cafe', phone: 5550100, technicalIssues: ['', 'No HTTPS', null], opportunityLevel: 'unknown' },
+    ]);
+    expect(report.repairedCount).toBe(2);
+    expect(report.valid[0]).toMatchObject({
+      websiteUrl: 'https://bright.example/',
+      businessName: 'https://bright.example/',
+      onPageIssues: ['Slow server'],
+      technicalIssues: [],
+      localSeoIssues: { hasIssues: true, reason: '' },
+      opportunityLevel: OpportunityLevel.HIGH,
+    });
+    expect(report.valid[1]).toMatchObject({ websiteUrl: '', phone: '5550100', technicalIssues: ['No HTTPS'], opportunityLevel: OpportunityLevel.MEDIUM });
+  });
+});
+
+describe('schemaValidator.validateOutreachLeads', () => {
+  it('lowercases addresses and keeps known fields only', () => {
+    const report = schemaValidator.validateOutreachLeads([{ email: ' Owner@Acme.example ', validationStatus: 'VALID', businessName: 'Acme', score: 9, notes: '' }]);
+    expect(report).toEqual({ valid: [{ email: 'owner@acme.example', validationStatus: 'VALID', businessName: 'Acme' }], rejected: [], repairedCount: 0 });
+  });
+
+  it('repairs an unknown or lowercase status', () => {
+    const report = schemaValidator.validateOutreachLeads([{ email: 'a@acme.example', validationStatus: 'risky' }, { email: 'b@acme.example', validationStatus: 'PROBABLY' }]);
+    expect(report.valid.map(l => l.validationStatus)).toEqual(['RISKY', 'UNCHECKED']);
+    expect(report.repairedCount).toBe(2);
+  });
+
+  it('rejects rows without a usable address', () => {
+    const report = schemaValidator.validateOutreachLeads([{ businessName: 'Acme' }, { email: 'owner at acme' }, { email: 42 }]);
+    expect(report.valid).toEqual([]);
+    expect(report.rejected.map(r => r.reason)).toEqual(['Missing email', 'Malformed email "owner at acme"', 'Malformed email "42"']);
+  });
+});
+
+describe('schemaValidator.validateDraftPayload', () => {
+  const fallback = { subject: 'Template subject', body: 'Template body' };
+
+  it('keeps a complete draft', () => {
+    expect(schemaValidator.validateDraftPayload({ subject: ' Hi ', body: 'Hello\n' }, fallback)).toEqual({ payload: { subject: 'Hi', body: 'Hello' }, error: undefined });
+  });
+
+  it.each([
+    [[{ subject: 'Hi', body: 'Hello' }], fallback, 'Draft payload is not an object'],
+    ['Hi', fallback, 'Draft payload is not an object'],
+    [{ subject: 'Hi' }, { subject: 'Hi', body: 'Template body' }, 'Draft missing body'],
+    [{ subject: '', body: 42 }, fallback, 'Draft missing subject and body'],
+  ])('falls back field by field for %j', (raw, payload, error) => {
+    expect(schemaValidator.validateDraftPayload(raw, fallback)).toEqual({ payload, error });
+  });
+});
+
+describe('schemaValidator.summarizeRejections', () => {
+  it('groups reasons, ignoring the quoted values', () => {
+    expect(schemaValidator.summarizeRejections([
+      { index: 0, reason: 'Malformed email "a"', raw: {} },
+      { index: 1, reason: 'Malformed email "b c"', raw: {} },
+      { index: 2, reason: 'Missing email', raw: {} },
+    ])).toEqual(['Malformed email (2)', 'Missing email (1)']);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { scoringService, DEFAULT_SCORING_WEIGHTS } from '../services/scoringService';
+import { SEOAudit, OpportunityLevel, AuditFinding, AuditSeverity } from '../types';
+
+const lead = (fields: Partial<SEOAudit> = {}): SEOAudit => ({
+  websiteUrl: 'https://acme.example/',
+  businessName: 'Acme',
+  email: '',
+  phone: '',
+  contactPageUrl: '',
+  onPageIssues: [],
+  technicalIssues: [],
+  localSeoIssues: { hasIssues: false, reason: '' },
+  opportunityLevel: OpportunityLevel.LOW,
+  ...fields,
+});
+
+const issues = (count: number) => Array.from({ length: count }, (_, i) => `Issue ${i + 1}`);
+const finding = (severity: AuditSeverity): AuditFinding => ({ check: 'h1', category: 'ON_PAGE', severity, message: '', evidence: '' });
+const points = (l: SEOAudit, weights = DEFAULT_SCORING_WEIGHTS) =>
+  Object.fromEntries(scoringService.breakdown(l, weights).map(c => [c.rule, c.points]));
+
+describe('scoringService.breakdown', () => {
+  it('scores nothing for a clean lead without contacts', () => {
+    expect(scoringService.score(lead())).toMatchObject({ opportunityScore: 0, opportunityLevel: OpportunityLevel.LOW, opportunityLevelSource: 'SCORED' });
+  });
+
+  it('weights each rule and explains it', () => {
+    const scored = scoringService.breakdown(lead({
+      onPageIssues: issues(2),
+      technicalIssues: issues(1),
+      auditFindings: [finding('CRITICAL'), finding('WARNING'), finding('CRITICAL')],
+      localSeoIssues: { hasIssues: true, reason: 'No map embed' },
+      email: ' owner@acme.example ',
+      phone: '(415) 555-0100',
+    }));
+    expect(scored).toEqual([
+      { rule: 'on_page', label: 'On-page issues', points: 12, detail: '2 × 6' },
+      { rule: 'technical', label: 'Technical issues', points: 8, detail: '1 × 8' },
+      { rule: 'critical', label: 'Critical findings', points: 10, detail: '2 × 5' },
+      { rule: 'local_seo', label: 'Local SEO issues', points: 15, detail: 'No map embed' },
+      { rule: 'email', label: 'Email available', points: 10, detail: 'owner@acme.example' },
+      { rule: 'phone', label: 'Phone available', points: 5, detail: '(415) 555-0100' },
+    ]);
+  });
+
+  it('caps counted rules and says so', () => {
+    const scored = scoringService.breakdown(lead({ onPageIssues: issues(6), technicalIssues: issues(4), auditFindings: Array(4).fill(finding('CRITICAL')) }));
+    expect(scored.slice(0, 3).map(c => [c.points, c.detail])).toEqual([
+      [30, '6 × 6 (capped at 30)'],
+      [30, '4 × 8 (capped at 30)'],
+      [15, '4 × 5 (capped at 15)'],
+    ]);
+    expect(points(lead({ onPageIssues: issues(5) })).on_page).toBe(30);
+  });
+
+  it('only credits contacts that look usable', () => {
+    expect(points(lead({ email: 'info at acme', phone: '555-01' }))).toMatchObject({ email: 0, phone: 0 });
+    expect(points(lead({ phone: '555-0100' })).phone).toBe(5);
+  });
+
+  it('uses custom weights', () => {
+    const weights = { ...DEFAULT_SCORING_WEIGHTS, onPageIssue: 10, onPageCap: 15, hasEmail: 0 };
+    expect(points(lead({ onPageIssues: issues(2), email: 'owner@acme.example' }), weights)).toMatchObject({ on_page: 15, email: 0 });
+  });
+});
+
+describe('scoringService.score', () => {
+  it('clamps the total to 100', () => {
+    const full = lead({
+      onPageIssues: issues(10),
+      technicalIssues: issues(10),
+      auditFindings: Array(10).fill(finding('CRITICAL')),
+      localSeoIssues: { hasIssues: true, reason: '' },
+      email: 'owner@acme.example',
+      phone: '415-555-0100',
+    });
+    expect(scoringService.breakdown(full).reduce((sum, c) => sum + c.points, 0)).toBe(105);
+    expect(scoringService.score(full).opportunityScore).toBe(100);
+  });
+
+  it('clamps negative weights at 0 and rounds fractional ones', () => {
+    expect(scoringService.score(lead({ onPageIssues: issues(1) }), { ...DEFAULT_SCORING_WEIGHTS, onPageIssue: -20 }).opportunityScore).toBe(0);
+    expect(scoringService.score(lead({ onPageIssues: issues(3) }), { ...DEFAULT_SCORING_WEIGHTS, onPageIssue: 2.5 }).opportunityScore).toBe(8);
+  });
+
+  it.each([
+    [0, OpportunityLevel.LOW],
+    [34, OpportunityLevel.LOW],
+    [35, OpportunityLevel.MEDIUM],
+    [59, OpportunityLevel.MEDIUM],
+    [60, OpportunityLevel.HIGH],
+    [100, OpportunityLevel.HIGH],
+  ])('rates a score of %i as %s', (score, level) => {
+    expect(scoringService.levelFor(score)).toBe(level);
+  });
+
+  it('derives the level from custom thresholds', () => {
+    const scored = scoringService.score(lead({ onPageIssues: issues(2) }), { ...DEFAULT_SCORING_WEIGHTS, highThreshold: 12 });
+    expect(scored).toMatchObject({ opportunityScore: 12, opportunityLevel: OpportunityLevel.HIGH });
+  });
+
+  it('keeps a level a rep set by hand but still scores the lead', () => {
+    const manual = lead({ opportunityLevel: OpportunityLevel.HIGH, opportunityLevelSource: 'MANUAL' });
+    expect(scoringService.score(manual)).toMatchObject({ opportunityScore: 0, opportunityLevel: OpportunityLevel.HIGH, opportunityLevelSource: 'MANUAL' });
+  });
+
+  it('scores every lead in a list', () => {
+    expect(scoringService.scoreLeads([lead(), lead({ email: 'owner@acme.example' })]).map(l => l.opportunityScore)).toEqual([0, 10]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { siteAuditor, FetchedResource, ResourceFetcher } from '../services/siteAuditor';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/site/${name}`, import.meta.url), 'utf8');
+
+const HEALTHY = fixture('healthy.html');
+const BROKEN = fixture('broken.html');
+const ROBOTS = 'User-agent: *\nAllow: /\nSitemap: https://acme.example/sitemap.xml\n';
+
+function page(url: string, body: string, status = 200, finalUrl = url, elapsedMs = 120): FetchedResource {
+  return { url, finalUrl, status, ok: status >= 200 && status < 300, body, elapsedMs };
+}
+
+/** Serves canned responses by URL; anything else rejects like a failed request */
+function fixtureFetcher(routes: Record<string, FetchedResource | Error>): ResourceFetcher {
+  return async url => {
+    const route = routes[url];
+    if (!route) throw new Error(`ENOTFOUND ${url}`);
+    if (route instanceof Error) throw route;
+    return route;
+  };
+}
+
+const checks = (findings: { check: string }[]) => findings.map(f => f.check).sort();
+
+describe('siteAuditor.analyzeHtml', () => {
+  it('reports nothing for a well-formed page', () => {
+    expect(siteAuditor.analyzeHtml(HEALTHY)).toEqual([]);
+  });
+
+  it('traces each issue to evidence from the markup', () => {
+    const findings = siteAuditor.analyzeHtml(BROKEN);
+    expect(checks(findings)).toEqual(['canonical', 'h1', 'image_alt', 'meta_description', 'robots_meta', 'title']);
+    expect(findings.find(f => f.check === 'title')?.evidence).toBe('<title>Home</title>');
+    expect(findings.find(f => f.check === 'h1')?.message).toBe('Multiple H1 headings (2 found)');
+    expect(findings.find(f => f.check === 'robots_meta')?.severity).toBe('CRITICAL');
+    const alt = findings.find(f => f.check === 'image_alt')!;
+    expect(alt.message).toBe('2 of 3 images missing alt text (33% coverage)');
+    expect(alt.evidence).toBe('/a.jpg, /b.jpg');
+  });
+});
+
+describe('siteAuditor.describeHtml', () => {
+  it('summarizes title, description, headings and body text without chrome or scripts', () => {
+    const summary = siteAuditor.describeHtml(HEALTHY);
+    expect(summary.title).toBe('Acme Plumbing | 24/7 Emergency Plumbers in Denver');
+    expect(summary.description).toMatch(/^Licensed Denver plumbers/);
+    expect(summary.headings).toEqual(['Emergency Plumbing in Denver', 'Our Services']);
+    expect(summary.excerpt).toContain('Family owned since 1998. We fix leaks, replace water heaters and clear drains & sewers.');
+    expect(summary.excerpt).not.toMatch(/analytics|Contact|Main St/);
+  });
+});
+
+describe('siteAuditor.auditSite', () => {
+  it('finds no issues on a healthy HTTPS site', async () => {
+    const fetcher = fixtureFetcher({
+      'https://acme.example/': page('https://acme.example/', HEALTHY),
+      'http://acme.example/': page('http://acme.example/', HEALTHY, 200, 'https://acme.example/'),
+      'https://acme.example/robots.txt': page('https://acme.example/robots.txt', ROBOTS),
+      'https://acme.example/sitemap.xml': page('https://acme.example/sitemap.xml', '<urlset></urlset>'),
+    });
+    const report = await siteAuditor.auditSite('acme.example', fetcher);
+    expect(report.error).toBeUndefined();
+    expect(report.findings).toEqual([]);
+    expect(report.responseTimeMs).toBe(120);
+  });
+
+  it('measures redirect, robots.txt, sitemap and response time problems', async () => {
+    const fetcher = fixtureFetcher({
+      'https://acme.example/': page('https://acme.example/', BROKEN, 200, 'https://acme.example/', 7000),
+      'http://acme.example/': page('http://acme.example/', BROKEN),
+      'https://acme.example/robots.txt': page('https://acme.example/robots.txt', 'Not found', 404),
+      'https://acme.example/sitemap.xml': page('https://acme.example/sitemap.xml', 'Not found', 404),
+    });
+    const report = await siteAuditor.auditSite('https://acme.example', fetcher);
+    const technical = report.findings.filter(f => f.category === 'TECHNICAL');
+    expect(checks(technical)).toEqual(['canonical', 'https_redirect', 'response_time', 'robots_meta', 'robots_txt', 'sitemap']);
+    expect(technical.find(f => f.check === 'response_time')?.message).toBe('Slow server response (7.0s)');
+    expect(technical.find(f => f.check === 'robots_txt')?.evidence).toBe('GET https://acme.example/robots.txt → HTTP 404');
+  });
+
+  it('falls back to HTTP and flags the missing TLS', async () => {
+    const fetcher = fixtureFetcher({
+      'http://acme.example/': page('http://acme.example/', HEALTHY),
+      'http://acme.example/robots.txt': page('http://acme.example/robots.txt', ROBOTS),
+    });
+    const report = await siteAuditor.auditSite('acme.example', fetcher);
+    expect(checks(report.findings)).toEqual(['https']);
+    expect(report.url).toBe('http://acme.example/');
+  });
+
+  it('reports an unreachable site as a finding', async () => {
+    const report = await siteAuditor.auditSite('gone.example', fixtureFetcher({}));
+    expect(checks(report.findings)).toEqual(['reachability']);
+    expect(report.error).toBe('ENOTFOUND http://gone.example/');
+  });
+
+  it('reports a blocked fetch as an audit error without inventing findings', async () => {
+    const blocked = new TypeError('Failed to fetch');
+    const report = await siteAuditor.auditSite('acme.example', async () => { throw blocked; });
+    expect(report.findings).toEqual([]);
+    expect(report.error).toBe('Site could not be fetched: Failed to fetch');
+  });
+
+  it('skips robots.txt and sitemap checks the proxy could not make', async () => {
+    const fetcher = fixtureFetcher({
+      'https://acme.example/': page('https://acme.example/', HEALTHY),
+      'http://acme.example/': page('http://acme.example/', HEALTHY, 200, 'https://acme.example/'),
+      'https://acme.example/robots.txt': new TypeError('Failed to fetch'),
+      'https://acme.example/sitemap.xml': new TypeError('Failed to fetch'),
+    });
+    const report = await siteAuditor.auditSite('acme.example', fetcher);
+    expect(report.findings).toEqual([]);
+  });
+
+  it('rebuilds issue lists from findings and keeps the error on the lead', () => {
+    const lead = siteAuditor.applyReport(
+      { onPageIssues: ['Invented by the model'], technicalIssues: [] } as any,
+      { url: 'https://acme.example/', findings: [], auditedAt: '2026-01-01T00:00:00.000Z', error: 'Site could not be fetched: Failed to fetch' }
+    );
+    expect(lead.onPageIssues).toEqual([]);
+    expect(lead.auditError).toBe('Site could not be fetched: Failed to fetch');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { templateEngine } from '../services/templateEngine';
+import { OutreachLead } from '../types';
+
+const lead = (fields: Partial<OutreachLead> = {}): OutreachLead => ({ email: 'owner@acme.example', validationStatus: 'VALID', ...fields });
+
+const acme = lead({ businessName: 'Acme Plumbing', seoErrors: 'Missing H1; Slow server', customFields: { First_Name: 'Dana' } });
+const bare = lead({ email: 'info@bright.example', customFields: { First_Name: '' } });
+
+describe('templateEngine.render', () => {
+  it('fills fields and custom columns, ignoring case, spaces and underscores', () => {
+    expect(templateEngine.render('Hi {first name}, about {BUSINESS_NAME} ({Top_Issue})', acme)).toBe('Hi Dana, about Acme Plumbing (Missing H1)');
+  });
+
+  it('uses the fallback only when the value is empty', () => {
+    expect(templateEngine.render('Hi {First_Name|there}, {Business_Name|your team}', acme)).toBe('Hi Dana, Acme Plumbing');
+    expect(templateEngine.render('Hi {First_Name|there}, {Business_Name|your team}', bare)).toBe('Hi there, your team');
+    expect(templateEngine.render('{Business_Name|}!', bare)).toBe('!');
+  });
+
+  it('keeps pipes after the first as part of the fallback', () => {
+    expect(templateEngine.render('{Business_Name|A|B}', bare)).toBe('A|B');
+  });
+
+  it('fills the sender from the context', () => {
+    expect(templateEngine.render('Reply to {Sender_Email}', acme, { senderEmail: 'sam@rank.example' })).toBe('Reply to sam@rank.example');
+  });
+
+  it('leaves unknown tags in place so they stay visible', () => {
+    expect(templateEngine.render('Hi {Nickname|friend}', acme)).toBe('Hi {Nickname|friend}');
+  });
+
+  it('chooses {#if} branches by whether the field has a value', () => {
+    const template = '{#if SEO_Errors}Found: {SEO_Errors}{else}Clean site{/if}.';
+    expect(templateEngine.render(template, acme)).toBe('Found: Missing H1; Slow server.');
+    expect(templateEngine.render(template, bare)).toBe('Clean site.');
+    expect(templateEngine.render('{#if !First_Name}Hello{else}Hi {First_Name}{/if}', bare)).toBe('Hello');
+  });
+
+  it('nests blocks', () => {
+    const template = '{#if Business_Name}{Business_Name}{#if SEO_Errors}: {Top_Issue}{else}: all good{/if}{else}{#if First_Name}{First_Name}{else}there{/if}{/if}';
+    expect(templateEngine.render(template, acme)).toBe('Acme Plumbing: Missing H1');
+    expect(templateEngine.render(template, lead({ businessName: 'Bright' }))).toBe('Bright: all good');
+    expect(templateEngine.render(template, bare)).toBe('there');
+  });
+
+  it('prints stray {else} and {/if} as text', () => {
+    expect(templateEngine.render('a{else}b{/if}c', acme)).toBe('a{else}b{/if}c');
+  });
+});
+
+describe('templateEngine.check', () => {
+  it('passes a template every recipient can fill', () => {
+    expect(templateEngine.check('Hi {First_Name|there} at {Business_Name|your team}', [acme, bare])).toEqual([]);
+  });
+
+  it.each([
+    ['{#if SEO_Errors}open', '{#if SEO_Errors} is never closed with {/if}'],
+    ['{#if SEO_Errors}a{else}b{else}c{/if}', '{else} without a matching {#if}'],
+    ['done{/if}', '{/if} without a matching {#if}'],
+    ['{else}', '{else} without a matching {#if}'],
+  ])('reports the broken block in %j', (template, message) => {
+    expect(templateEngine.check(template, [acme])).toContainEqual({ severity: 'error', message });
+  });
+
+  it('reports unknown tags once, including fallbacks and conditions', () => {
+    expect(templateEngine.check('{Nickname|friend} {nickname} {#if Budget}x{/if}', [acme])).toEqual([
+      { severity: 'error', message: 'Unknown tag {Nickname}' },
+      { severity: 'error', message: 'Unknown tag {Budget}' },
+    ]);
+  });
+
+  it('knows custom columns found on any recipient', () => {
+    expect(templateEngine.check('{Title|}', [lead({ customFields: { Title: 'Owner' } })])).toEqual([]);
+    expect(templateEngine.check('{Title|}', [acme])).toEqual([{ severity: 'error', message: 'Unknown tag {Title}' }]);
+  });
+
+  it('warns about plain tags that come out empty, counting each recipient', () => {
+    expect(templateEngine.check('Hi {First_Name}, {First_Name}', [acme, bare, lead({ customFields: { First_Name: 'Lee' } })])).toEqual([
+      { severity: 'warning', message: '{First_Name} is empty for 1 of 3 recipients. Add a fallback like {First_Name|...}' },
+    ]);
+  });
+
+  it('counts only recipients that reach a tag inside a guard', () => {
+    const noIssues = lead({ businessName: 'Corner Cafe' });
+    const noName = lead({ seoErrors: 'Slow server' });
+    // Only noName reaches {Business_Name} with issues to report
+    expect(templateEngine.check('{#if SEO_Errors}{Business_Name} has {Top_Issue}{/if}', [acme, noIssues, noName, bare])).toEqual([
+      { severity: 'warning', message: '{Business_Name} is empty for 1 of 4 recipients. Add a fallback like {Business_Name|...}' },
+    ]);
+    // The else branch is reached by recipients without issues, who all have a name here
+    expect(templateEngine.check('{#if SEO_Errors}fix it{else}{Business_Name} looks clean{/if}', [acme, noIssues])).toEqual([]);
+    expect(templateEngine.check('{#if Business_Name}{Business_Name}{/if}', [bare])).toEqual([]);
+  });
+
+  it('applies every enclosing guard', () => {
+    const template = '{#if Business_Name}{#if !SEO_Errors}{First_Name}{/if}{/if}';
+    expect(templateEngine.check(template, [acme, bare, lead({ businessName: 'Bright' })])).toEqual([
+      { severity: 'warning', message: '{First_Name} is empty for 1 of 3 recipients. Add a fallback like {First_Name|...}' },
+    ]);
+  });
+});
+
+describe('templateEngine.tagName', () => {
+  it.each([
+    ['Contact First Name', 'Contact_First_Name'],
+    ['  Budget ($)  ', 'Budget'],
+    ['***', 'Column'],
+  ])('turns %j into %j', (label, tag) => {
+    expect(templateEngine.tagName(label)).toBe(tag);
+  });
+});
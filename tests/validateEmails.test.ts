@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { validateEmailsAgent } from '../geminiService';
+import { MxResolver } from '../services/emailVerifier';
+
+const MX = [{ exchange: 'mx.acme.example', priority: 10 }];
+
+describe('validateEmailsAgent', () => {
+  it('verifies addresses again when their lookup failed', async () => {
+    let calls = 0;
+    const flaky: MxResolver = async () => {
+      if (++calls === 1) throw new Error('Request timed out after 6s');
+      return MX;
+    };
+    const { leads } = await validateEmailsAgent({} as any, [{ email: 'jane@acme.example' }], undefined, { mxResolver: flaky });
+    expect(calls).toBe(2);
+    expect(leads[0].validationStatus).toBe('VALID');
+  });
+
+  it('leaves an address unchecked once the retries run out', async () => {
+    let calls = 0;
+    const offline: MxResolver = async () => { calls++; throw new Error('DNS lookup failed: HTTP 503'); };
+    const { leads } = await validateEmailsAgent({} as any, [{ email: 'jane@acme.example' }], undefined, { mxResolver: offline });
+    expect(calls).toBe(3);
+    expect(leads[0]).toMatchObject({ validationStatus: 'UNCHECKED', validationReason: 'MX lookup unavailable' });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { xlsxReader } from '../services/xlsxReader';
+import { zipArchive } from '../services/zipArchive';
+import { leadImport } from '../services/leadImport';
+import { exportService } from '../services/exportService';
+import { SEOAudit, OpportunityLevel } from '../types';
+
+// The reader parses with the browser's DOMParser
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+const MAIN = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const REL = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+/** Workbook laid out the way Excel saves one: shared strings, prefixed namespaces, rich text */
+function excelWorkbook(parts: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  return zipArchive.create(Object.entries(parts).map(([path, xml]) => ({ path, data: encoder.encode(xml) })));
+}
+
+const workbook = `<workbook ${MAIN} ${REL}><sheets><sheet name="Leads" sheetId="1" r:id="rId7"/><sheet name="Other" sheetId="2" r:id="rId8"/></sheets></workbook>`;
+const rels = '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId8" Target="worksheets/sheet1.xml"/><Relationship Id="rId7" Target="worksheets/leads.xml"/></Relationships>';
+const sharedStrings = `<x:sst xmlns:x="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="5" uniqueCount="5">` +
+  '<x:si><x:t>Email</x:t></x:si><x:si><x:t>Business Name</x:t></x:si>' +
+  '<x:si><x:t>owner@acme.example</x:t></x:si>' +
+  '<x:si><x:r><x:rPr><x:b/></x:rPr><x:t xml:space="preserve">Smith &amp; </x:t></x:r><x:r><x:t>Jones</x:t></x:r></x:si>' +
+  '<x:si><x:t>Café &lt;Crème&gt;</x:t></x:si></x:sst>';
+const leadsSheet = `<worksheet ${MAIN}><sheetData>` +
+  '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Score</t></is></c><c r="D1" t="inlineStr"><is><t>Open</t></is></c></row>' +
+  '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="s"><v>3</v></c><c r="C2"><f>40+2</f><v>42</v></c><c r="D2" t="b"><v>1</v></c></row>' +
+  '<row r="4"><c r="B4" t="s"><v>4</v></c><c r="D4" t="b"><v>0</v></c></row>' +
+  '<row r="5"><c r="A5" t="s"><v>99</v></c></row>' +
+  '<row r="6"><c r="A6" t="inlineStr"><is><t> </t></is></c></row>' +
+  '</sheetData></worksheet>';
+
+describe('xlsxReader.readFirstSheet', () => {
+  it('reads shared strings, rich text, formulas, booleans and sparse rows from the first sheet, dropping trailing blank rows', async () => {
+    const bytes = excelWorkbook({
+      'xl/workbook.xml': workbook,
+      'xl/_rels/workbook.xml.rels': rels,
+      'xl/sharedStrings.xml': sharedStrings,
+      'xl/worksheets/leads.xml': leadsSheet,
+      'xl/worksheets/sheet1.xml': `<worksheet ${MAIN}><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Wrong sheet</t></is></c></row></sheetData></worksheet>`,
+    });
+    expect(xlsxReader.isXlsx(bytes)).toBe(true);
+    expect(await xlsxReader.readFirstSheet(bytes)).toEqual([
+      ['Email', 'Business Name', 'Score', 'Open'],
+      ['owner@acme.example', 'Smith & Jones', '42', 'TRUE'],
+      [],
+      ['', 'Café <Crème>', '', 'FALSE'],
+    ]);
+  });
+
+  it('falls back to sheet1.xml without workbook relationships', async () => {
+    const bytes = excelWorkbook({
+      'xl/workbook.xml': `<workbook ${MAIN} ${REL}><sheets><sheet name="Leads" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      'xl/worksheets/sheet1.xml': `<worksheet ${MAIN}><sheetData><row r="1"><c r="B1"><v>7</v></c></row></sheetData></worksheet>`,
+    });
+    expect(await xlsxReader.readFirstSheet(bytes)).toEqual([['', '7']]);
+  });
+
+  it.each([
+    ['has no workbook part', { 'word/document.xml': '<document/>' }, 'This file is not an Excel workbook.'],
+    ['has no sheets', { 'xl/workbook.xml': `<workbook ${MAIN}><sheets/></workbook>` }, 'The workbook has no sheets.'],
+    ['is missing its sheet part', { 'xl/workbook.xml': workbook, 'xl/_rels/workbook.xml.rels': rels }, 'The first worksheet could not be found.'],
+  ])('explains a file that %s', async (_, parts, message) => {
+    await expect(xlsxReader.readFirstSheet(excelWorkbook(parts))).rejects.toThrow(message);
+  });
+
+  it('reads our own XLSX export back into importable leads', async () => {
+    const audit: SEOAudit = {
+      websiteUrl: 'https://acme.example/',
+      businessName: 'Acme, Inc.',
+      email: 'owner@acme.example',
+      phone: '',
+      contactPageUrl: '',
+      onPageIssues: ['Missing H1'],
+      technicalIssues: ['Slow server'],
+      localSeoIssues: { hasIssues: false, reason: '' },
+      opportunityLevel: OpportunityLevel.HIGH,
+    };
+    const rows = await xlsxReader.readFirstSheet(new Uint8Array(await exportService.toXlsx([audit]).arrayBuffer()));
+    expect(leadImport.detectHeader(rows)).toBe(true);
+    const { leads } = leadImport.build(rows, leadImport.autoMap(rows, true), true);
+    expect(leads).toEqual([expect.objectContaining({
+      email: 'owner@acme.example',
+      businessName: 'Acme, Inc.',
+      website: 'https://acme.example/',
+      seoErrors: 'Missing H1; Slow server',
+    })]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { xlsxWriter } from '../services/xlsxWriter';
+import { xlsxReader } from '../services/xlsxReader';
+import { zipArchive } from '../services/zipArchive';
+import { exportService } from '../services/exportService';
+import { SEOAudit, OpportunityLevel } from '../types';
+
+// The reader parses with the browser's DOMParser
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const parse = (data: Uint8Array) => new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+
+describe('xlsxWriter', () => {
+  it('writes a package whose parts are all well-formed XML', async () => {
+    const workbook = await bytesOf(xlsxWriter.build([
+      { name: 'Leads', rows: [['Business Name', 'Score'], ['Smith & <Jones> "Co"', 42]] },
+      { name: 'Issues/2024?', rows: [['Issue'], ['Missing <title>']] },
+    ]));
+    const files = new Map((await zipArchive.read(workbook)).map(e => [e.path, e.data]));
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml',
+      'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml',
+    ]);
+    files.forEach(data => expect(parse(data).getElementsByTagName('parsererror')).toHaveLength(0));
+    const sheetNames = Array.from(parse(files.get('xl/workbook.xml')!).getElementsByTagName('sheet')).map(s => s.getAttribute('name'));
+    expect(sheetNames).toEqual(['Leads', 'Issues 2024']);
+  });
+
+  it('reads back cell for cell', async () => {
+    const rows = [
+      ['Business Name', 'Score', 'Verified', 'Notes'],
+      ['Smith & <Jones> "Co"', 42, true, 'Line one\nLine two'],
+      ['=SUM(A1:A2)', 0, false, 'bell\u0007removed'],
+      ['', null, undefined, 'sparse'],
+    ];
+    expect(await xlsxReader.readFirstSheet(await bytesOf(xlsxWriter.build([{ name: 'Leads', rows }])))).toEqual([
+      ['Business Name', 'Score', 'Verified', 'Notes'],
+      ['Smith & <Jones> "Co"', '42', 'TRUE', 'Line one\nLine two'],
+      ['=SUM(A1:A2)', '0', 'FALSE', 'bellremoved'],
+      ['', '', '', 'sparse'],
+    ]);
+  });
+
+  it('exports leads with one issue per column', async () => {
+    const lead: SEOAudit = {
+      websiteUrl: 'https://acme.example/',
+      businessName: 'Acme',
+      email: 'owner@acme.example',
+      phone: '',
+      contactPageUrl: '',
+      onPageIssues: ['Missing H1', 'Thin content'],
+      technicalIssues: ['No HTTPS redirect'],
+      localSeoIssues: { hasIssues: false, reason: '' },
+      opportunityLevel: OpportunityLevel.HIGH,
+      opportunityScore: 80,
+    };
+    const [header, row] = await xlsxReader.readFirstSheet(await bytesOf(exportService.toXlsx([lead])));
+    expect(header.slice(-3)).toEqual(['On-Page Issue 1', 'On-Page Issue 2', 'Technical Issue 1']);
+    expect(row.slice(0, 4)).toEqual(['Acme', 'https://acme.example/', 'acme.example', 'owner@acme.example']);
+    expect(row.slice(-3)).toEqual(['Missing H1', 'Thin content', 'No HTTPS redirect']);
+  });
+});
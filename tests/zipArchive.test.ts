@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { zipArchive } from '../services/zipArchive';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** One deflated entry, laid out the way Excel and most zip tools write it */
+async function deflatedZip(path: string, text: string): Promise<Uint8Array> {
+  const name = encoder.encode(path);
+  const data = encoder.encode(text);
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const packed = new Uint8Array(await new Response(stream).arrayBuffer());
+  const out = new Uint8Array(30 + name.length + packed.length + 46 + name.length + 22);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, 0x04034b50, true); view.setUint16(8, 8, true);
+  view.setUint32(18, packed.length, true); view.setUint32(22, data.length, true); view.setUint16(26, name.length, true);
+  out.set(name, 30); out.set(packed, 30 + name.length);
+  const central = 30 + name.length + packed.length;
+  view.setUint32(central, 0x02014b50, true); view.setUint16(central + 10, 8, true);
+  view.setUint32(central + 20, packed.length, true); view.setUint32(central + 24, data.length, true);
+  view.setUint16(central + 28, name.length, true); out.set(name, central + 46);
+  const end = central + 46 + name.length;
+  view.setUint32(end, 0x06054b50, true); view.setUint16(end + 8, 1, true); view.setUint16(end + 10, 1, true);
+  view.setUint32(end + 12, 46 + name.length, true); view.setUint32(end + 16, central, true);
+  return out;
+}
+
+describe('zipArchive', () => {
+  it('reads back what it writes, including UTF-8 names and empty files', async () => {
+    const entries = [
+      { path: 'docs/readme.txt', data: encoder.encode('hello') },
+      { path: 'Café/naïve.xml', data: encoder.encode('<a>ü</a>') },
+      { path: 'empty.txt', data: new Uint8Array(0) },
+    ];
+    const read = await zipArchive.read(zipArchive.create(entries));
+    expect(read.map(e => [e.path, decoder.decode(e.data)])).toEqual([
+      ['docs/readme.txt', 'hello'],
+      ['Café/naïve.xml', '<a>ü</a>'],
+      ['empty.txt', ''],
+    ]);
+  });
+
+  it('writes the standard CRC-32 into the local header', () => {
+    const zip = zipArchive.create([{ path: 'check', data: encoder.encode('123456789') }]);
+    expect(new DataView(zip.buffer).getUint32(14, true)).toBe(0xcbf43926);
+  });
+
+  it('inflates deflated entries', async () => {
+    const text = 'Business Name,Email\r\n'.repeat(50);
+    const [entry] = await zipArchive.read(await deflatedZip('leads.csv', text));
+    expect(entry.path).toBe('leads.csv');
+    expect(decoder.decode(entry.data)).toBe(text);
+  });
+
+  it('rejects data that is not an archive', async () => {
+    await expect(zipArchive.read(encoder.encode('Business Name,Email\r\n'.repeat(3)))).rejects.toThrow('Not a ZIP archive.');
+  });
+});
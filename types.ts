@@ -18,6 +18,8 @@ export interface ApiConfig {
   baseUrl: string;
   authType: 'Bearer' | 'API-Key' | 'OAuth';
   testEndpoint: string;
+  completionEndpoint?: string;
+  model?: string;
 }
 
 export interface User {
@@ -34,6 +36,8 @@ export interface User {
   activeAiProvider: AiProvider;
   geminiApiKey?: string;
   geminiKeyStatus: ApiKeyStatus;
+  // 'PLATFORM' when verified through the AI Studio key picker instead of a pasted key
+  geminiKeySource?: 'USER' | 'PLATFORM';
   openaiApiKey?: string;
   openaiKeyStatus: ApiKeyStatus;
   
@@ -51,6 +55,38 @@ export interface User {
   };
 }
 
+export type AuditCategory = 'ON_PAGE' | 'TECHNICAL';
+export type AuditSeverity = 'CRITICAL' | 'WARNING' | 'NOTICE';
+
+export interface AuditFinding {
+  check: string;
+  category: AuditCategory;
+  severity: AuditSeverity;
+  message: string;
+  evidence: string;
+}
+
+export interface ScoreComponent {
+  rule: string;
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface ScoringWeights {
+  onPageIssue: number;
+  onPageCap: number;
+  technicalIssue: number;
+  technicalCap: number;
+  criticalFinding: number;
+  criticalCap: number;
+  localSeoIssues: number;
+  hasEmail: number;
+  hasPhone: number;
+  highThreshold: number;
+  mediumThreshold: number;
+}
+
 export interface SEOAudit {
   websiteUrl: string;
   businessName: string;
@@ -64,6 +100,135 @@ export interface SEOAudit {
     reason: string;
   };
   opportunityLevel: OpportunityLevel;
+
+  // Measured by the site auditor
+  auditFindings?: AuditFinding[];
+  auditedAt?: string;
+  auditError?: string;
+
+  // Computed by the scoring engine
+  opportunityScore?: number;
+  scoreBreakdown?: ScoreComponent[];
+
+  // Rep-maintained fields
+  notes?: string;
+  /** Set when a rep picked the level by hand; rescoring then keeps it */
+  opportunityLevelSource?: 'SCORED' | 'MANUAL';
+
+  /** Search grounding chunks that mention this business */
+  sources?: LeadSource[];
+
+  // Set by the lead verifier before auditing
+  verification?: LeadVerification;
+
+  // Scraped from the site; email/phone above hold the best-ranked candidate
+  contactCandidates?: ContactCandidate[];
+  contactsCheckedAt?: string;
+  /** Why a page could not be scraped; candidates then rest on what was read */
+  contactsError?: string;
+
+  /** Email/phone values the normalizer could not repair; kept as typed */
+  contactIssues?: ContactIssue[];
+}
+
+export interface ContactIssue {
+  field: 'email' | 'phone';
+  value: string;
+  reason: string;
+}
+
+export type ContactSource = 'MAILTO' | 'OBFUSCATED' | 'TEXT' | 'TEL' | 'SCHEMA' | 'MICRODATA' | 'MODEL';
+
+export interface ContactCandidate {
+  kind: 'EMAIL' | 'PHONE';
+  value: string;
+  /** Where the strongest sighting came from */
+  source: ContactSource;
+  /** Pages it was found on; empty for model guesses */
+  pageUrls: string[];
+  /** Higher is more likely to reach someone who can say yes */
+  score: number;
+  /** schema.org contactType or a role inferred from the address */
+  label?: string;
+}
+
+/**
+ * VERIFIED: grounded, resolves and responds. UNGROUNDED: the site is live but
+ * no search source mentions it. FAILED: the domain does not resolve or respond.
+ */
+export type VerificationStatus = 'VERIFIED' | 'UNGROUNDED' | 'FAILED';
+
+export interface LeadVerification {
+  status: VerificationStatus;
+  /** Undefined when the provider returned no grounding to check against */
+  grounded?: boolean;
+  /** Undefined when the check itself could not run */
+  resolves?: boolean;
+  responds?: boolean;
+  reasons: string[];
+  checkedAt: string;
+}
+
+export interface LeadSource {
+  uri: string;
+  title: string;
+}
+
+/** Agency identity printed on client-facing audit reports */
+export interface ReportBranding {
+  agencyName: string;
+  /** Remote URL or an uploaded image as a data: URL */
+  logoUrl?: string;
+  primaryColor: string;
+  accentColor: string;
+  senderName: string;
+  senderEmail: string;
+  senderPhone?: string;
+  senderWebsite?: string;
+}
+
+export interface LeadSighting {
+  niche: string;
+  location: string;
+  seenAt: string;
+}
+
+export interface StoredLead {
+  id: string;
+  userId: string;
+  domain: string;
+  audit: SEOAudit;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  sightings: LeadSighting[];
+
+  // Sales pipeline; leads without a stage sit in the first one
+  stageId?: string;
+  stageHistory?: StageChange[];
+}
+
+export type PipelineTrigger = 'EMAIL_SENT' | 'EMAIL_OPENED';
+
+/** Won and lost stages are terminal; automatic moves never leave them */
+export type PipelineStageKind = 'OPEN' | 'WON' | 'LOST';
+
+export interface PipelineStage {
+  id: string;
+  name: string;
+  color: string;
+  kind: PipelineStageKind;
+  /** Email events that move a lead into this stage when it is further back */
+  triggers?: PipelineTrigger[];
+}
+
+export interface StageChange {
+  /** Null for the first entry of a lead that was never placed */
+  fromStageId: string | null;
+  toStageId: string;
+  at: string;
+  reason: 'MANUAL' | PipelineTrigger;
+  /** Campaign or message that caused an automatic move */
+  detail?: string;
 }
 
 export interface OutreachLead {
@@ -73,14 +238,26 @@ export interface OutreachLead {
   location?: string;
   seoErrors?: string;
   notes?: string;
+  /** Extra intake columns, keyed by merge-tag name */
+  customFields?: Record<string, string>;
   validationStatus?: ValidationStatus;
   validationReason?: string;
+  /** Corrected address offered when the domain looks mistyped */
+  suggestedEmail?: string;
+}
+
+/** Leads handed from the Intelligence tab to a new Broadcasting campaign */
+export interface CampaignHandoff {
+  name: string;
+  leads: OutreachLead[];
 }
 
 export interface DraftEmail {
   id: string;
   recipient: string;
   businessName: string;
+  /** Used to look up the stored audit when attaching a report */
+  website?: string;
   subject: string;
   body: string;
 }
@@ -118,7 +295,7 @@ export interface Campaign {
   };
   verificationHash: string;
   createdAt: string;
-  status: 'QUEUED' | 'SENDING' | 'COMPLETED' | 'SCHEDULED';
+  status: 'QUEUED' | 'SENDING' | 'COMPLETED' | 'SCHEDULED' | 'CANCELLED';
 }
 
 export interface ActivityLog {
@@ -136,6 +313,8 @@ export interface ActivityLog {
     fileName?: string;
     connectionMethod?: string;
     status?: string;
+    /** Groups the per-cell LEAD_GEN entries of one batch run */
+    batchId?: string;
     scheduledTime?: string;
     emailCount?: number;
     provider?: string;
@@ -147,13 +326,112 @@ export interface ActivityLog {
     error?: string;
     validCount?: number;
     httpStatus?: number;
+    rejectedCount?: number;
+    rejectionReasons?: string[];
+    cancelled?: boolean;
   };
 }
 
+export interface RejectedRow {
+  index: number;
+  reason: string;
+  raw: unknown;
+}
+
+export interface SearchQuery {
+  niche: string;
+  location: string;
+  count: number;
+}
+
+export interface SavedSearchFilters {
+  /** Drop leads scored below this level */
+  minOpportunity?: OpportunityLevel;
+  requireEmail?: boolean;
+  localSeoIssuesOnly?: boolean;
+}
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: SearchQuery;
+  filters: SavedSearchFilters;
+  /** Five-field cron expression: minute hour day-of-month month day-of-week */
+  schedule: string;
+  enabled: boolean;
+  createdAt: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastRunStatus?: 'OK' | 'ERROR' | 'LOCKED' | 'CANCELLED';
+  lastRunError?: string;
+  lastNetNewCount?: number;
+  /** Normalized domains returned by the previous run, used to diff the next one */
+  lastRunDomains: string[];
+}
+
+export interface SearchNotification {
+  id: string;
+  userId: string;
+  savedSearchId: string;
+  searchName: string;
+  createdAt: string;
+  netNew: { businessName: string; websiteUrl: string }[];
+  read: boolean;
+}
+
+export type ExportFieldId =
+  | 'websiteUrl' | 'domain' | 'businessName' | 'email' | 'phone' | 'contactPageUrl'
+  | 'onPageIssues' | 'technicalIssues' | 'allIssues' | 'issueCount'
+  | 'localSeoHasIssues' | 'localSeoReason' | 'localSeoSummary'
+  | 'opportunityLevel' | 'opportunityScore' | 'rating' | 'notes' | 'constant';
+
+export interface ExportColumn {
+  header: string;
+  field: ExportFieldId;
+  /** Fixed cell value, used when field is 'constant' */
+  value?: string;
+}
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  /** Absent on built-in profiles */
+  userId?: string;
+  columns: ExportColumn[];
+}
+
+export type BatchCellStatus = 'QUEUED' | 'RUNNING' | 'DONE' | 'ERROR' | 'SKIPPED' | 'CANCELLED';
+
+/** One niche × location job in a batch search grid */
+export interface BatchCell {
+  id: string;
+  niche: string;
+  location: string;
+  status: BatchCellStatus;
+  leadCount?: number;
+  /** Leads not already returned by an earlier cell of the same batch */
+  newCount?: number;
+  error?: string;
+}
+
+export type LeadGenStage = 'searching' | 'extracting' | 'validating' | 'verifying' | 'auditing' | 'contacts' | 'scoring';
+
 export interface SearchState {
   status: 'idle' | 'searching' | 'completed' | 'error';
+  query?: SearchQuery;
+  /** True while a "find more" run is appending to existing results */
+  isAppending?: boolean;
   progress: number;
+  stage?: LeadGenStage;
   results: SEOAudit[];
   error?: string;
   groundingSources?: any[];
+  rejectedRows?: RejectedRow[];
+  /** Run was stopped by the user; results hold whatever was gathered first */
+  cancelled?: boolean;
+  /** Cells of the batch grid when results came from a batch run */
+  batch?: BatchCell[];
+  /** Results are shown, but the lead library could not store them or dropped older leads */
+  libraryNotice?: string;
 }
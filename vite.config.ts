@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { GET as proxyFetch, FETCH_PROXY_PATH } from './api/fetch';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,28 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        {
+          // Serves the Vercel fetch proxy during `vite dev`
+          name: 'site-fetch-proxy',
+          configureServer(server) {
+            server.middlewares.use(FETCH_PROXY_PATH, async (req, res) => {
+              // The proxy checks the browser's Sec-Fetch-Site/Origin headers, so pass them along
+              const headers = new Headers();
+              Object.entries(req.headers).forEach(([key, value]) => { if (typeof value === 'string') headers.set(key, value); });
+              const response = await proxyFetch(new Request(`http://${req.headers.host || 'localhost'}${req.originalUrl || req.url}`, { headers }));
+              res.statusCode = response.status;
+              response.headers.forEach((value, key) => res.setHeader(key, value));
+              res.end(await response.text());
+            });
+          },
+        },
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ALLOW_SHARED_API_KEY': JSON.stringify(env.ALLOW_SHARED_API_KEY)
       },
       resolve: {
         alias: {